@@ -6,6 +6,7 @@ import process from "process";
 import builtins from "builtin-modules";
 import inlineWorkerPlugin from "esbuild-plugin-inline-worker";
 import path from "path";
+import fs from "fs";
 
 const banner =
 `/*
@@ -61,6 +62,14 @@ const context = await esbuild.context({
 	inject: [path.resolve('import-meta-url-shim.js')],
 });
 
+// PGlite のランタイムファイルを実行時に CDN から取得しないよう、プラグインフォルダへ同梱する
+const pgliteDist = path.resolve("node_modules/@electric-sql/pglite/dist");
+const pgliteOutDir = path.resolve("pglite");
+fs.mkdirSync(pgliteOutDir, { recursive: true });
+for (const fileName of ["postgres.data", "postgres.wasm", "vector.tar.gz", "pg_trgm.tar.gz"]) {
+	fs.copyFileSync(path.join(pgliteDist, fileName), path.join(pgliteOutDir, fileName));
+}
+
 if (prod) {
 	await context.rebuild();
 	process.exit(0);
@@ -1,10 +1,22 @@
-import { App, Notice } from "obsidian";
+import { App, Notice, TFile, normalizePath } from "obsidian";
 import type { VectorizationService } from "./core/services/VectorizationService";
 import type { SearchService } from "./core/services/SearchService";
 import type { StorageManagementService } from "./core/services/StorageManagementService";
-import type { SimilarityResultItem } from "./core/storage/types";
+import type {
+	RebuildCheckpoint,
+	SearchOptions,
+	SearchQuery,
+	SimilarityResultItem,
+	NoteSimilarityResult,
+} from "./core/storage/types";
+import type { NoteAggregationOptions } from "./core/search/noteAggregation";
 import { NotificationService } from "./shared/services/NotificationService";
 import type LocalFastVectorizePlugin from "./main";
+import { WorkerRequestCancelledError } from "./core/workers/workerErrors";
+import {
+	mergeMapOfContent,
+	renderMapOfContent,
+} from "./core/search/mapOfContent";
 
 export class CommandHandler {
 	private app: App;
@@ -72,6 +84,14 @@ export class CommandHandler {
 				)}s. Total vectors processed: ${totalVectorsProcessed}`
 			);
 		} catch (error) {
+			if (error instanceof WorkerRequestCancelledError) {
+				this.notificationService.updateNotice(
+					vectorizeNoticeId,
+					"Vectorization cancelled.",
+					5000
+				);
+				return;
+			}
 			console.error(
 				"Vectorization of all notes failed unexpectedly:",
 				error
@@ -105,7 +125,30 @@ export class CommandHandler {
 					);
 				}
 			);
+		} catch (error: any) {
+			this.handleRebuildError(rebuildStatusNoticeId, error);
+			return;
+		}
+		await this.loadAllNotesAndCreateIndexes(rebuildStatusNoticeId);
+	}
+
+	// 中断された再構築を、処理済みのファイルを飛ばして続きから実行する
+	async resumeRebuild(checkpoint: RebuildCheckpoint): Promise<void> {
+		const rebuildStatusNoticeId = this.notificationService.showNotice(
+			`Resuming index rebuild (${checkpoint.completedFilePaths.length} notes already done)...`,
+			0
+		);
+		await this.loadAllNotesAndCreateIndexes(
+			rebuildStatusNoticeId,
+			new Set(checkpoint.completedFilePaths)
+		);
+	}
 
+	private async loadAllNotesAndCreateIndexes(
+		rebuildStatusNoticeId: string,
+		skipFilePaths?: ReadonlySet<string>
+	): Promise<void> {
+		try {
 			this.notificationService.updateNotice(
 				rebuildStatusNoticeId,
 				"Re-vectorizing all notes for bulk load...",
@@ -119,9 +162,11 @@ export class CommandHandler {
 							message,
 							0
 						);
-					}
+					},
+					{ recordCheckpoints: true, skipFilePaths }
 				);
 
+			// HNSW インデックスはすべてのバッチを取り込んだ後に一度だけ作成する
 			this.notificationService.updateNotice(
 				rebuildStatusNoticeId,
 				`Bulk load complete (${totalVectorsProcessed} vectors). Creating database indexes... This may take some time.`,
@@ -136,6 +181,7 @@ export class CommandHandler {
 					);
 				}
 			);
+			await this.storageManagementService.clearRebuildCheckpoint();
 
 			this.notificationService.updateNotice(
 				rebuildStatusNoticeId,
@@ -144,29 +190,165 @@ export class CommandHandler {
 			);
 			console.log("Index rebuild process completed successfully.");
 		} catch (error: any) {
-			console.error("Failed to rebuild all indexes:", error);
+			this.handleRebuildError(rebuildStatusNoticeId, error);
+		}
+	}
+
+	private handleRebuildError(rebuildStatusNoticeId: string, error: any) {
+		if (error instanceof WorkerRequestCancelledError) {
 			this.notificationService.updateNotice(
 				rebuildStatusNoticeId,
-				`Index rebuild failed: ${
-					error.message || "Unknown error"
-				}. Check console.`,
+				"Index rebuild cancelled. You can resume it the next time the plugin starts.",
 				7000
 			);
+			return;
 		}
+		console.error("Failed to rebuild all indexes:", error);
+		this.notificationService.updateNotice(
+			rebuildStatusNoticeId,
+			`Index rebuild failed: ${
+				error.message || "Unknown error"
+			}. Check console.`,
+			7000
+		);
 	}
+
+	// 実行中の全ノートのベクトル化を中断する。中断できた場合は true を返す
+	cancelVectorization(): boolean {
+		return this.vectorizationService.cancelVectorizeAllNotes();
+	}
+
+	// ノートのクラスタを Map of Content のノートに書き出す。再実行ではノート内の生成した範囲だけを置き換える
+	async generateMapOfContent(): Promise<void> {
+		let notePath = normalizePath(this.plugin.settings.mapOfContentNotePath);
+		if (!notePath.endsWith(".md")) notePath += ".md";
+
+		const noticeId = this.notificationService.showNotice(
+			"Clustering notes...",
+			0
+		);
+		try {
+			const clusters = await this.searchService.clusterNotes(
+				this.plugin.settings.mapOfContentClusterCount,
+				[notePath]
+			);
+			if (clusters.length === 0) {
+				this.notificationService.updateNotice(
+					noticeId,
+					"No vectorized notes to cluster.",
+					5000
+				);
+				return;
+			}
+			const rendered = renderMapOfContent(
+				clusters.map((cluster) => ({
+					keywords: cluster.keywords,
+					links: cluster.filePaths.map((filePath) =>
+						this.getLinkText(filePath, notePath)
+					),
+				}))
+			);
+			const file = await this.writeMapOfContent(notePath, rendered);
+			this.notificationService.updateNotice(
+				noticeId,
+				`Map of Content updated with ${clusters.length} clusters.`,
+				5000
+			);
+			await this.app.workspace.getLeaf(false).openFile(file);
+		} catch (error) {
+			if (error instanceof WorkerRequestCancelledError) {
+				this.notificationService.updateNotice(
+					noticeId,
+					"Clustering cancelled.",
+					5000
+				);
+				return;
+			}
+			console.error("Failed to generate the Map of Content:", error);
+			this.notificationService.updateNotice(
+				noticeId,
+				`Failed to generate the Map of Content: ${
+					error instanceof Error ? error.message : "Unknown error"
+				}. Check console.`,
+				5000
+			);
+		}
+	}
+
+	private getLinkText(filePath: string, sourcePath: string): string {
+		const file = this.app.vault.getAbstractFileByPath(filePath);
+		return file instanceof TFile
+			? this.app.metadataCache.fileToLinktext(file, sourcePath, true)
+			: filePath.replace(/\.md$/, "");
+	}
+
+	private async writeMapOfContent(
+		notePath: string,
+		rendered: string
+	): Promise<TFile> {
+		const existing = this.app.vault.getAbstractFileByPath(notePath);
+		if (existing instanceof TFile) {
+			await this.app.vault.process(existing, (content) =>
+				mergeMapOfContent(content, rendered)
+			);
+			return existing;
+		}
+		const folderPath = notePath.split("/").slice(0, -1).join("/");
+		if (folderPath && !this.app.vault.getAbstractFileByPath(folderPath)) {
+			await this.app.vault.createFolder(folderPath);
+		}
+		return this.app.vault.create(
+			notePath,
+			mergeMapOfContent(null, rendered)
+		);
+	}
+
 	// このメソッドは SearchModal から呼び出される
 	async searchSimilarNotes(
-		query: string,
-		negativeQuery?: string,
-		limit: number = 10
+		query: SearchQuery,
+		limit: number = 10,
+		options?: SearchOptions,
+		signal?: AbortSignal
 	): Promise<SimilarityResultItem[]> {
-		if (!query.trim()) {
+		return this.runSearch(query, () =>
+			this.searchService.search(query, limit, options, signal)
+		);
+	}
+
+	// チャンクではなく、チャンクのスコアを集約したノート単位の結果を返す
+	async searchRelatedNotes(
+		query: SearchQuery,
+		limit: number,
+		aggregation: NoteAggregationOptions,
+		options?: SearchOptions,
+		signal?: AbortSignal
+	): Promise<NoteSimilarityResult[]> {
+		return this.runSearch(query, () =>
+			this.searchService.searchNotes(
+				query,
+				limit,
+				aggregation,
+				options,
+				signal
+			)
+		);
+	}
+
+	private async runSearch<T>(
+		query: SearchQuery,
+		search: () => Promise<T[]>
+	): Promise<T[]> {
+		if (query.positive.length === 0) {
 			this.notificationService.showNotice("Query cannot be empty.", 3000);
 			return [];
 		}
 		try {
-			return await this.searchService.search(query, negativeQuery, limit);
+			return await search();
 		} catch (error) {
+			// 新しい入力で置き換えられた検索は通知しない
+			if (error instanceof WorkerRequestCancelledError) {
+				throw error;
+			}
 			console.error("Error during similarity search:", error);
 			this.notificationService.showNotice(
 				`Search failed: ${
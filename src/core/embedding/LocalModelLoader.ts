@@ -0,0 +1,74 @@
+import { App, normalizePath } from "obsidian";
+import { LoggerService } from "../../shared/services/LoggerService";
+import {
+	getOnnxModelFileName,
+	type EmbeddingModelDtype,
+} from "./modelRegistry";
+
+// transformers.js (onnxruntime-web) が実行時に読み込むランタイムファイル
+export const ONNX_RUNTIME_FILES = [
+	"ort-wasm-simd-threaded.jsep.mjs",
+	"ort-wasm-simd-threaded.jsep.wasm",
+];
+
+const OPTIONAL_MODEL_FILES = [
+	"config.json",
+	"tokenizer_config.json",
+	"special_tokens_map.json",
+];
+
+export class LocalModelLoader {
+	constructor(private app: App, private logger: LoggerService | null) {}
+
+	// Worker がネットワークに触れずに済むよう、必要なファイルをすべてメインスレッドで読み込む
+	async loadModelFiles(
+		folderPath: string,
+		dtype: EmbeddingModelDtype
+	): Promise<Record<string, ArrayBuffer>> {
+		const adapter = this.app.vault.adapter;
+		const root = normalizePath(folderPath.trim());
+		if (!folderPath.trim() || !(await adapter.exists(root))) {
+			throw new Error(
+				`Local model folder not found: "${folderPath}". Set an existing folder in the plugin settings.`
+			);
+		}
+
+		const requiredFiles = [
+			"tokenizer.json",
+			getOnnxModelFileName(dtype),
+			...ONNX_RUNTIME_FILES,
+		];
+		const missingFiles: string[] = [];
+		const files: Record<string, ArrayBuffer> = {};
+
+		for (const relativePath of [
+			...requiredFiles,
+			...OPTIONAL_MODEL_FILES,
+		]) {
+			const fullPath = normalizePath(`${root}/${relativePath}`);
+			if (!(await adapter.exists(fullPath))) {
+				if (requiredFiles.includes(relativePath)) {
+					missingFiles.push(relativePath);
+				}
+				continue;
+			}
+			files[relativePath] = await adapter.readBinary(fullPath);
+			this.logger?.verbose_log(
+				`Loaded local model file ${fullPath} (${(
+					files[relativePath].byteLength /
+					1024 /
+					1024
+				).toFixed(2)} MB).`
+			);
+		}
+
+		if (missingFiles.length > 0) {
+			throw new Error(
+				`Local model folder "${root}" is missing required files: ${missingFiles.join(
+					", "
+				)}`
+			);
+		}
+		return files;
+	}
+}
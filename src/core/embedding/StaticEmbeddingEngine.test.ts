@@ -0,0 +1,195 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { StaticEmbeddingEngine } from "./StaticEmbeddingEngine";
+import { extractEmbeddingMatrix } from "./onnxEmbeddingMatrix";
+
+// テスト用に最小限の ONNX (protobuf) を組み立てる
+function varint(value: number): number[] {
+	const bytes: number[] = [];
+	while (value >= 0x80) {
+		bytes.push((value & 0x7f) | 0x80);
+		value = Math.floor(value / 128);
+	}
+	bytes.push(value);
+	return bytes;
+}
+
+function lengthDelimited(field: number, payload: number[]): number[] {
+	return [...varint(field * 8 + 2), ...varint(payload.length), ...payload];
+}
+
+function tensor(
+	name: string,
+	dims: number[],
+	dataType: number,
+	raw: Uint8Array
+): number[] {
+	return [
+		...dims.flatMap((dim) => [...varint(1 * 8), ...varint(dim)]),
+		...varint(2 * 8),
+		...varint(dataType),
+		...lengthDelimited(8, Array.from(new TextEncoder().encode(name))),
+		...lengthDelimited(9, Array.from(raw)),
+	];
+}
+
+function onnxModel(tensors: number[][]): ArrayBuffer {
+	const graph = tensors.flatMap((t) => lengthDelimited(5, t));
+	return new Uint8Array([
+		...varint(1 * 8),
+		...varint(8),
+		...lengthDelimited(7, graph),
+	]).buffer;
+}
+
+function float32Bytes(values: number[]): Uint8Array {
+	return new Uint8Array(new Float32Array(values).buffer);
+}
+
+// 現行の ONNX パス (パディング + attention_mask による平均 + 切り詰め + 正規化) を再現した参照実装
+function referencePaddedMeanPooling(
+	matrix: number[][],
+	tokenIdsList: number[][],
+	dimensions: number
+): number[][] {
+	const maxLength = Math.max(...tokenIdsList.map((ids) => ids.length));
+	return tokenIdsList.map((ids) => {
+		const padded = [...ids, ...new Array(maxLength - ids.length).fill(0)];
+		const mask = padded.map((_, i): number => (i < ids.length ? 1 : 0));
+		const sum = new Array(matrix[0].length).fill(0);
+		padded.forEach((tokenId, i) => {
+			matrix[tokenId].forEach((v, d) => (sum[d] += v * mask[i]));
+		});
+		const count = mask.reduce((a, b) => a + b, 0);
+		const vector = sum.map((v) => v / count).slice(0, dimensions);
+		const magnitude = Math.sqrt(vector.reduce((a, v) => a + v * v, 0));
+		return vector.map((v) => v / magnitude);
+	});
+}
+
+describe("StaticEmbeddingEngine", () => {
+	const floatMatrix = [
+		[0.1, 0.2, 0.3, 0.4],
+		[-0.5, 0.25, 0.0, 1.0],
+		[0.9, -0.1, 0.4, -0.3],
+		[0.05, 0.6, -0.7, 0.2],
+	];
+
+	it("float32 の埋め込み行列を読み込み、先頭の次元だけを保持する", () => {
+		const buffer = onnxModel([
+			tensor("bias", [4], 1, float32Bytes([0, 0, 0, 0])),
+			tensor(
+				"embedding.weight",
+				[4, 4],
+				1,
+				float32Bytes(floatMatrix.flat())
+			),
+		]);
+		const matrix = extractEmbeddingMatrix(buffer, 3);
+
+		expect(matrix.vocabSize).toBe(4);
+		expect(matrix.dimensions).toBe(3);
+		expect(Array.from(matrix.data.slice(3, 6))).toEqual(
+			Array.from(new Float32Array([-0.5, 0.25, 0.0]))
+		);
+	});
+
+	it("int8 量子化された行列を scale と zero_point で復元する", () => {
+		const buffer = onnxModel([
+			tensor(
+				"embedding.weight_quantized",
+				[2, 2],
+				3,
+				new Uint8Array(new Int8Array([10, -20, 0, 127]).buffer)
+			),
+			tensor("embedding.weight_scale", [], 1, float32Bytes([0.5])),
+			tensor(
+				"embedding.weight_zero_point",
+				[],
+				3,
+				new Uint8Array(new Int8Array([2]).buffer)
+			),
+		]);
+		const matrix = extractEmbeddingMatrix(buffer);
+
+		expect(Array.from(matrix.data)).toEqual([4, -11, -1, 62.5]);
+	});
+
+	it("パディングありで平均を取る参照実装と一致する", () => {
+		const buffer = onnxModel([
+			tensor(
+				"embedding.weight",
+				[4, 4],
+				1,
+				float32Bytes(floatMatrix.flat())
+			),
+		]);
+		const engine = new StaticEmbeddingEngine(
+			extractEmbeddingMatrix(buffer, 3)
+		);
+		const tokenIdsList = [[1, 2, 3], [2], [3, 3, 0, 1, 2]];
+
+		const actual = engine.embed(tokenIdsList, 3);
+		const expected = referencePaddedMeanPooling(
+			floatMatrix,
+			tokenIdsList,
+			3
+		);
+
+		actual.forEach((vector, i) => {
+			expect(vector).toHaveLength(3);
+			vector.forEach((value, d) => {
+				expect(value).toBeCloseTo(expected[i][d], 6);
+			});
+		});
+	});
+
+	// フィクスチャは fixtures/generate-static-embedding-fixture.mjs で transformers.js の出力から作る
+	it("量子化された ONNX モデルの transformers.js の出力と許容誤差内で一致する", () => {
+		const fixturesDir = join(
+			dirname(fileURLToPath(import.meta.url)),
+			"fixtures"
+		);
+		const fixture = JSON.parse(
+			readFileSync(
+				join(fixturesDir, "static-embedding-expected.json"),
+				"utf8"
+			)
+		) as { dimensions: number; tokenIds: number[][]; vectors: number[][] };
+		const model = readFileSync(
+			join(fixturesDir, "static-embedding/onnx/model_quantized.onnx")
+		);
+		const engine = new StaticEmbeddingEngine(
+			extractEmbeddingMatrix(
+				model.buffer.slice(
+					model.byteOffset,
+					model.byteOffset + model.byteLength
+				),
+				fixture.dimensions
+			)
+		);
+
+		const actual = engine.embed(fixture.tokenIds, fixture.dimensions);
+
+		expect(actual).toHaveLength(fixture.vectors.length);
+		actual.forEach((vector, i) => {
+			expect(vector).toHaveLength(fixture.dimensions);
+			const similarity = vector.reduce(
+				(sum, value, d) => sum + value * fixture.vectors[i][d],
+				0
+			);
+			expect(similarity).toBeGreaterThanOrEqual(0.9999);
+		});
+	});
+
+	it("トークンが無い文はゼロベクトルを返す", () => {
+		const engine = new StaticEmbeddingEngine({
+			data: new Float32Array([1, 2]),
+			vocabSize: 1,
+			dimensions: 2,
+		});
+		expect(Array.from(engine.embed([[]], 2)[0])).toEqual([0, 0]);
+	});
+});
@@ -0,0 +1,49 @@
+import type { EmbeddingMatrix } from "./onnxEmbeddingMatrix";
+
+// StaticEmbedding はトークン埋め込みの平均でしかないため、ONNX ランタイムを使わずに直接計算する
+export class StaticEmbeddingEngine {
+	constructor(private matrix: EmbeddingMatrix) {}
+
+	get dimensions(): number {
+		return this.matrix.dimensions;
+	}
+
+	// パディングせず、文ごとにトークン列の平均を取ってから L2 正規化する
+	embed(tokenIdsList: number[][], dimensions: number): Float32Array[] {
+		const { data, vocabSize } = this.matrix;
+		const outputDimensions = Math.min(dimensions, this.matrix.dimensions);
+		const stride = this.matrix.dimensions;
+		// 結果は 1 つのバッファにまとめ、各行はそのビューとして返す
+		const output = new Float32Array(tokenIdsList.length * outputDimensions);
+		const sum = new Float64Array(outputDimensions);
+
+		return tokenIdsList.map((tokenIds, row) => {
+			sum.fill(0);
+			let count = 0;
+			for (const tokenId of tokenIds) {
+				if (tokenId < 0 || tokenId >= vocabSize) continue;
+				const offset = tokenId * stride;
+				for (let i = 0; i < outputDimensions; i++) {
+					sum[i] += data[offset + i];
+				}
+				count++;
+			}
+
+			let magnitude = 0;
+			for (let i = 0; i < outputDimensions; i++) {
+				sum[i] = count > 0 ? sum[i] / count : 0;
+				magnitude += sum[i] * sum[i];
+			}
+			magnitude = Math.sqrt(magnitude);
+
+			const vector = output.subarray(
+				row * outputDimensions,
+				(row + 1) * outputDimensions
+			);
+			for (let i = 0; i < outputDimensions; i++) {
+				vector[i] = magnitude > 0 ? sum[i] / magnitude : 0;
+			}
+			return vector;
+		});
+	}
+}
@@ -0,0 +1,286 @@
+// StaticEmbeddingEngine.test.ts が使うフィクスチャを作る。
+// 量子化された StaticEmbedding の ONNX と同じ構成 (uint8 の Gather -> DequantizeLinear -> attention_mask での平均) の
+// 小さなモデルを組み立て、transformers.js (onnxruntime-node) で推論した結果を static-embedding-expected.json に保存する。
+// 実行: node src/core/embedding/fixtures/generate-static-embedding-fixture.mjs
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { AutoModel, AutoTokenizer, env } from "@huggingface/transformers";
+
+const fixturesDir = path.dirname(fileURLToPath(import.meta.url));
+const modelName = "static-embedding";
+const modelDir = path.join(fixturesDir, modelName);
+
+const HIDDEN_SIZE = 16;
+// 切り詰めも確認するため、モデルの次元数より小さくする
+const OUTPUT_DIMENSIONS = 12;
+const SENTENCES = [
+	"obsidian notes",
+	"the quick brown fox",
+	"vector search in obsidian",
+	"unknown words here",
+	"fox",
+];
+const WORDS = [
+	"the",
+	"quick",
+	"brown",
+	"fox",
+	"obsidian",
+	"notes",
+	"vector",
+	"search",
+	"in",
+	"here",
+	"##s",
+];
+const VOCAB = ["[PAD]", "[UNK]", "[CLS]", "[SEP]", ...WORDS];
+
+// 再現できるよう、固定のシードで重みを作る
+let seed = 42;
+function random() {
+	seed = (seed * 1103515245 + 12345) % 2147483648;
+	return seed / 2147483648;
+}
+
+// --- protobuf (onnx.proto) の最小限のエンコーダ ---
+function varint(value) {
+	const bytes = [];
+	let v = BigInt.asUintN(64, BigInt(value));
+	while (v >= 0x80n) {
+		bytes.push(Number((v & 0x7fn) | 0x80n));
+		v >>= 7n;
+	}
+	bytes.push(Number(v));
+	return bytes;
+}
+const key = (field, wireType) => varint(field * 8 + wireType);
+const varintField = (field, value) => [...key(field, 0), ...varint(value)];
+const bytesField = (field, payload) => [
+	...key(field, 2),
+	...varint(payload.length),
+	...payload,
+];
+const stringField = (field, text) =>
+	bytesField(field, Array.from(new TextEncoder().encode(text)));
+
+const ONNX_FLOAT = 1;
+const ONNX_UINT8 = 2;
+const ONNX_INT64 = 7;
+
+function tensor(name, dims, dataType, raw) {
+	return [
+		...dims.flatMap((dim) => varintField(1, dim)),
+		...varintField(2, dataType),
+		...stringField(8, name),
+		...bytesField(9, Array.from(raw)),
+	];
+}
+
+function int64Bytes(values) {
+	const buffer = new Uint8Array(values.length * 8);
+	const view = new DataView(buffer.buffer);
+	values.forEach((v, i) => view.setBigInt64(i * 8, BigInt(v), true));
+	return buffer;
+}
+
+function float32Bytes(values) {
+	return new Uint8Array(new Float32Array(values).buffer);
+}
+
+function intAttribute(name, value) {
+	// AttributeProto.type = INT (2)
+	return [...stringField(1, name), ...varintField(3, value), ...varintField(20, 2)];
+}
+
+function node(opType, inputs, outputs, attributes = []) {
+	return [
+		...inputs.flatMap((input) => stringField(1, input)),
+		...outputs.flatMap((output) => stringField(2, output)),
+		...stringField(3, `${opType}_${outputs[0]}`),
+		...stringField(4, opType),
+		...attributes.flatMap((attribute) => bytesField(5, attribute)),
+	];
+}
+
+function valueInfo(name, elemType, dims) {
+	const shape = dims.flatMap((dim) =>
+		bytesField(
+			1,
+			typeof dim === "string" ? stringField(2, dim) : varintField(1, dim)
+		)
+	);
+	const tensorType = [...varintField(1, elemType), ...bytesField(2, shape)];
+	return [...stringField(1, name), ...bytesField(2, bytesField(1, tensorType))];
+}
+
+function buildModel() {
+	const vocabSize = VOCAB.length;
+	const weights = Array.from(
+		{ length: vocabSize * HIDDEN_SIZE },
+		() => random() * 2 - 1
+	);
+	// onnxruntime の quantize_dynamic と同じく、テンソル単位の uint8 に量子化する
+	const min = Math.min(0, ...weights);
+	const max = Math.max(0, ...weights);
+	const scale = (max - min) / 255;
+	const zeroPoint = Math.round(-min / scale);
+	const quantized = Uint8Array.from(weights, (w) =>
+		Math.min(255, Math.max(0, Math.round(w / scale) + zeroPoint))
+	);
+	// 埋め込み行列より小さい 2 次元の重み。埋め込み行列として選ばれてはいけない
+	const decoy = Array.from({ length: HIDDEN_SIZE * 4 }, () => random());
+
+	const initializers = [
+		tensor("embedding.weight_quantized", [vocabSize, HIDDEN_SIZE], ONNX_UINT8, quantized),
+		tensor("embedding.weight_scale", [], ONNX_FLOAT, float32Bytes([scale])),
+		tensor("embedding.weight_zero_point", [], ONNX_UINT8, Uint8Array.from([zeroPoint])),
+		tensor("projection.weight", [HIDDEN_SIZE, 4], ONNX_FLOAT, float32Bytes(decoy)),
+		tensor("axes_sequence", [1], ONNX_INT64, int64Bytes([1])),
+		tensor("axes_last", [1], ONNX_INT64, int64Bytes([-1])),
+	];
+	const nodes = [
+		node("Gather", ["embedding.weight_quantized", "input_ids"], ["gathered"]),
+		node(
+			"DequantizeLinear",
+			["gathered", "embedding.weight_scale", "embedding.weight_zero_point"],
+			["token_embeddings"]
+		),
+		node("Cast", ["attention_mask"], ["mask_float"], [intAttribute("to", ONNX_FLOAT)]),
+		node("Unsqueeze", ["mask_float", "axes_last"], ["mask_expanded"]),
+		node("Mul", ["token_embeddings", "mask_expanded"], ["masked"]),
+		node("ReduceSum", ["masked", "axes_sequence"], ["summed"], [intAttribute("keepdims", 0)]),
+		node("ReduceSum", ["mask_expanded", "axes_sequence"], ["token_count"], [intAttribute("keepdims", 0)]),
+		node("Div", ["summed", "token_count"], ["sentence_embedding"]),
+	];
+	const graph = [
+		...nodes.flatMap((n) => bytesField(1, n)),
+		...stringField(2, "static_embedding"),
+		...initializers.flatMap((t) => bytesField(5, t)),
+		...bytesField(11, valueInfo("input_ids", ONNX_INT64, ["batch", "sequence"])),
+		...bytesField(11, valueInfo("attention_mask", ONNX_INT64, ["batch", "sequence"])),
+		...bytesField(12, valueInfo("sentence_embedding", ONNX_FLOAT, ["batch", HIDDEN_SIZE])),
+	];
+	return Uint8Array.from([
+		...varintField(1, 7),
+		...stringField(2, "generate-static-embedding-fixture"),
+		...bytesField(7, graph),
+		...bytesField(8, [...stringField(1, ""), ...varintField(2, 13)]),
+	]);
+}
+
+function buildTokenizer() {
+	return {
+		version: "1.0",
+		truncation: null,
+		padding: null,
+		added_tokens: ["[PAD]", "[UNK]", "[CLS]", "[SEP]"].map((content, id) => ({
+			id,
+			content,
+			single_word: false,
+			lstrip: false,
+			rstrip: false,
+			normalized: false,
+			special: true,
+		})),
+		normalizer: { type: "BertNormalizer", clean_text: true, handle_chinese_chars: true, strip_accents: null, lowercase: true },
+		pre_tokenizer: { type: "BertPreTokenizer" },
+		post_processor: {
+			type: "TemplateProcessing",
+			single: [
+				{ SpecialToken: { id: "[CLS]", type_id: 0 } },
+				{ Sequence: { id: "A", type_id: 0 } },
+				{ SpecialToken: { id: "[SEP]", type_id: 0 } },
+			],
+			pair: [
+				{ SpecialToken: { id: "[CLS]", type_id: 0 } },
+				{ Sequence: { id: "A", type_id: 0 } },
+				{ SpecialToken: { id: "[SEP]", type_id: 0 } },
+				{ Sequence: { id: "B", type_id: 1 } },
+				{ SpecialToken: { id: "[SEP]", type_id: 1 } },
+			],
+			special_tokens: {
+				"[CLS]": { id: "[CLS]", ids: [2], tokens: ["[CLS]"] },
+				"[SEP]": { id: "[SEP]", ids: [3], tokens: ["[SEP]"] },
+			},
+		},
+		decoder: { type: "WordPiece", prefix: "##", cleanup: true },
+		model: {
+			type: "WordPiece",
+			unk_token: "[UNK]",
+			continuing_subword_prefix: "##",
+			max_input_chars_per_word: 100,
+			vocab: Object.fromEntries(VOCAB.map((token, id) => [token, id])),
+		},
+	};
+}
+
+fs.mkdirSync(path.join(modelDir, "onnx"), { recursive: true });
+fs.writeFileSync(path.join(modelDir, "onnx", "model_quantized.onnx"), buildModel());
+fs.writeFileSync(
+	path.join(modelDir, "tokenizer.json"),
+	JSON.stringify(buildTokenizer(), null, "\t") + "\n"
+);
+fs.writeFileSync(
+	path.join(modelDir, "tokenizer_config.json"),
+	JSON.stringify(
+		{
+			tokenizer_class: "BertTokenizer",
+			do_lower_case: true,
+			model_max_length: 512,
+			pad_token: "[PAD]",
+			unk_token: "[UNK]",
+			cls_token: "[CLS]",
+			sep_token: "[SEP]",
+		},
+		null,
+		"\t"
+	) + "\n"
+);
+fs.writeFileSync(
+	path.join(modelDir, "config.json"),
+	JSON.stringify({ model_type: "bert", hidden_size: HIDDEN_SIZE }, null, "\t") + "\n"
+);
+
+// Worker の ONNX エンジンと同じく、パディングしてバッチで推論し、切り詰めてから正規化する
+env.allowRemoteModels = false;
+env.allowLocalModels = true;
+env.localModelPath = fixturesDir;
+const tokenizer = await AutoTokenizer.from_pretrained(modelName);
+const model = await AutoModel.from_pretrained(modelName, {
+	dtype: "q8",
+	device: "cpu",
+});
+const inputs = tokenizer(SENTENCES, { padding: true, truncation: true });
+const { sentence_embedding } = await model(inputs);
+const [rowCount, hiddenSize] = sentence_embedding.dims;
+const vectors = Array.from({ length: rowCount }, (_, row) => {
+	const vector = Array.from(
+		sentence_embedding.data.subarray(
+			row * hiddenSize,
+			row * hiddenSize + OUTPUT_DIMENSIONS
+		)
+	);
+	const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+	return vector.map((v) => v / magnitude);
+});
+const unpadded = tokenizer(SENTENCES, {
+	padding: false,
+	truncation: true,
+	return_tensor: false,
+});
+
+fs.writeFileSync(
+	path.join(fixturesDir, "static-embedding-expected.json"),
+	JSON.stringify(
+		{
+			dimensions: OUTPUT_DIMENSIONS,
+			sentences: SENTENCES,
+			tokenIds: unpadded.input_ids,
+			vectors,
+		},
+		null,
+		"\t"
+	) + "\n"
+);
+console.log(`Wrote fixtures for ${rowCount} sentences to ${fixturesDir}.`);
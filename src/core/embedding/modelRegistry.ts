@@ -0,0 +1,135 @@
+export type EmbeddingPoolingStrategy = "sentence_embedding" | "mean" | "cls";
+
+export type EmbeddingModelDtype = "fp32" | "fp16" | "q8" | "int8" | "uint8";
+
+// onnx: transformers.js の ONNX セッション, static: 埋め込み行列を直接引く StaticEmbedding 専用の実装
+export type EmbeddingInferenceEngine = "onnx" | "static";
+
+export interface EmbeddingModelDefinition {
+	id: string;
+	name: string;
+	description: string;
+	modelId: string;
+	dtype: EmbeddingModelDtype;
+	// 出力ベクトルの次元数 (モデルの出力がこれより長い場合は切り詰める)
+	dimensions: number;
+	pooling: EmbeddingPoolingStrategy;
+	// config.json の model_type を上書きする場合に指定
+	modelType?: string;
+	// トークン埋め込みの平均だけで構成される StaticEmbedding モデルか
+	staticEmbedding?: boolean;
+}
+
+export const DEFAULT_EMBEDDING_MODEL_ID = "static-embedding-japanese";
+export const LOCAL_EMBEDDING_MODEL_ID = "local";
+// ローカルモデルを transformers.js に渡す際の擬似的なリポジトリID
+export const LOCAL_MODEL_REPO_ID = "local-model";
+
+export const EMBEDDING_POOLING_STRATEGIES: readonly EmbeddingPoolingStrategy[] =
+	["sentence_embedding", "mean", "cls"];
+
+export const EMBEDDING_INFERENCE_ENGINES: readonly EmbeddingInferenceEngine[] =
+	["onnx", "static"];
+
+export const EMBEDDING_MODEL_DTYPES: readonly EmbeddingModelDtype[] = [
+	"fp32",
+	"fp16",
+	"q8",
+	"int8",
+	"uint8",
+];
+
+export interface LocalEmbeddingModelSettings {
+	folderPath: string;
+	dtype: EmbeddingModelDtype;
+	dimensions: number;
+	pooling: EmbeddingPoolingStrategy;
+}
+
+export const EMBEDDING_MODELS: readonly EmbeddingModelDefinition[] = [
+	{
+		id: DEFAULT_EMBEDDING_MODEL_ID,
+		name: "Static Embedding Japanese",
+		description:
+			"Fast static embedding model specialized for Japanese (hotchpotch/static-embedding-japanese).",
+		modelId: "cfsdwe/static-embedding-japanese-ONNX-for-js",
+		dtype: "q8",
+		dimensions: 256,
+		pooling: "sentence_embedding",
+		modelType: "bert",
+		staticEmbedding: true,
+	},
+	{
+		id: "all-minilm-l6-v2",
+		name: "all-MiniLM-L6-v2",
+		description: "Small general-purpose English sentence embedding model.",
+		modelId: "Xenova/all-MiniLM-L6-v2",
+		dtype: "q8",
+		dimensions: 384,
+		pooling: "mean",
+	},
+	{
+		id: "paraphrase-multilingual-minilm-l12-v2",
+		name: "paraphrase-multilingual-MiniLM-L12-v2",
+		description:
+			"Multilingual sentence embedding model (50+ languages including English and Japanese).",
+		modelId: "Xenova/paraphrase-multilingual-MiniLM-L12-v2",
+		dtype: "q8",
+		dimensions: 384,
+		pooling: "mean",
+	},
+];
+
+export function getEmbeddingModel(
+	id: string | undefined
+): EmbeddingModelDefinition {
+	return (
+		EMBEDDING_MODELS.find((model) => model.id === id) ??
+		EMBEDDING_MODELS.find(
+			(model) => model.id === DEFAULT_EMBEDDING_MODEL_ID
+		)!
+	);
+}
+
+export function createLocalModelDefinition(
+	local: LocalEmbeddingModelSettings
+): EmbeddingModelDefinition {
+	return {
+		id: LOCAL_EMBEDDING_MODEL_ID,
+		name: "Local folder (offline)",
+		description: `Model loaded from "${local.folderPath}" without network access.`,
+		modelId: LOCAL_MODEL_REPO_ID,
+		dtype: local.dtype,
+		dimensions: local.dimensions,
+		pooling: local.pooling,
+	};
+}
+
+// StaticEmbedding と分かっている登録済みモデルに限る。ローカルモデルは中身を判別できないため常に ONNX を使う
+export function supportsStaticInference(
+	definition: EmbeddingModelDefinition
+): boolean {
+	return definition.staticEmbedding === true;
+}
+
+// 選択されたエンジンにモデルが対応していなければ ONNX を使う
+export function resolveInferenceEngine(
+	definition: EmbeddingModelDefinition,
+	engine: EmbeddingInferenceEngine
+): EmbeddingInferenceEngine {
+	return engine === "static" && supportsStaticInference(definition)
+		? "static"
+		: "onnx";
+}
+
+// transformers.js が dtype ごとに読み込む ONNX ファイル名
+export function getOnnxModelFileName(dtype: EmbeddingModelDtype): string {
+	const suffixes: Record<EmbeddingModelDtype, string> = {
+		fp32: "",
+		fp16: "_fp16",
+		q8: "_quantized",
+		int8: "_int8",
+		uint8: "_uint8",
+	};
+	return `onnx/model${suffixes[dtype]}.onnx`;
+}
@@ -0,0 +1,299 @@
+import { float16BitsToFloat32 } from "../../shared/utils/float16";
+
+// ONNX モデル (protobuf) から埋め込み行列だけを取り出す最小限のリーダー
+
+export interface EmbeddingMatrix {
+	// 行優先 (vocabSize x dimensions)
+	data: Float32Array;
+	vocabSize: number;
+	dimensions: number;
+}
+
+interface OnnxInitializer {
+	name: string;
+	dims: number[];
+	dataType: number;
+	rawData: Uint8Array | null;
+	floatData: number[];
+	int32Data: number[];
+}
+
+// onnx.proto の TensorProto.DataType
+const ONNX_FLOAT = 1;
+const ONNX_UINT8 = 2;
+const ONNX_INT8 = 3;
+const ONNX_FLOAT16 = 10;
+
+class ProtobufReader {
+	pos = 0;
+
+	constructor(private bytes: Uint8Array, private end = bytes.length) {}
+
+	get done(): boolean {
+		return this.pos >= this.end;
+	}
+
+	// int64 の次元数なども扱うため、ビット演算ではなく乗算で組み立てる
+	readVarint(): number {
+		let result = 0;
+		let multiplier = 1;
+		for (;;) {
+			if (this.pos >= this.end) {
+				throw new Error("Unexpected end of ONNX data.");
+			}
+			const byte = this.bytes[this.pos++];
+			result += (byte & 0x7f) * multiplier;
+			if ((byte & 0x80) === 0) return result;
+			multiplier *= 128;
+		}
+	}
+
+	readBytes(): Uint8Array {
+		const length = this.readVarint();
+		const start = this.pos;
+		this.pos += length;
+		return this.bytes.subarray(start, this.pos);
+	}
+
+	skip(wireType: number): void {
+		switch (wireType) {
+			case 0:
+				this.readVarint();
+				break;
+			case 1:
+				this.pos += 8;
+				break;
+			case 2: {
+				// 長さを読んだ後の位置から進める
+				const length = this.readVarint();
+				this.pos += length;
+				break;
+			}
+			case 5:
+				this.pos += 4;
+				break;
+			default:
+				throw new Error(`Unsupported protobuf wire type: ${wireType}`);
+		}
+	}
+}
+
+// packed / unpacked 両方の repeated varint に対応する
+function readRepeatedVarint(
+	reader: ProtobufReader,
+	wireType: number,
+	target: number[]
+): void {
+	if (wireType === 2) {
+		const packed = new ProtobufReader(reader.readBytes());
+		while (!packed.done) target.push(packed.readVarint());
+	} else {
+		target.push(reader.readVarint());
+	}
+}
+
+function parseTensor(bytes: Uint8Array): OnnxInitializer {
+	const reader = new ProtobufReader(bytes);
+	const tensor: OnnxInitializer = {
+		name: "",
+		dims: [],
+		dataType: 0,
+		rawData: null,
+		floatData: [],
+		int32Data: [],
+	};
+	while (!reader.done) {
+		const key = reader.readVarint();
+		const field = Math.floor(key / 8);
+		const wireType = key & 7;
+		switch (field) {
+			case 1:
+				readRepeatedVarint(reader, wireType, tensor.dims);
+				break;
+			case 2:
+				tensor.dataType = reader.readVarint();
+				break;
+			case 4:
+				if (wireType === 2) {
+					const packed = reader.readBytes();
+					const view = new DataView(
+						packed.buffer,
+						packed.byteOffset,
+						packed.byteLength
+					);
+					for (let i = 0; i + 4 <= packed.byteLength; i += 4) {
+						tensor.floatData.push(view.getFloat32(i, true));
+					}
+				} else {
+					const view = new DataView(
+						bytes.buffer,
+						bytes.byteOffset + reader.pos,
+						4
+					);
+					tensor.floatData.push(view.getFloat32(0, true));
+					reader.pos += 4;
+				}
+				break;
+			case 5:
+				readRepeatedVarint(reader, wireType, tensor.int32Data);
+				break;
+			case 8:
+				tensor.name = new TextDecoder().decode(reader.readBytes());
+				break;
+			case 9:
+				tensor.rawData = reader.readBytes();
+				break;
+			case 14:
+				if (reader.readVarint() === 1) {
+					throw new Error(
+						"ONNX models with external tensor data are not supported."
+					);
+				}
+				break;
+			default:
+				reader.skip(wireType);
+		}
+	}
+	return tensor;
+}
+
+function readInitializers(buffer: ArrayBuffer): OnnxInitializer[] {
+	const bytes = new Uint8Array(buffer);
+	const model = new ProtobufReader(bytes);
+	const initializers: OnnxInitializer[] = [];
+	while (!model.done) {
+		const key = model.readVarint();
+		// ModelProto.graph
+		if (Math.floor(key / 8) !== 7 || (key & 7) !== 2) {
+			model.skip(key & 7);
+			continue;
+		}
+		const graphBytes = model.readBytes();
+		const graph = new ProtobufReader(graphBytes);
+		while (!graph.done) {
+			const graphKey = graph.readVarint();
+			// GraphProto.initializer
+			if (Math.floor(graphKey / 8) === 5 && (graphKey & 7) === 2) {
+				initializers.push(parseTensor(graph.readBytes()));
+			} else {
+				graph.skip(graphKey & 7);
+			}
+		}
+	}
+	return initializers;
+}
+
+// 要素ごとに DataView を作らないよう、テンソル単位で読み取り関数を用意する
+function createElementReader(
+	tensor: OnnxInitializer
+): (index: number) => number {
+	const raw = tensor.rawData;
+	const view = raw
+		? new DataView(raw.buffer, raw.byteOffset, raw.byteLength)
+		: null;
+	switch (tensor.dataType) {
+		case ONNX_FLOAT:
+			return view
+				? (index) => view.getFloat32(index * 4, true)
+				: (index) => tensor.floatData[index];
+		case ONNX_FLOAT16:
+			return view
+				? (index) =>
+						float16BitsToFloat32(view.getUint16(index * 2, true))
+				: (index) => float16BitsToFloat32(tensor.int32Data[index]);
+		case ONNX_UINT8:
+			return raw
+				? (index) => raw[index]
+				: (index) => tensor.int32Data[index];
+		case ONNX_INT8:
+			return view
+				? (index) => view.getInt8(index)
+				: (index) => (tensor.int32Data[index] << 24) >> 24;
+		default:
+			throw new Error(
+				`Unsupported ONNX tensor data type: ${tensor.dataType}`
+			);
+	}
+}
+
+function elementCount(tensor: OnnxInitializer): number {
+	return tensor.dims.reduce((count, dim) => count * dim, 1);
+}
+
+// 量子化された重みに対応する scale / zero_point を onnxruntime の命名規則から探す
+function findQuantizationParams(
+	initializers: OnnxInitializer[],
+	weight: OnnxInitializer
+): { scale: OnnxInitializer; zeroPoint: OnnxInitializer | undefined } {
+	const baseName = weight.name.replace(/_quantized$/, "");
+	const scale = initializers.find(
+		(t) =>
+			t.name === `${baseName}_scale` &&
+			(t.dataType === ONNX_FLOAT || t.dataType === ONNX_FLOAT16)
+	);
+	if (!scale) {
+		throw new Error(
+			`Quantization scale for ONNX initializer "${weight.name}" not found.`
+		);
+	}
+	const zeroPoint = initializers.find(
+		(t) => t.name === `${baseName}_zero_point`
+	);
+	return { scale, zeroPoint };
+}
+
+// 最大の 2 次元 initializer を埋め込み行列とみなし、先頭 maxDimensions 列だけを float32 で保持する
+export function extractEmbeddingMatrix(
+	buffer: ArrayBuffer,
+	maxDimensions = Infinity
+): EmbeddingMatrix {
+	const initializers = readInitializers(buffer);
+	const weight = initializers
+		.filter((t) => t.dims.length === 2)
+		.sort((a, b) => elementCount(b) - elementCount(a))[0];
+	if (!weight) {
+		throw new Error("No embedding matrix found in the ONNX model.");
+	}
+
+	const [vocabSize, columns] = weight.dims;
+	const dimensions = Math.min(columns, maxDimensions);
+	const data = new Float32Array(vocabSize * dimensions);
+
+	const isQuantized =
+		weight.dataType === ONNX_INT8 || weight.dataType === ONNX_UINT8;
+	const quantization = isQuantized
+		? findQuantizationParams(initializers, weight)
+		: null;
+	// scale / zero_point はテンソル単位・行単位・列単位のいずれか
+	const paramIndex = (count: number, row: number, col: number) =>
+		count === 1 ? 0 : count === vocabSize ? row : col;
+	const scaleCount = quantization ? elementCount(quantization.scale) : 0;
+	const zeroPointCount = quantization?.zeroPoint
+		? elementCount(quantization.zeroPoint)
+		: 0;
+
+	const readWeight = createElementReader(weight);
+	const readScale = quantization
+		? createElementReader(quantization.scale)
+		: null;
+	const readZeroPoint = quantization?.zeroPoint
+		? createElementReader(quantization.zeroPoint)
+		: null;
+
+	for (let row = 0; row < vocabSize; row++) {
+		for (let col = 0; col < dimensions; col++) {
+			let value = readWeight(row * columns + col);
+			if (readScale) {
+				const zeroPoint = readZeroPoint
+					? readZeroPoint(paramIndex(zeroPointCount, row, col))
+					: 0;
+				value =
+					(value - zeroPoint) *
+					readScale(paramIndex(scaleCount, row, col));
+			}
+			data[row * dimensions + col] = value;
+		}
+	}
+
+	return { data, vocabSize, dimensions };
+}
@@ -1,9 +1,17 @@
 import { App, Notice, Plugin } from "obsidian";
+import type { NoteVectorService } from "../services/NoteVectorService";
 import { LoggerService } from "../../shared/services/LoggerService";
 import { NotificationService } from "../../shared/services/NotificationService";
 import { SearchModal } from "../../ui/modals/SearchModal";
 import { DiscardDBModal } from "../../ui/modals/DiscardDBModal";
 import { DeleteResourcesModal } from "../../ui/modals/DeleteResourcesModal";
+import { ResumeRebuildModal } from "../../ui/modals/ResumeRebuildModal";
+import { TagSuggestionModal } from "../../ui/modals/TagSuggestionModal";
+import { UntaggedNotesModal } from "../../ui/modals/UntaggedNotesModal";
+import {
+	addFrontmatterTag,
+	type TagSuggestion,
+} from "../search/tagSuggestions";
 import type { PluginSettings } from "../../pluginSettings";
 import type { ResourceInitializer } from "./ResourceInitializer";
 import type { ViewManager } from "./ViewManager";
@@ -24,9 +32,14 @@ export class CommandRegistrar {
 	registerAllCommands(): void {
 		this.registerSearchSimilarNotesCommand();
 		this.registerRebuildAllIndexesCommand();
+		this.registerCancelRebuildCommand();
 		this.registerDiscardDbCommand();
 		this.registerDeleteResourcesCommand();
 		this.registerShowRelatedChunksSidebarCommand();
+		this.registerFindDuplicatesCommand();
+		this.registerGenerateMapOfContentCommand();
+		this.registerSuggestTagsCommand();
+		this.registerReviewUntaggedNotesCommand();
 	}
 
 	private registerSearchSimilarNotesCommand(): void {
@@ -77,18 +90,114 @@ export class CommandRegistrar {
 		});
 	}
 
+	private registerCancelRebuildCommand(): void {
+		this.plugin.addCommand({
+			id: "cancel-index-rebuild",
+			name: "Cancel running index rebuild",
+			callback: () => {
+				const cancelled =
+					this.resourceInitializer.commandHandler?.cancelVectorization() ??
+					false;
+				new Notice(
+					cancelled
+						? "Cancelling index rebuild..."
+						: "No index rebuild is running."
+				);
+			},
+		});
+	}
+
 	public async rebuildAllIndexes(): Promise<void> {
 		const progressNotice = new Notice("Preparing for rebuild...", 0);
 		try {
 			progressNotice.setMessage(
-				"Ensuring resources are ready for rebuild... This may take a moment."
+				"Restarting the worker and database... This may take a moment."
 			);
-			await this.resourceInitializer.ensureResourcesInitialized();
+			await this.resourceInitializer.recreateResources();
+		} catch (error) {
+			console.error(
+				"Failed to restart resources in place. Falling back to app reload:",
+				error
+			);
+			this.rebuildAfterReload(progressNotice);
+			return;
+		}
+		progressNotice.hide();
+
+		const commandHandler = this.resourceInitializer.commandHandler;
+		if (!commandHandler) {
+			new Notice(
+				"Could not start rebuild: Command handler is not ready."
+			);
+			return;
+		}
+		await commandHandler.rebuildAllIndexes();
+		this.logger?.log("Index rebuild complete.");
+		this.viewManager.resetLastProcessedFile();
+	}
+
+	// 前回の再構築が途中で終わっていれば、続きから再開するか確認する。見つかった場合は true を返す。
+	// 再開した場合も見送った場合も、最後に reconcile で Vault との差分を取り込む
+	public async offerToResumeInterruptedRebuild(
+		reconcile: () => Promise<void>
+	): Promise<boolean> {
+		const storageManagementService =
+			this.resourceInitializer.storageManagementService;
+		if (!storageManagementService) return false;
+
+		const checkpoint =
+			await storageManagementService.getRebuildCheckpoint();
+		if (!checkpoint) return false;
+		this.logger?.log(
+			`Found an interrupted index rebuild (${checkpoint.completedFilePaths.length} notes done).`
+		);
+
+		new ResumeRebuildModal(
+			this.app,
+			checkpoint,
+			checkpoint.modelId === this.settings.embeddingModelId,
+			async () => {
+				await this.resourceInitializer.commandHandler?.resumeRebuild(
+					checkpoint
+				);
+				this.viewManager.resetLastProcessedFile();
+				// 中断後に編集された処理済みのノートは再開では確認されない
+				await reconcile();
+			},
+			async () => {
+				await this.rebuildAllIndexes();
+			},
+			() => void this.finishInterruptedRebuild(reconcile)
+		).open();
+		return true;
+	}
 
+	// 再開しない場合は、途中まで取り込んだベクトルにインデックスを作り、残りのノートは照合で追加する
+	private async finishInterruptedRebuild(
+		reconcile: () => Promise<void>
+	): Promise<void> {
+		const storageManagementService =
+			this.resourceInitializer.storageManagementService;
+		if (!storageManagementService) return;
+		try {
+			await storageManagementService.ensureIndexes();
+			await storageManagementService.clearRebuildCheckpoint();
+		} catch (error) {
+			console.error("Failed to finish the interrupted rebuild:", error);
+			new Notice(
+				"Failed to create indexes for the interrupted rebuild. Check console."
+			);
+		}
+		await reconcile();
+	}
+
+	// 実行中の Worker を作り直せない環境では、アプリを再読み込みしてから再構築する
+	private rebuildAfterReload(progressNotice: Notice): void {
+		try {
 			sessionStorage.setItem("my-vector-plugin-rebuild-flag", "true");
 
 			progressNotice.setMessage(
-				"Resources ready. Reloading the app to start index rebuild..."
+				"Reloading the app to start index rebuild..."
 			);
 
 			setTimeout(() => {
@@ -137,4 +246,112 @@ export class CommandRegistrar {
 			},
 		});
 	}
+
+	private registerFindDuplicatesCommand(): void {
+		this.plugin.addCommand({
+			id: "find-duplicates",
+			name: "Find duplicate chunks and notes",
+			callback: () => {
+				this.viewManager.activateDuplicatesView();
+			},
+		});
+	}
+
+	private async getNoteVectorService(): Promise<NoteVectorService | null> {
+		try {
+			await this.resourceInitializer.ensureResourcesInitialized();
+		} catch (error) {
+			console.error(
+				"Resource initialization check failed for tag suggestions:",
+				error
+			);
+			new Notice("Resources are not ready. Check console.");
+			return null;
+		}
+		return this.resourceInitializer.noteVectorService;
+	}
+
+	private registerSuggestTagsCommand(): void {
+		this.plugin.addCommand({
+			id: "suggest-tags-for-current-note",
+			name: "Suggest tags for current note",
+			callback: async () => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== "md") {
+					new Notice("Open a note to suggest tags for.");
+					return;
+				}
+				const noteVectorService = await this.getNoteVectorService();
+				if (!noteVectorService) return;
+
+				let suggestions: TagSuggestion[];
+				try {
+					suggestions = await noteVectorService.suggestTags(file);
+				} catch (error) {
+					console.error(
+						`Failed to suggest tags for ${file.path}:`,
+						error
+					);
+					new Notice("Failed to suggest tags. Check console.");
+					return;
+				}
+				if (suggestions.length === 0) {
+					new Notice(
+						"No tag suggestions. The note may not be indexed yet, or similar notes have no tags."
+					);
+					return;
+				}
+				new TagSuggestionModal(this.app, suggestions, async (tag) => {
+					try {
+						await this.app.fileManager.processFrontMatter(
+							file,
+							(frontmatter: Record<string, unknown>) =>
+								addFrontmatterTag(frontmatter, tag)
+						);
+						new Notice(`Added #${tag} to ${file.basename}.`);
+					} catch (error) {
+						console.error(
+							`Failed to add tag to ${file.path}:`,
+							error
+						);
+						new Notice("Failed to add the tag. Check console.");
+					}
+				}).open();
+			},
+		});
+	}
+
+	private registerReviewUntaggedNotesCommand(): void {
+		this.plugin.addCommand({
+			id: "review-tag-suggestions-for-untagged-notes",
+			name: "Review tag suggestions for untagged notes",
+			callback: async () => {
+				const noteVectorService = await this.getNoteVectorService();
+				if (!noteVectorService) return;
+				new UntaggedNotesModal(this.app, noteVectorService).open();
+			},
+		});
+	}
+
+	private registerGenerateMapOfContentCommand(): void {
+		this.plugin.addCommand({
+			id: "generate-map-of-content",
+			name: "Generate Map of Content from note clusters",
+			callback: async () => {
+				try {
+					await this.resourceInitializer.ensureResourcesInitialized();
+				} catch (error) {
+					console.error(
+						"Resource initialization check failed for clustering:",
+						error
+					);
+					new Notice(
+						"Resources are not ready for clustering. Check console."
+					);
+					return;
+				}
+				await this.resourceInitializer.commandHandler?.generateMapOfContent();
+			},
+		});
+	}
 }
@@ -7,12 +7,34 @@ import { StorageManagementService } from "../services/StorageManagementService";
 import { NotificationService } from "../../shared/services/NotificationService";
 import { IntegratedWorkerProxy } from "../workers/IntegratedWorkerProxy";
 import { NoteVectorService } from "../services/NoteVectorService";
+import { ReconciliationService } from "../services/ReconciliationService";
 import { CommandHandler } from "../../commands";
+import { LocalModelLoader } from "../embedding/LocalModelLoader";
+import {
+	createLocalModelDefinition,
+	LOCAL_EMBEDDING_MODEL_ID,
+	resolveInferenceEngine,
+} from "../embedding/modelRegistry";
+import { PGliteResourceLoader } from "../storage/pglite/PGliteResourceLoader";
+import { getIndexVersions } from "../storage/fileManifest";
+import { megabytesToBytes } from "../storage/embeddingCache";
+import {
+	isPGliteResourceErrorCode,
+	PGliteResourceError,
+} from "../storage/pglite/pgliteResources";
+import { WorkerInitializationError } from "../workers/workerErrors";
+import { PGliteResourceErrorModal } from "../../ui/modals/PGliteResourceErrorModal";
+import type { WorkerInitializeSettings } from "../../shared/types/integrated-worker";
+import type { SchemaResetReason } from "../storage/pglite/migrations";
 import type { PluginSettings } from "../../pluginSettings";
 import type LocalFastVectorizePlugin from "../../main";
 
+// 作り直す前に DB を閉じるのを待つ上限。応答がなければそのまま Worker を終了する
+const CLOSE_DB_TIMEOUT_MS = 30 * 1000;
+
 export class ResourceInitializer {
 	private initializationPromise: Promise<void> | null = null;
+	private isResourceErrorModalOpen = false;
 
 	// Service instances
 	textChunker: TextChunker | null = null;
@@ -22,6 +44,7 @@ export class ResourceInitializer {
 	storageManagementService: StorageManagementService | null = null;
 	notificationService: NotificationService | null = null;
 	noteVectorService: NoteVectorService | null = null;
+	reconciliationService: ReconciliationService | null = null;
 	commandHandler: CommandHandler | null = null;
 
 	constructor(
@@ -95,12 +118,28 @@ export class ResourceInitializer {
 		try {
 			// 0. Initialize IntegratedWorkerProxy first
 			if (!this.proxy) {
-				this.proxy = new IntegratedWorkerProxy(this.logger);
+				const workerSettings =
+					await this.buildWorkerInitializeSettings();
+				this.proxy = new IntegratedWorkerProxy(
+					this.logger,
+					workerSettings,
+					() => this.buildWorkerInitializeSettings()
+				);
+				this.proxy.onHealthChange((health) => {
+					this.plugin.workerStatusIndicator.update(health);
+					if (health.state === "failed" && health.restartCount > 0) {
+						new Notice(
+							"The vector worker stopped responding and could not be restarted. Reload the plugin to recover.",
+							10000
+						);
+					}
+				});
 				this.logger?.verbose_log("IntegratedWorkerProxy created.");
 			}
 			initNotice.setMessage("Initializing worker...");
 			await this.proxy.ensureInitialized();
 			this.logger?.verbose_log("IntegratedWorkerProxy initialized.");
+			this.notifySchemaReset(this.proxy.takeSchemaResetReason());
 
 			// 1. Initialize TextChunker
 			if (!this.textChunker) {
@@ -122,6 +161,16 @@ export class ResourceInitializer {
 				);
 				this.logger?.verbose_log("VectorizationService initialized.");
 			}
+			if (!this.reconciliationService) {
+				this.reconciliationService = new ReconciliationService(
+					this.app,
+					this.proxy,
+					this.vectorizationService,
+					this.logger,
+					this.settings
+				);
+				this.logger?.verbose_log("ReconciliationService initialized.");
+			}
 			if (!this.searchService) {
 				this.searchService = new SearchService(this.proxy);
 				this.logger?.verbose_log("SearchService initialized.");
@@ -185,6 +234,9 @@ export class ResourceInitializer {
 			);
 			setTimeout(() => initNotice.hide(), 5000);
 			this.resetAllResources();
+			if (this.isPGliteResourceFailure(error)) {
+				this.openPGliteResourceErrorModal(error.message);
+			}
 			throw error;
 		} finally {
 			this.logger?.verbose_log(
@@ -193,6 +245,145 @@ export class ResourceInitializer {
 		}
 	}
 
+	// アプリを再読み込みせずに、Worker と PGlite を現在の設定で作り直す
+	async recreateResources(): Promise<void> {
+		if (this.initializationPromise) {
+			await this.initializationPromise.catch(() => {});
+		}
+		this.commandHandler?.cancelVectorization();
+
+		if (this.proxy) {
+			try {
+				await this.proxy.closeDatabase({
+					timeoutMs: CLOSE_DB_TIMEOUT_MS,
+				});
+				this.logger?.verbose_log("PGlite database closed via worker.");
+			} catch (error) {
+				this.logger?.warn(
+					"Failed to gracefully close DB via worker, proceeding with termination.",
+					error
+				);
+			}
+		}
+		this.resetAllResources();
+		await this.ensureResourcesInitialized();
+	}
+
+	private createPGliteResourceLoader(): PGliteResourceLoader {
+		return new PGliteResourceLoader(
+			this.app,
+			this.logger,
+			this.plugin.manifest
+		);
+	}
+
+	private isPGliteResourceFailure(error: unknown): error is Error {
+		return (
+			error instanceof PGliteResourceError ||
+			(error instanceof WorkerInitializationError &&
+				isPGliteResourceErrorCode(error.code))
+		);
+	}
+
+	private openPGliteResourceErrorModal(message: string): void {
+		if (this.isResourceErrorModalOpen) return;
+		this.isResourceErrorModalOpen = true;
+
+		new PGliteResourceErrorModal(
+			this.app,
+			message,
+			async () => {
+				await this.createPGliteResourceLoader().downloadToPluginFolder();
+				this.settings.pgliteResourceSource = "plugin";
+				await this.plugin.saveSettings();
+			},
+			() => {
+				// 初期化の失敗は initializeResources が通知する
+				this.ensureResourcesInitialized().catch((error) => {
+					this.logger?.error(
+						"Failed to initialize resources after downloading PGlite runtime files:",
+						error
+					);
+				});
+			},
+			() => {
+				this.app.setting.open();
+				this.app.setting.openTabById(this.plugin.manifest.id);
+			},
+			() => {
+				this.isResourceErrorModalOpen = false;
+			}
+		).open();
+	}
+
+	private notifySchemaReset(reason: SchemaResetReason | null): void {
+		if (!reason) return;
+		const messages: Record<SchemaResetReason, string> = {
+			"newer-schema":
+				"The search index was created by a newer version of the plugin",
+			"dimensions-changed":
+				"The search index was created with a model of different dimensions",
+			"model-changed":
+				"The search index was created with a different embedding model",
+		};
+		this.logger?.warn(`Search index was reset: ${reason}`);
+		new Notice(
+			`${messages[reason]} and has been cleared. Your notes will be indexed again.`,
+			10000
+		);
+	}
+
+	private async buildWorkerInitializeSettings(): Promise<WorkerInitializeSettings> {
+		const pgliteResources =
+			await this.createPGliteResourceLoader().loadResources(
+				this.settings.pgliteResourceSource,
+				this.settings.pgliteResourceFolderPath
+			);
+
+		const modelVersion = getIndexVersions(this.settings).modelVersion;
+		const embeddingCache = {
+			maxSizeBytes: megabytesToBytes(
+				this.settings.embeddingCacheMaxSizeMB
+			),
+		};
+
+		if (this.settings.embeddingModelId !== LOCAL_EMBEDDING_MODEL_ID) {
+			return {
+				embeddingModelId: this.settings.embeddingModelId,
+				inferenceEngine: this.settings.inferenceEngine,
+				pgliteResources,
+				modelVersion,
+				embeddingCache,
+			};
+		}
+
+		const definition = createLocalModelDefinition({
+			folderPath: this.settings.localModelFolderPath,
+			dtype: this.settings.localModelDtype,
+			dimensions: this.settings.localModelDimensions,
+			pooling: this.settings.localModelPooling,
+		});
+		const loader = new LocalModelLoader(this.app, this.logger);
+		const files = await loader.loadModelFiles(
+			this.settings.localModelFolderPath,
+			this.settings.localModelDtype
+		);
+		return {
+			embeddingModelId: LOCAL_EMBEDDING_MODEL_ID,
+			inferenceEngine: resolveInferenceEngine(
+				definition,
+				this.settings.inferenceEngine
+			),
+			localModel: {
+				definition,
+				files,
+			},
+			pgliteResources,
+			modelVersion,
+			embeddingCache,
+		};
+	}
+
 	private initializeNoteVectorService(): void {
 		if (
 			this.textChunker &&
@@ -212,6 +403,8 @@ export class ResourceInitializer {
 	}
 
 	resetAllResources(): void {
+		this.reconciliationService?.cancel();
+		this.reconciliationService = null;
 		this.commandHandler = null;
 		this.textChunker = null;
 		this.vectorizationService = null;
@@ -221,6 +414,7 @@ export class ResourceInitializer {
 			this.proxy.terminate();
 			this.proxy = null;
 		}
+		this.plugin.workerStatusIndicator.reset();
 		this.noteVectorService = null;
 		this.initializationPromise = null;
 	}
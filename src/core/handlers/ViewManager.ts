@@ -1,4 +1,4 @@
-import { App, WorkspaceLeaf, MarkdownView } from "obsidian";
+import { App, WorkspaceLeaf, MarkdownView, TFile } from "obsidian";
 import { LoggerService } from "../../shared/services/LoggerService";
 import { NotificationService } from "../../shared/services/NotificationService";
 import { NoteVectorService } from "../services/NoteVectorService";
@@ -7,10 +7,22 @@ import {
 	RelatedChunksView,
 	VIEW_TYPE_RELATED_CHUNKS,
 } from "../../ui/sidebar/RelatedChunksView";
+import {
+	DuplicatesView,
+	VIEW_TYPE_DUPLICATES,
+} from "../../ui/duplicates/DuplicatesView";
 import type { PluginSettings } from "../../pluginSettings";
+import { createTextQuery } from "../search/queryParser";
+import type { DiversityOptions } from "../search/mmr";
+import type { NoteAggregationOptions } from "../search/noteAggregation";
+import type { CursorSection } from "../search/cursorSection";
 
 export class ViewManager {
 	public lastProcessedFilePath: string | null = null;
+	// 現在のセクションのモードで、前回検索したセクションのチャンク
+	private lastProcessedSectionKey: string | null = null;
+	// 検索中に次の更新が始まった場合に、古い結果で上書きしないための番号
+	private updateGeneration = 0;
 
 	constructor(
 		private app: App,
@@ -21,6 +33,23 @@ export class ViewManager {
 		private notificationService: NotificationService | null
 	) {}
 
+	// 開いている場合は結果を更新する
+	async activateDuplicatesView(): Promise<void> {
+		const { workspace } = this.app;
+		const existingLeaf = workspace.getLeavesOfType(VIEW_TYPE_DUPLICATES)[0];
+		if (existingLeaf) {
+			workspace.revealLeaf(existingLeaf);
+			if (existingLeaf.view instanceof DuplicatesView) {
+				await existingLeaf.view.refresh();
+			}
+			return;
+		}
+
+		const leaf = workspace.getLeaf("tab");
+		await leaf.setViewState({ type: VIEW_TYPE_DUPLICATES, active: true });
+		workspace.revealLeaf(leaf);
+	}
+
 	async activateRelatedChunksView(): Promise<void> {
 		this.logger?.verbose_log(
 			`activateRelatedChunksView: Attempting to activate or create RelatedChunksView.`
@@ -176,12 +205,28 @@ export class ViewManager {
 				view.setLoadingState(query);
 			}
 
-			const results = await searchService.search(
-				query,
-				undefined,
-				this.settings.relatedChunksResultLimit,
-				{ excludeFilePaths }
-			);
+			const results =
+				this.settings.relatedChunksResultLevel === "note"
+					? (
+							await searchService.searchNotes(
+								createTextQuery(query),
+								this.settings.relatedChunksResultLimit,
+								this.getNoteAggregationOptions(),
+								{
+									excludeFilePaths,
+									filters: this.settings.relatedChunksFilters,
+								}
+							)
+					  ).flatMap((note) => note.chunks)
+					: await searchService.search(
+							createTextQuery(query),
+							this.settings.relatedChunksResultLimit,
+							{
+								excludeFilePaths,
+								filters: this.settings.relatedChunksFilters,
+								diversity: this.getRelatedChunksDiversity(),
+							}
+					  );
 
 			if (view) {
 				view.displaySearchResults(query, results);
@@ -194,6 +239,41 @@ export class ViewManager {
 		}
 	}
 
+	private getNoteAggregationOptions(): NoteAggregationOptions {
+		return { method: this.settings.noteScoreAggregation };
+	}
+
+	private getRelatedChunksDiversity(): DiversityOptions {
+		return {
+			mmrLambda: this.settings.resultDiversityLambda,
+			maxChunksPerFile: this.settings.relatedChunksMaxChunksPerFile,
+		};
+	}
+
+	// 現在のセクションのモードでは、カーソルが別のセクションへ移ったときに表示を更新する
+	async handleCursorActivity(): Promise<void> {
+		if (this.settings.relatedChunksScope !== "section") {
+			return;
+		}
+		await this.handleActiveLeafChange();
+	}
+
+	private async findActiveCursorSection(
+		file: TFile,
+		noteVectorService: NoteVectorService
+	): Promise<CursorSection | null> {
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!view || view.file?.path !== file.path) {
+			return null;
+		}
+		const editor = view.editor;
+		return noteVectorService.findCursorSection(
+			file,
+			editor.getValue(),
+			editor.posToOffset(editor.getCursor())
+		);
+	}
+
 	async handleActiveLeafChange(): Promise<void> {
 		const currentActiveLeaf = this.app.workspace.activeLeaf;
 		if (
@@ -209,23 +289,40 @@ export class ViewManager {
 		const activeFile = this.app.workspace.getActiveFile();
 		const currentFilePath = activeFile?.path || null;
 
-		if (currentFilePath === this.lastProcessedFilePath) {
-			this.logger?.verbose_log(
-				`Active file is the same as previously processed (${currentFilePath}), skipping update.`
+		const noteVectorService = this.getNoteVectorService();
+		if (!noteVectorService) {
+			this.logger?.warn(
+				"NoteVectorService not ready for active leaf change."
 			);
 			return;
 		}
 
-		this.lastProcessedFilePath = currentFilePath;
+		// セクションが見つからない場合 (未インデックスなど) はノート全体で探す
+		const section =
+			this.settings.relatedChunksScope === "section" &&
+			activeFile?.extension === "md"
+				? await this.findActiveCursorSection(
+						activeFile,
+						noteVectorService
+				  )
+				: null;
+		const sectionKey = section ? section.chunkIds.join(",") : null;
 
-		const noteVectorService = this.getNoteVectorService();
-		if (!noteVectorService) {
-			this.logger?.warn(
-				"NoteVectorService not ready for active leaf change."
+		if (
+			currentFilePath === this.lastProcessedFilePath &&
+			sectionKey === this.lastProcessedSectionKey
+		) {
+			this.logger?.verbose_log(
+				`Active file and section are the same as previously processed (${currentFilePath}), skipping update.`
 			);
 			return;
 		}
 
+		this.lastProcessedFilePath = currentFilePath;
+		this.lastProcessedSectionKey = sectionKey;
+		const generation = ++this.updateGeneration;
+		const sectionName = section?.headingPath ?? null;
+
 		const sidebarLeaves = this.app.workspace.getLeavesOfType(
 			VIEW_TYPE_RELATED_CHUNKS
 		);
@@ -235,9 +332,9 @@ export class ViewManager {
 				`Active file changed: ${activeFile.path}. Finding related chunks.`
 			);
 			try {
-				const noteVector = await noteVectorService.getNoteVectorFromDB(
-					activeFile
-				);
+				const noteVector = section
+					? await noteVectorService.getSectionVector(section)
+					: await noteVectorService.getNoteVectorFromDB(activeFile);
 				if (noteVector) {
 					const excludeFilePaths = new Set<string>();
 					excludeFilePaths.add(activeFile.path);
@@ -269,18 +366,35 @@ export class ViewManager {
 						}
 					}
 
+					// ノート単位の場合は、ノートの順位の順に各ノートのチャンクを並べて渡す
 					const searchResults =
-						await noteVectorService.findSimilarChunks(
-							noteVector,
-							this.settings.relatedChunksResultLimit,
-							Array.from(excludeFilePaths)
-						);
+						this.settings.relatedChunksResultLevel === "note"
+							? (
+									await noteVectorService.findSimilarNotes(
+										noteVector,
+										this.settings.relatedChunksResultLimit,
+										this.getNoteAggregationOptions(),
+										Array.from(excludeFilePaths),
+										this.settings.relatedChunksFilters
+									)
+							  ).flatMap((note) => note.chunks)
+							: await noteVectorService.findSimilarChunks(
+									noteVector,
+									this.settings.relatedChunksResultLimit,
+									Array.from(excludeFilePaths),
+									this.settings.relatedChunksFilters,
+									this.getRelatedChunksDiversity()
+							  );
+					if (generation !== this.updateGeneration) {
+						return;
+					}
 					if (sidebarLeaves.length > 0) {
 						const sidebarView = sidebarLeaves[0]
 							.view as RelatedChunksView;
 						sidebarView.updateView(
 							activeFile.basename,
-							searchResults
+							searchResults,
+							sectionName
 						);
 					} else if (this.settings.autoShowRelatedChunksSidebar) {
 						await this.activateRelatedChunksView();
@@ -293,10 +407,16 @@ export class ViewManager {
 								.view as RelatedChunksView;
 							sidebarView.updateView(
 								activeFile.basename,
-								searchResults
+								searchResults,
+								sectionName
 							);
 						}
 					}
+					await this.updateTagSuggestions(
+						activeFile,
+						noteVectorService,
+						generation
+					);
 				} else {
 					this.logger?.verbose_log(
 						`Could not get note vector for ${activeFile.path}. It might not be vectorized yet or is empty.`
@@ -332,7 +452,41 @@ export class ViewManager {
 		}
 	}
 
+	// タグの提案はノート単位のため、同じノート内でセクションを移っても再計算しない
+	private async updateTagSuggestions(
+		file: TFile,
+		noteVectorService: NoteVectorService,
+		generation: number
+	): Promise<void> {
+		const view = this.app.workspace.getLeavesOfType(
+			VIEW_TYPE_RELATED_CHUNKS
+		)[0]?.view;
+		if (!(view instanceof RelatedChunksView)) {
+			return;
+		}
+		if (!this.settings.showTagSuggestions) {
+			view.updateTagSuggestions(null, []);
+			return;
+		}
+		if (view.tagSuggestionFilePath === file.path) {
+			return;
+		}
+		try {
+			const suggestions = await noteVectorService.suggestTags(file);
+			if (generation !== this.updateGeneration) {
+				return;
+			}
+			view.updateTagSuggestions(file.path, suggestions);
+		} catch (error) {
+			this.logger?.error(
+				`Error suggesting tags for ${file.path}:`,
+				error
+			);
+		}
+	}
+
 	resetLastProcessedFile(): void {
 		this.lastProcessedFilePath = null;
+		this.lastProcessedSectionKey = null;
 	}
 }
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+	countTerms,
+	kMeans,
+	resolveClusterCount,
+	selectClusterKeywords,
+	sortClusters,
+} from "./clustering";
+
+function unit(values: number[]): Float32Array {
+	const norm = Math.hypot(...values);
+	return Float32Array.from(values.map((v) => v / norm));
+}
+
+describe("kMeans", () => {
+	const vectors = [
+		unit([1, 0.1, 0]),
+		unit([0, 1, 0.1]),
+		unit([1, 0, 0.1]),
+		unit([0.1, 1, 0]),
+		unit([1, 0.05, 0.05]),
+	];
+
+	it("近いベクトルを同じクラスタにまとめる", async () => {
+		const { assignments, centroids } = await kMeans(vectors, 2);
+		expect(centroids).toHaveLength(2);
+		expect(
+			new Set([assignments[0], assignments[2], assignments[4]]).size
+		).toBe(1);
+		expect(assignments[1]).toBe(assignments[3]);
+		expect(assignments[0]).not.toBe(assignments[1]);
+	});
+
+	it("同じ入力と種からは同じ結果になる", async () => {
+		const first = await kMeans(vectors, 3, { seed: 7 });
+		const second = await kMeans(vectors, 3, { seed: 7 });
+		expect(second.assignments).toEqual(first.assignments);
+	});
+
+	it("クラスタ数はベクトルの数を超えない", async () => {
+		const { centroids } = await kMeans(vectors.slice(0, 2), 5);
+		expect(centroids).toHaveLength(2);
+		expect((await kMeans([], 3)).assignments).toEqual([]);
+	});
+});
+
+describe("resolveClusterCount", () => {
+	it("0 の場合はノート数から決め、指定された数はノート数で制限する", () => {
+		expect(resolveClusterCount(0, 200)).toBe(10);
+		expect(resolveClusterCount(0, 100000)).toBe(30);
+		expect(resolveClusterCount(5, 3)).toBe(3);
+		expect(resolveClusterCount(0, 1)).toBe(1);
+	});
+});
+
+describe("countTerms", () => {
+	it("テキストごとに語を 1 回ずつ数え、ひらがなと URL を除く", () => {
+		const counts = new Map<string, number>();
+		countTerms("Rust の非同期処理 rust https://example.com/rust", counts);
+		countTerms("データベースの設計 2024", counts);
+		expect(Object.fromEntries(counts)).toEqual({
+			rust: 1,
+			非同期処理: 1,
+			データベース: 1,
+			設計: 1,
+		});
+	});
+});
+
+describe("selectClusterKeywords", () => {
+	it("他のクラスタにも多い語より、そのクラスタに特有の語を選ぶ", () => {
+		const keywords = selectClusterKeywords(
+			[
+				new Map([
+					["the", 10],
+					["rust", 5],
+					["async", 3],
+				]),
+				new Map([
+					["the", 10],
+					["cooking", 4],
+					["once", 1],
+				]),
+			],
+			2
+		);
+		expect(keywords).toEqual([["rust", "async"], ["cooking"]]);
+	});
+});
+
+describe("sortClusters", () => {
+	it("大きいクラスタから並べ、メンバーをパスの順にする", () => {
+		expect(
+			sortClusters([
+				{ filePaths: ["b.md"], keywords: [] },
+				{ filePaths: ["d.md", "c.md"], keywords: [] },
+				{ filePaths: ["a.md"], keywords: [] },
+				{ filePaths: [], keywords: [] },
+			]).map((cluster) => cluster.filePaths)
+		).toEqual([["c.md", "d.md"], ["a.md"], ["b.md"]]);
+	});
+});
@@ -0,0 +1,227 @@
+export interface NoteCluster {
+	// パスの順
+	filePaths: string[];
+	// 代表的な語。重要な順
+	keywords: string[];
+}
+
+export interface KMeansOptions {
+	maxIterations?: number;
+	// 同じ入力から同じクラスタを作るための乱数の種
+	seed?: number;
+	// 各反復の前に呼ばれる。Worker で他のリクエストに割り込ませるために使う
+	beforeIteration?: () => Promise<void>;
+}
+
+export interface KMeansResult {
+	// 入力と同じ順の、各ベクトルのクラスタ番号
+	assignments: number[];
+	centroids: Float32Array[];
+}
+
+const DEFAULT_MAX_ITERATIONS = 50;
+const DEFAULT_SEED = 1;
+export const MAX_AUTO_CLUSTER_COUNT = 30;
+export const DEFAULT_CLUSTER_KEYWORD_COUNT = 3;
+
+// 0 の場合はノート数から決める
+export function resolveClusterCount(
+	requested: number,
+	itemCount: number
+): number {
+	const count =
+		requested > 0
+			? requested
+			: Math.min(
+					MAX_AUTO_CLUSTER_COUNT,
+					Math.round(Math.sqrt(itemCount / 2))
+			  );
+	return Math.max(1, Math.min(count, itemCount));
+}
+
+function mulberry32(seed: number): () => number {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+function dot(a: ArrayLike<number>, b: ArrayLike<number>): number {
+	let sum = 0;
+	for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+	return sum;
+}
+
+function normalize(vector: Float32Array): Float32Array {
+	const norm = Math.sqrt(dot(vector, vector));
+	if (norm > 0) {
+		for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+	}
+	return vector;
+}
+
+// k-means++ で、既存の中心から遠いベクトルほど選ばれやすくする
+function initializeCentroids(
+	vectors: readonly ArrayLike<number>[],
+	k: number,
+	random: () => number
+): Float32Array[] {
+	const centroids = [
+		normalize(
+			Float32Array.from(vectors[Math.floor(random() * vectors.length)])
+		),
+	];
+	const distances = vectors.map((vector) => 1 - dot(vector, centroids[0]));
+	while (centroids.length < k) {
+		const total = distances.reduce((sum, d) => sum + Math.max(0, d), 0);
+		let index = 0;
+		if (total > 0) {
+			let threshold = random() * total;
+			for (; index < vectors.length - 1; index++) {
+				threshold -= Math.max(0, distances[index]);
+				if (threshold <= 0) break;
+			}
+		} else {
+			index = centroids.length;
+		}
+		const centroid = normalize(Float32Array.from(vectors[index]));
+		centroids.push(centroid);
+		vectors.forEach((vector, i) => {
+			distances[i] = Math.min(distances[i], 1 - dot(vector, centroid));
+		});
+	}
+	return centroids;
+}
+
+// 正規化済みのベクトルを、コサイン類似度で k 個に分ける (spherical k-means)。
+// 空になったクラスタは、中心から最も遠いベクトルで作り直す
+export async function kMeans(
+	vectors: readonly ArrayLike<number>[],
+	k: number,
+	options: KMeansOptions = {}
+): Promise<KMeansResult> {
+	if (vectors.length === 0 || k <= 0) {
+		return { assignments: [], centroids: [] };
+	}
+	const clusterCount = Math.min(k, vectors.length);
+	const dimensions = vectors[0].length;
+	const random = mulberry32(options.seed ?? DEFAULT_SEED);
+	let centroids = initializeCentroids(vectors, clusterCount, random);
+	const assignments = new Array<number>(vectors.length).fill(-1);
+	const similarities = new Array<number>(vectors.length).fill(0);
+
+	const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+	for (let iteration = 0; iteration < maxIterations; iteration++) {
+		await options.beforeIteration?.();
+
+		let changed = false;
+		vectors.forEach((vector, i) => {
+			let best = 0;
+			let bestSimilarity = -Infinity;
+			centroids.forEach((centroid, c) => {
+				const similarity = dot(vector, centroid);
+				if (similarity > bestSimilarity) {
+					bestSimilarity = similarity;
+					best = c;
+				}
+			});
+			similarities[i] = bestSimilarity;
+			if (assignments[i] !== best) {
+				assignments[i] = best;
+				changed = true;
+			}
+		});
+		if (!changed) break;
+
+		const sums = centroids.map(() => new Float32Array(dimensions));
+		const counts = new Array<number>(clusterCount).fill(0);
+		vectors.forEach((vector, i) => {
+			const sum = sums[assignments[i]];
+			for (let d = 0; d < dimensions; d++) sum[d] += vector[d];
+			counts[assignments[i]]++;
+		});
+		centroids = sums.map((sum, c) => {
+			if (counts[c] > 0) return normalize(sum);
+			let farthest = 0;
+			similarities.forEach((similarity, i) => {
+				if (similarity < similarities[farthest]) farthest = i;
+			});
+			similarities[farthest] = Infinity;
+			return normalize(Float32Array.from(vectors[farthest]));
+		});
+	}
+
+	return { assignments, centroids };
+}
+
+// 漢字とカタカナは連続した部分を 1 語とする。ひらがなは助詞などが多いため語として数えない
+const TERM_PATTERN =
+	/[\p{Script=Han}々]{2,}|[\p{Script=Katakana}ー]{2,}|(?:[^\P{L}\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|\d)+/gu;
+const URL_PATTERN = /\bhttps?:\/\/\S+/g;
+
+// テキストに含まれる語を 1 回ずつ数える
+export function countTerms(text: string, counts: Map<string, number>): void {
+	const terms = new Set<string>();
+	for (const match of text.replace(URL_PATTERN, " ").match(TERM_PATTERN) ??
+		[]) {
+		const term = match.toLowerCase();
+		if (Array.from(term).length < 2 || /^\d+$/.test(term)) continue;
+		terms.add(term);
+	}
+	for (const term of terms) {
+		counts.set(term, (counts.get(term) ?? 0) + 1);
+	}
+}
+
+// 各クラスタで多く、他のクラスタに少ない語 (TF-IDF) を選ぶ。
+// クラスタが 1 つしかない場合は出現数の順に選ぶ
+export function selectClusterKeywords(
+	termCounts: readonly Map<string, number>[],
+	limit: number = DEFAULT_CLUSTER_KEYWORD_COUNT
+): string[][] {
+	const documentFrequency = new Map<string, number>();
+	for (const counts of termCounts) {
+		for (const term of counts.keys()) {
+			documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+		}
+	}
+	return termCounts.map((counts) =>
+		Array.from(counts)
+			// 1 回しか出ない語は、クラスタを代表しないものとして除く
+			.filter(([, count]) => count >= 2)
+			.map(([term, count]) => {
+				const idf =
+					termCounts.length > 1
+						? Math.log(
+								termCounts.length / documentFrequency.get(term)!
+						  )
+						: 1;
+				return { term, score: count * idf };
+			})
+			.filter(({ score }) => score > 0)
+			.sort((a, b) => b.score - a.score || a.term.localeCompare(b.term))
+			.slice(0, limit)
+			.map(({ term }) => term)
+	);
+}
+
+// 再実行で同じ順に並ぶよう、大きいクラスタから、同じ大きさなら先頭のパスの順に並べる
+export function sortClusters(clusters: NoteCluster[]): NoteCluster[] {
+	return clusters
+		.filter((cluster) => cluster.filePaths.length > 0)
+		.map((cluster) => ({
+			...cluster,
+			filePaths: [...cluster.filePaths].sort((a, b) =>
+				a.localeCompare(b)
+			),
+		}))
+		.sort(
+			(a, b) =>
+				b.filePaths.length - a.filePaths.length ||
+				a.filePaths[0].localeCompare(b.filePaths[0])
+		);
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { findCursorSection, MAX_SECTION_CHUNKS } from "./cursorSection";
+import type { ChunkSpan } from "../storage/types";
+
+function span(id: number, start: number, end: number): ChunkSpan {
+	return {
+		id,
+		chunk_offset_start: start,
+		chunk_offset_end: end,
+		heading_path: null,
+	};
+}
+
+const content = [
+	"intro", // 0
+	"# A", // 6
+	"a1 text", // 10
+	"a2 text", // 18
+	"## B", // 26
+	"b text", // 31
+	"# C", // 38
+	"", // 42
+].join("\n");
+
+const spans = [
+	span(1, 0, 5),
+	span(2, 10, 17),
+	span(3, 18, 25),
+	span(4, 31, 37),
+];
+
+describe("findCursorSection", () => {
+	it("カーソルを含む見出しのセクションのチャンクを返す", () => {
+		expect(findCursorSection(content, spans, 12)).toEqual({
+			chunkIds: [2, 3],
+			headingPath: "A",
+		});
+		expect(findCursorSection(content, spans, 33)).toEqual({
+			chunkIds: [4],
+			headingPath: "A > B",
+		});
+	});
+
+	it("見出しより前は見出しのないセクションとして扱う", () => {
+		expect(findCursorSection(content, spans, 2)).toEqual({
+			chunkIds: [1],
+			headingPath: null,
+		});
+	});
+
+	it("チャンクのないセクションではカーソルの直前のチャンクを使う", () => {
+		expect(findCursorSection(content, spans, 40)).toEqual({
+			chunkIds: [4],
+			headingPath: "C",
+		});
+	});
+
+	it("長いセクションはカーソル付近のチャンクに絞る", () => {
+		const text = "x".repeat(1000);
+		const many = Array.from({ length: 20 }, (_, i) =>
+			span(i, i * 50, i * 50 + 50)
+		);
+		const section = findCursorSection(text, many, 525)!;
+		expect(section.chunkIds).toHaveLength(MAX_SECTION_CHUNKS);
+		expect(section.chunkIds).toContain(10);
+		expect(findCursorSection(text, many, 0)!.chunkIds[0]).toBe(0);
+	});
+
+	it("位置のあるチャンクがなければ null を返す", () => {
+		expect(findCursorSection(content, [span(9, -1, -1)], 0)).toBeNull();
+	});
+});
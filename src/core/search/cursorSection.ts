@@ -0,0 +1,72 @@
+import type { ChunkSpan } from "../storage/types";
+import { extractHeadings, getHeadingPath } from "../../shared/utils/textUtils";
+
+// note: ノート全体のベクトルで探す, section: カーソル位置のセクションのベクトルで探す
+export type RelatedChunksScope = "note" | "section";
+
+export const RELATED_CHUNKS_SCOPE_LABELS: Record<RelatedChunksScope, string> = {
+	note: "Whole note",
+	section: "Current section",
+};
+
+export interface CursorSection {
+	// 文書内の順
+	chunkIds: number[];
+	// 見出しより前の場合は null
+	headingPath: string | null;
+}
+
+// 見出しのない長いノートでも、カーソル付近の内容に絞るための上限
+export const MAX_SECTION_CHUNKS = 5;
+
+// 保存済みのチャンクの位置から、カーソルを含む見出しのセクションに属するチャンクを返す。
+// 短いセクションが前のセクションのチャンクにまとめられている場合は、カーソルを含むチャンクを使う
+export function findCursorSection(
+	content: string,
+	spans: readonly ChunkSpan[],
+	cursorOffset: number
+): CursorSection | null {
+	// ファイル名だけのチャンクには位置がない
+	const located = spans
+		.filter(
+			(span) =>
+				span.chunk_offset_start != null && span.chunk_offset_start >= 0
+		)
+		.map((span) => ({ id: span.id, start: span.chunk_offset_start! }))
+		.sort((a, b) => a.start - b.start);
+	if (located.length === 0) return null;
+
+	const headings = extractHeadings(content);
+	let sectionStart = 0;
+	let sectionEnd = content.length;
+	for (const heading of headings) {
+		if (heading.offset <= cursorOffset) {
+			sectionStart = heading.offset;
+		} else {
+			sectionEnd = heading.offset;
+			break;
+		}
+	}
+
+	let chunks = located.filter(
+		(chunk) => chunk.start >= sectionStart && chunk.start < sectionEnd
+	);
+	const preceding = located.filter((chunk) => chunk.start <= cursorOffset);
+	const cursorChunk =
+		preceding.length > 0 ? preceding[preceding.length - 1] : located[0];
+	if (chunks.length === 0) {
+		chunks = [cursorChunk];
+	} else if (chunks.length > MAX_SECTION_CHUNKS) {
+		const cursorIndex = Math.max(0, chunks.indexOf(cursorChunk));
+		const first = Math.min(
+			Math.max(0, cursorIndex - Math.floor(MAX_SECTION_CHUNKS / 2)),
+			chunks.length - MAX_SECTION_CHUNKS
+		);
+		chunks = chunks.slice(first, first + MAX_SECTION_CHUNKS);
+	}
+
+	return {
+		chunkIds: chunks.map((chunk) => chunk.id),
+		headingPath: getHeadingPath(headings, cursorOffset).join(" > ") || null,
+	};
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import {
+	collectDuplicatePairs,
+	getDuplicatePairKey,
+	type DuplicateSide,
+} from "./duplicates";
+
+function chunk(filePath: string, chunkId: number, chunkHash: string) {
+	return {
+		filePath,
+		chunkId,
+		chunkHash,
+		chunkOffsetStart: 0,
+		chunkOffsetEnd: 10,
+		chunkText: "text",
+	} satisfies DuplicateSide;
+}
+
+function note(filePath: string): DuplicateSide {
+	return {
+		filePath,
+		chunkId: null,
+		chunkHash: null,
+		chunkOffsetStart: null,
+		chunkOffsetEnd: null,
+		chunkText: null,
+	};
+}
+
+describe("getDuplicatePairKey", () => {
+	it("組の順序によらず同じキーになる", () => {
+		const a = chunk("a.md", 1, "h1");
+		const b = chunk("b.md", 2, "h2");
+		expect(getDuplicatePairKey("chunk", a, b)).toBe(
+			getDuplicatePairKey("chunk", b, a)
+		);
+	});
+
+	it("チャンクの ID が変わってもハッシュが同じなら同じキーになる", () => {
+		expect(
+			getDuplicatePairKey(
+				"chunk",
+				chunk("a.md", 1, "h1"),
+				chunk("b.md", 2, "h1")
+			)
+		).toBe(
+			getDuplicatePairKey(
+				"chunk",
+				chunk("a.md", 10, "h1"),
+				chunk("b.md", 20, "h1")
+			)
+		);
+		expect(getDuplicatePairKey("note", note("b.md"), note("a.md"))).toBe(
+			"note:a.md|b.md"
+		);
+	});
+});
+
+describe("collectDuplicatePairs", () => {
+	const a = note("a.md");
+	const b = note("b.md");
+	const c = note("c.md");
+
+	it("両方向から見つかった組を 1 つにまとめ、類似度の高い順に並べる", () => {
+		const pairs = collectDuplicatePairs(
+			"note",
+			[
+				{ a, b, distance: 0.04 },
+				{ a: b, b: a, distance: 0.04 },
+				{ a, b: c, distance: 0.01 },
+			],
+			new Set(),
+			10
+		);
+		expect(pairs.map((pair) => pair.key)).toEqual([
+			"note:a.md|c.md",
+			"note:a.md|b.md",
+		]);
+		expect(pairs[0].similarity).toBeCloseTo(0.99);
+	});
+
+	it("無視した組を除き、件数を制限する", () => {
+		const pairs = collectDuplicatePairs(
+			"note",
+			[
+				{ a, b, distance: 0.01 },
+				{ a, b: c, distance: 0.02 },
+				{ a: b, b: c, distance: 0.03 },
+			],
+			new Set(["note:a.md|b.md"]),
+			1
+		);
+		expect(pairs.map((pair) => pair.key)).toEqual(["note:a.md|c.md"]);
+	});
+});
@@ -0,0 +1,65 @@
+// chunk: 内容がほぼ同じチャンクの組, note: 全体がほぼ同じノートの組
+export type DuplicateKind = "chunk" | "note";
+
+export interface DuplicateSide {
+	filePath: string;
+	// ノートの組では null
+	chunkId: number | null;
+	chunkHash: string | null;
+	chunkOffsetStart: number | null;
+	chunkOffsetEnd: number | null;
+	chunkText: string | null;
+}
+
+export interface DuplicateCandidate {
+	a: DuplicateSide;
+	b: DuplicateSide;
+	distance: number;
+}
+
+export interface DuplicatePair {
+	kind: DuplicateKind;
+	// 無視した組を覚えておくためのキー。再インデックスで変わらないよう、パスとチャンクのハッシュから作る
+	key: string;
+	similarity: number;
+	a: DuplicateSide;
+	b: DuplicateSide;
+}
+
+export const DEFAULT_DUPLICATE_SIMILARITY_THRESHOLD = 0.95;
+export const MAX_DUPLICATE_PAIRS = 200;
+
+function getSideKey(kind: DuplicateKind, side: DuplicateSide): string {
+	return kind === "note"
+		? side.filePath
+		: `${side.filePath}#${side.chunkHash ?? side.chunkId}`;
+}
+
+export function getDuplicatePairKey(
+	kind: DuplicateKind,
+	a: DuplicateSide,
+	b: DuplicateSide
+): string {
+	const sides = [getSideKey(kind, a), getSideKey(kind, b)].sort();
+	return `${kind}:${sides[0]}|${sides[1]}`;
+}
+
+// 近傍検索では同じ組が両方向から見つかるため、1 組にまとめて類似度の高い順に返す
+export function collectDuplicatePairs(
+	kind: DuplicateKind,
+	candidates: readonly DuplicateCandidate[],
+	ignoredKeys: ReadonlySet<string>,
+	limit: number
+): DuplicatePair[] {
+	const pairs = new Map<string, DuplicatePair>();
+	for (const { a, b, distance } of candidates) {
+		const key = getDuplicatePairKey(kind, a, b);
+		if (ignoredKeys.has(key) || pairs.has(key)) continue;
+		pairs.set(key, { kind, key, similarity: 1 - distance, a, b });
+	}
+	return Array.from(pairs.values())
+		.sort(
+			(x, y) => y.similarity - x.similarity || x.key.localeCompare(y.key)
+		)
+		.slice(0, limit);
+}
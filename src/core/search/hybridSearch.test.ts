@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+	extractKeywordTerms,
+	fuseRankings,
+	type ScoredCandidate,
+} from "./hybridSearch";
+
+function candidates(...entries: [string, number][]): ScoredCandidate<string>[] {
+	return entries.map(([item, score]) => ({ item, score }));
+}
+
+const key = (item: string) => item;
+
+describe("extractKeywordTerms", () => {
+	it("小文字にそろえて重複を除き、重みの大きい方を残す", () => {
+		expect(
+			extractKeywordTerms([
+				{ text: "  Falcon  release ", weight: 1, phrase: false },
+				{ text: "falcon", weight: 2, phrase: false },
+			])
+		).toEqual([
+			{ term: "falcon", weight: 2 },
+			{ term: "release", weight: 1 },
+		]);
+	});
+
+	it("引用符で囲まれた語句は分割しない", () => {
+		expect(
+			extractKeywordTerms([
+				{ text: "Release Notes", weight: 1, phrase: true },
+			])
+		).toEqual([{ term: "release notes", weight: 1 }]);
+	});
+
+	it("空の節からは語句を返さない", () => {
+		expect(
+			extractKeywordTerms([{ text: "   ", weight: 1, phrase: false }])
+		).toEqual([]);
+	});
+});
+
+describe("fuseRankings", () => {
+	it("RRF では両方のリストで上位の候補が先頭になる", () => {
+		const fused = fuseRankings(
+			candidates(["a", 0.9], ["b", 0.8], ["c", 0.7]),
+			candidates(["b", 3], ["d", 2]),
+			key,
+			{ method: "rrf", semanticWeight: 0.5 }
+		);
+		expect(fused.map((candidate) => candidate.item)).toEqual([
+			"b",
+			"a",
+			"d",
+			"c",
+		]);
+	});
+
+	it("重みが 1 ならベクトルの順位だけで並ぶ", () => {
+		const fused = fuseRankings(
+			candidates(["a", 0.9], ["b", 0.8]),
+			candidates(["b", 3], ["c", 2]),
+			key,
+			{ method: "rrf", semanticWeight: 1 }
+		);
+		expect(fused.map((candidate) => candidate.item).slice(0, 2)).toEqual([
+			"a",
+			"b",
+		]);
+	});
+
+	it("weighted ではリストごとに正規化したスコアを加重する", () => {
+		const fused = fuseRankings(
+			candidates(["a", 0.9], ["b", 0.5]),
+			candidates(["b", 4], ["c", 1]),
+			key,
+			{ method: "weighted", semanticWeight: 0.4 }
+		);
+		expect(fused).toEqual([
+			{ item: "b", score: 0.6 },
+			{ item: "a", score: 0.4 },
+			{ item: "c", score: 0 },
+		]);
+	});
+});
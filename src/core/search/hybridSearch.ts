@@ -0,0 +1,108 @@
+import type { QueryClause } from "../storage/types";
+
+// semantic: ベクトルの類似度のみ, keyword: チャンクのテキストに含まれる語句のみ, hybrid: 両方の順位を統合する
+export type SearchMode = "semantic" | "keyword" | "hybrid";
+
+// rrf: 順位の逆数の和 (Reciprocal Rank Fusion), weighted: 正規化したスコアの加重和
+export type RankFusionMethod = "rrf" | "weighted";
+
+export const SEARCH_MODE_LABELS: Record<SearchMode, string> = {
+	semantic: "Semantic",
+	keyword: "Keyword",
+	hybrid: "Hybrid",
+};
+
+export interface RankFusionOptions {
+	method: RankFusionMethod;
+	// 0 ならキーワードのみ、1 ならベクトルのみを重視する
+	semanticWeight: number;
+	// RRF で上位の差を緩める定数
+	k?: number;
+}
+
+export const DEFAULT_RRF_K = 60;
+
+export const DEFAULT_RANK_FUSION_OPTIONS: RankFusionOptions = {
+	method: "rrf",
+	semanticWeight: 0.5,
+};
+
+// スコアは大きいほど良い
+export interface ScoredCandidate<T> {
+	item: T;
+	score: number;
+}
+
+export interface KeywordTerm {
+	term: string;
+	weight: number;
+}
+
+const MAX_KEYWORD_TERMS = 10;
+
+// 節を空白で区切った語句に分け、大文字小文字を区別せずに照合できるようにそろえる。
+// 引用符で囲まれた語句は分割しない。同じ語句は重みの大きい方を残す
+export function extractKeywordTerms(
+	clauses: readonly QueryClause[]
+): KeywordTerm[] {
+	const weights = new Map<string, number>();
+	for (const clause of clauses) {
+		const text = clause.text.toLowerCase();
+		const terms = clause.phrase ? [text.trim()] : text.split(/\s+/);
+		for (const term of terms) {
+			if (term.length === 0) continue;
+			weights.set(term, Math.max(weights.get(term) ?? 0, clause.weight));
+		}
+	}
+	return Array.from(weights, ([term, weight]) => ({ term, weight })).slice(
+		0,
+		MAX_KEYWORD_TERMS
+	);
+}
+
+// 各リストは良い順に並んでいる前提。両方に含まれる候補は semantic 側の項目を使う
+export function fuseRankings<T>(
+	semantic: readonly ScoredCandidate<T>[],
+	keyword: readonly ScoredCandidate<T>[],
+	getKey: (item: T) => string | number,
+	options: RankFusionOptions
+): ScoredCandidate<T>[] {
+	const semanticWeight = Math.min(1, Math.max(0, options.semanticWeight));
+	const fused = new Map<string | number, ScoredCandidate<T>>();
+	const add = (candidates: readonly ScoredCandidate<T>[], weight: number) => {
+		const contributions =
+			options.method === "rrf"
+				? candidates.map(
+						(_, rank) =>
+							weight / ((options.k ?? DEFAULT_RRF_K) + rank + 1)
+				  )
+				: normalizeScores(candidates).map((score) => weight * score);
+		candidates.forEach((candidate, index) => {
+			const key = getKey(candidate.item);
+			const existing = fused.get(key);
+			if (existing) {
+				existing.score += contributions[index];
+			} else {
+				fused.set(key, {
+					item: candidate.item,
+					score: contributions[index],
+				});
+			}
+		});
+	};
+	add(semantic, semanticWeight);
+	add(keyword, 1 - semanticWeight);
+	return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
+// 最大値が 1、最小値が 0 になるようにそろえる。すべて同じ値なら 1 とする
+export function normalizeScores<T>(
+	candidates: readonly ScoredCandidate<T>[]
+): number[] {
+	const scores = candidates.map((candidate) => candidate.score);
+	const max = Math.max(...scores);
+	const min = Math.min(...scores);
+	return scores.map((score) =>
+		max === min ? 1 : (score - min) / (max - min)
+	);
+}
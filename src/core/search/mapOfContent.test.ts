@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import {
+	MAP_OF_CONTENT_END,
+	MAP_OF_CONTENT_START,
+	mergeMapOfContent,
+	renderMapOfContent,
+} from "./mapOfContent";
+
+describe("renderMapOfContent", () => {
+	it("クラスタごとに見出しとリンクを書き、語がなければ番号を使う", () => {
+		expect(
+			renderMapOfContent([
+				{ keywords: ["rust", "async"], links: ["Notes/A", "B"] },
+				{ keywords: [], links: ["C"] },
+			])
+		).toBe(
+			[
+				MAP_OF_CONTENT_START,
+				"",
+				"## rust, async (2)",
+				"",
+				"- [[Notes/A]]",
+				"- [[B]]",
+				"",
+				"## Cluster 2 (1)",
+				"",
+				"- [[C]]",
+				"",
+				MAP_OF_CONTENT_END,
+			].join("\n")
+		);
+	});
+});
+
+describe("mergeMapOfContent", () => {
+	const rendered = renderMapOfContent([{ keywords: ["x"], links: ["A"] }]);
+
+	it("範囲の内側だけを置き換える", () => {
+		const existing = `# MOC\n\nmemo\n\n${renderMapOfContent([
+			{ keywords: ["old"], links: ["Old"] },
+		])}\n\nfooter\n`;
+		expect(mergeMapOfContent(existing, rendered)).toBe(
+			`# MOC\n\nmemo\n\n${rendered}\n\nfooter\n`
+		);
+	});
+
+	it("範囲がなければ末尾に追加する", () => {
+		expect(mergeMapOfContent("# MOC", rendered)).toBe(
+			`# MOC\n\n${rendered}\n`
+		);
+		expect(mergeMapOfContent(null, rendered)).toBe(`${rendered}\n`);
+	});
+});
@@ -0,0 +1,48 @@
+// この範囲だけを書き換え、範囲外に書いた内容は残す
+export const MAP_OF_CONTENT_START = "<!-- vector-clusters:start -->";
+export const MAP_OF_CONTENT_END = "<!-- vector-clusters:end -->";
+
+export interface MapOfContentSection {
+	keywords: string[];
+	// [[ ]] の中に書くリンクテキスト
+	links: string[];
+}
+
+export function renderMapOfContent(
+	sections: readonly MapOfContentSection[]
+): string {
+	const lines = [MAP_OF_CONTENT_START];
+	sections.forEach((section, index) => {
+		const label =
+			section.keywords.length > 0
+				? section.keywords.join(", ")
+				: `Cluster ${index + 1}`;
+		lines.push("", `## ${label} (${section.links.length})`, "");
+		for (const link of section.links) {
+			lines.push(`- [[${link}]]`);
+		}
+	});
+	lines.push("", MAP_OF_CONTENT_END);
+	return lines.join("\n");
+}
+
+// 既存のノートに範囲がなければ末尾に追加する
+export function mergeMapOfContent(
+	existing: string | null,
+	rendered: string
+): string {
+	if (existing == null || existing.trim() === "") {
+		return `${rendered}\n`;
+	}
+	const start = existing.indexOf(MAP_OF_CONTENT_START);
+	const end = existing.indexOf(MAP_OF_CONTENT_END, start);
+	if (start === -1 || end === -1) {
+		const separator = existing.endsWith("\n") ? "\n" : "\n\n";
+		return `${existing}${separator}${rendered}\n`;
+	}
+	return (
+		existing.slice(0, start) +
+		rendered +
+		existing.slice(end + MAP_OF_CONTENT_END.length)
+	);
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { needsDiversification, selectDiverse, type MmrCandidate } from "./mmr";
+
+function candidate(
+	item: string,
+	relevance: number,
+	vector: number[] | null,
+	group = item
+): MmrCandidate<string> {
+	return { item, relevance, vector, group };
+}
+
+// a と b はほぼ同じ内容、c は別の内容
+const candidates = [
+	candidate("a", 0.9, [1, 0], "note1"),
+	candidate("b", 0.89, [0.99, 0.1], "note1"),
+	candidate("c", 0.7, [0, 1], "note2"),
+];
+
+describe("needsDiversification", () => {
+	it("lambda が 1 未満か、ファイルごとの上限がある場合だけ並べ替える", () => {
+		expect(needsDiversification(undefined)).toBe(false);
+		expect(needsDiversification({ mmrLambda: 1 })).toBe(false);
+		expect(needsDiversification({ mmrLambda: 0.5 })).toBe(true);
+		expect(needsDiversification({ maxChunksPerFile: 2 })).toBe(true);
+	});
+});
+
+describe("selectDiverse", () => {
+	it("lambda が 1 なら関連度の順に選ぶ", () => {
+		expect(selectDiverse(candidates, 3, { mmrLambda: 1 })).toEqual([
+			"a",
+			"b",
+			"c",
+		]);
+	});
+
+	it("lambda を下げると、選択済みと似た候補を後回しにする", () => {
+		expect(selectDiverse(candidates, 2, { mmrLambda: 0.5 })).toEqual([
+			"a",
+			"c",
+		]);
+	});
+
+	it("ファイルごとの上限を超える候補は選ばない", () => {
+		expect(selectDiverse(candidates, 3, { maxChunksPerFile: 1 })).toEqual([
+			"a",
+			"c",
+		]);
+	});
+
+	it("ベクトルのない候補は類似度 0 として扱う", () => {
+		expect(
+			selectDiverse(
+				[candidate("a", 0.9, [1, 0]), candidate("x", 0.5, null)],
+				2,
+				{ mmrLambda: 0.3 }
+			)
+		).toEqual(["a", "x"]);
+	});
+});
@@ -0,0 +1,94 @@
+export interface DiversityOptions {
+	// 1 で関連度のみ、0 で多様性のみを重視する。未指定の場合は MMR で並べ替えない
+	mmrLambda?: number;
+	// 1 つのファイルから選ぶチャンクの上限。0 または未指定の場合は制限しない
+	maxChunksPerFile?: number;
+}
+
+export interface MmrCandidate<T> {
+	item: T;
+	// 大きいほど関連度が高い
+	relevance: number;
+	// ベクトルがない候補は、選択済みのどの候補とも似ていないものとして扱う
+	vector: ArrayLike<number> | null;
+	// 上限を数える単位 (ファイルパス)
+	group: string;
+}
+
+export function needsDiversification(
+	options: DiversityOptions | undefined
+): boolean {
+	return (
+		(options?.mmrLambda != null && options.mmrLambda < 1) ||
+		(options?.maxChunksPerFile ?? 0) > 0
+	);
+}
+
+// Maximal Marginal Relevance: 関連度と、選択済みの候補との最大類似度の差が最も大きい候補から順に選ぶ。
+// 候補は関連度の高い順に並んでいる前提で、同点の場合は先の候補を選ぶ
+export function selectDiverse<T>(
+	candidates: readonly MmrCandidate<T>[],
+	limit: number,
+	options: DiversityOptions
+): T[] {
+	const lambda = Math.min(1, Math.max(0, options.mmrLambda ?? 1));
+	const maxPerGroup = options.maxChunksPerFile ?? 0;
+	const norms = candidates.map((candidate) =>
+		candidate.vector ? vectorNorm(candidate.vector) : 0
+	);
+	// 選択済みの候補との最大類似度。選ぶたびに差分だけ更新する
+	const maxSimilarities = new Array<number>(candidates.length).fill(0);
+	const remaining = new Set(candidates.map((_, index) => index));
+	const groupCounts = new Map<string, number>();
+	const selected: T[] = [];
+
+	while (selected.length < limit && remaining.size > 0) {
+		let bestIndex = -1;
+		let bestScore = -Infinity;
+		for (const index of remaining) {
+			const count = groupCounts.get(candidates[index].group) ?? 0;
+			if (maxPerGroup > 0 && count >= maxPerGroup) continue;
+			const score =
+				selected.length === 0
+					? candidates[index].relevance
+					: lambda * candidates[index].relevance -
+					  (1 - lambda) * maxSimilarities[index];
+			if (score > bestScore) {
+				bestScore = score;
+				bestIndex = index;
+			}
+		}
+		if (bestIndex === -1) break;
+
+		const best = candidates[bestIndex];
+		remaining.delete(bestIndex);
+		selected.push(best.item);
+		groupCounts.set(best.group, (groupCounts.get(best.group) ?? 0) + 1);
+		if (lambda < 1 && best.vector && norms[bestIndex] > 0) {
+			for (const index of remaining) {
+				const vector = candidates[index].vector;
+				if (!vector || norms[index] === 0) continue;
+				const similarity =
+					dotProduct(best.vector, vector) /
+					(norms[bestIndex] * norms[index]);
+				if (similarity > maxSimilarities[index]) {
+					maxSimilarities[index] = similarity;
+				}
+			}
+		}
+	}
+	return selected;
+}
+
+function dotProduct(a: ArrayLike<number>, b: ArrayLike<number>): number {
+	let sum = 0;
+	const length = Math.min(a.length, b.length);
+	for (let i = 0; i < length; i++) {
+		sum += a[i] * b[i];
+	}
+	return sum;
+}
+
+function vectorNorm(vector: ArrayLike<number>): number {
+	return Math.sqrt(dotProduct(vector, vector));
+}
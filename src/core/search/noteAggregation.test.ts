@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { aggregateByNote } from "./noteAggregation";
+import type { ScoredCandidate } from "./hybridSearch";
+
+interface Chunk {
+	id: string;
+	file: string;
+}
+
+// a.md は 1 つだけ非常に近いチャンク、b.md はそこそこ近いチャンクが多い
+const candidates: ScoredCandidate<Chunk>[] = [
+	{ item: { id: "a1", file: "a.md" }, score: 0.95 },
+	{ item: { id: "b1", file: "b.md" }, score: 0.9 },
+	{ item: { id: "b2", file: "b.md" }, score: 0.88 },
+	{ item: { id: "b3", file: "b.md" }, score: 0.86 },
+	{ item: { id: "a2", file: "a.md" }, score: 0.4 },
+];
+
+const getFilePath = (chunk: Chunk) => chunk.file;
+
+describe("aggregateByNote", () => {
+	it("max では最も近いチャンクのスコアで並べる", () => {
+		const notes = aggregateByNote(
+			candidates,
+			getFilePath,
+			{ method: "max" },
+			10
+		);
+		expect(notes.map((note) => [note.filePath, note.score])).toEqual([
+			["a.md", 0.95],
+			["b.md", 0.9],
+		]);
+	});
+
+	it("mean-top-k では上位 k チャンクの平均で並べる", () => {
+		const notes = aggregateByNote(
+			candidates,
+			getFilePath,
+			{ method: "mean-top-k", topK: 2 },
+			10
+		);
+		expect(notes.map((note) => note.filePath)).toEqual(["b.md", "a.md"]);
+		expect(notes[0].score).toBeCloseTo(0.89);
+		expect(notes[1].score).toBeCloseTo(0.675);
+	});
+
+	it("soft-count ではスコアの高いチャンクが多いノートを上位にする", () => {
+		const notes = aggregateByNote(
+			candidates,
+			getFilePath,
+			{ method: "soft-count" },
+			10
+		);
+		expect(notes.map((note) => note.filePath)).toEqual(["b.md", "a.md"]);
+	});
+
+	it("各ノートのチャンクをスコア順に指定数だけ返し、ノート数を limit で切る", () => {
+		const notes = aggregateByNote(
+			candidates,
+			getFilePath,
+			{ method: "max", chunksPerNote: 2 },
+			1
+		);
+		expect(notes).toEqual([
+			{
+				filePath: "a.md",
+				score: 0.95,
+				chunks: [
+					{ id: "a1", file: "a.md" },
+					{ id: "a2", file: "a.md" },
+				],
+				matchedChunks: 2,
+			},
+		]);
+	});
+});
@@ -0,0 +1,100 @@
+import type { ScoredCandidate } from "./hybridSearch";
+
+// chunk: チャンクごとに並べる, note: ノートごとにスコアを集約して並べる
+export type ResultLevel = "chunk" | "note";
+
+// max: 最も近いチャンクのスコア, mean-top-k: 上位 k チャンクの平均, soft-count: スコアの高いチャンクの数を連続値で数える
+export type NoteScoreAggregation = "max" | "mean-top-k" | "soft-count";
+
+export const NOTE_SCORE_AGGREGATION_LABELS: Record<
+	NoteScoreAggregation,
+	string
+> = {
+	max: "Best chunk",
+	"mean-top-k": "Mean of top chunks",
+	"soft-count": "Soft count of matching chunks",
+};
+
+export interface NoteAggregationOptions {
+	method: NoteScoreAggregation;
+	// mean-top-k で平均するチャンク数
+	topK?: number;
+	// 結果に含める、各ノートの関連度の高いチャンク数
+	chunksPerNote?: number;
+}
+
+export interface NoteResult<T> {
+	filePath: string;
+	score: number;
+	// スコアの高い順
+	chunks: T[];
+	// 候補に含まれていたこのノートのチャンク数
+	matchedChunks: number;
+}
+
+export const DEFAULT_NOTE_TOP_K = 3;
+export const DEFAULT_CHUNKS_PER_NOTE = 3;
+// soft-count で、スコアが 1 から離れたチャンクをどれだけ割り引くか (小さいほど厳しい)
+const SOFT_COUNT_TEMPERATURE = 0.1;
+
+// スコアは 0〜1 にそろえてある前提
+export function aggregateByNote<T>(
+	candidates: readonly ScoredCandidate<T>[],
+	getFilePath: (item: T) => string,
+	options: NoteAggregationOptions,
+	limit: number
+): NoteResult<T>[] {
+	const groups = new Map<string, ScoredCandidate<T>[]>();
+	for (const candidate of candidates) {
+		const filePath = getFilePath(candidate.item);
+		const group = groups.get(filePath);
+		if (group) {
+			group.push(candidate);
+		} else {
+			groups.set(filePath, [candidate]);
+		}
+	}
+
+	const chunksPerNote = options.chunksPerNote ?? DEFAULT_CHUNKS_PER_NOTE;
+	const notes: NoteResult<T>[] = [];
+	for (const [filePath, group] of groups) {
+		const sorted = [...group].sort((a, b) => b.score - a.score);
+		notes.push({
+			filePath,
+			score: aggregateScores(
+				sorted.map((candidate) => candidate.score),
+				options
+			),
+			chunks: sorted
+				.slice(0, chunksPerNote)
+				.map((candidate) => candidate.item),
+			matchedChunks: sorted.length,
+		});
+	}
+	// 同点の場合は候補に先に現れたノートを優先する (Map の挿入順)
+	return notes.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+// scores は降順
+function aggregateScores(
+	scores: number[],
+	options: NoteAggregationOptions
+): number {
+	switch (options.method) {
+		case "max":
+			return scores[0];
+		case "mean-top-k": {
+			const top = scores.slice(
+				0,
+				Math.max(1, options.topK ?? DEFAULT_NOTE_TOP_K)
+			);
+			return top.reduce((sum, score) => sum + score, 0) / top.length;
+		}
+		case "soft-count":
+			return scores.reduce(
+				(sum, score) =>
+					sum + Math.exp((score - 1) / SOFT_COUNT_TEMPERATURE),
+				0
+			);
+	}
+}
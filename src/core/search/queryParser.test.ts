@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { parseSearchQuery, QuerySyntaxError } from "./queryParser";
+
+describe("parseSearchQuery", () => {
+	it("記号のない語は 1 つの節にまとめ、ハイフンを含む語は分割しない", () => {
+		expect(parseSearchQuery("well-known 料理 レシピ")).toEqual({
+			positive: [
+				{ text: "well-known 料理 レシピ", weight: 1, phrase: false },
+			],
+			negative: [],
+			filters: {},
+		});
+	});
+
+	it("重み付きの正負の節と引用符で囲まれた語句を解析する", () => {
+		const query = parseSearchQuery(
+			'+rust^2 +async -python -"legacy code"^0.5'
+		);
+		expect(query.positive).toEqual([
+			{ text: "rust", weight: 2, phrase: false },
+			{ text: "async", weight: 1, phrase: false },
+		]);
+		expect(query.negative).toEqual([
+			{ text: "python", weight: 1, phrase: false },
+			{ text: "legacy code", weight: 0.5, phrase: true },
+		]);
+	});
+
+	it("path, tag, after, before を絞り込み条件にする", () => {
+		const query = parseSearchQuery(
+			'設計 path:"My Projects" -path:Archive tag:#work -tag:draft after:2024-01-15 before:2024-02-01'
+		);
+		expect(query.positive).toEqual([
+			{ text: "設計", weight: 1, phrase: false },
+		]);
+		expect(query.filters).toEqual({
+			includeFolders: ["My Projects"],
+			excludeFolders: ["Archive"],
+			includeTags: ["#work"],
+			excludeTags: ["draft"],
+			modifiedAfter: new Date(2024, 0, 15).getTime(),
+			modifiedBefore: new Date(2024, 1, 1).getTime(),
+		});
+	});
+
+	it.each([
+		['"unclosed phrase', 0],
+		["rust^fast", 4],
+		["rust -", 5],
+		["after:2024-02-30", 0],
+		["-before:2024-01-01", 0],
+		["tag:", 0],
+	])("構文エラーを位置とともに報告する: %s", (input, position) => {
+		let error: unknown;
+		try {
+			parseSearchQuery(input);
+		} catch (e) {
+			error = e;
+		}
+		expect(error).toBeInstanceOf(QuerySyntaxError);
+		expect((error as QuerySyntaxError).position).toBe(position);
+	});
+});
@@ -0,0 +1,211 @@
+import type { QueryClause, SearchFilters, SearchQuery } from "../storage/types";
+
+export interface ParsedSearchQuery extends SearchQuery {
+	filters: SearchFilters;
+}
+
+export class QuerySyntaxError extends Error {
+	constructor(
+		message: string,
+		// エラーの位置 (入力文字列のインデックス)
+		public readonly position: number
+	) {
+		super(message);
+		this.name = "QuerySyntaxError";
+	}
+}
+
+type FilterKey = "path" | "tag" | "after" | "before";
+
+interface QueryToken {
+	sign: "+" | "-" | null;
+	key: FilterKey | null;
+	value: string;
+	quoted: boolean;
+	weight: number | null;
+	position: number;
+}
+
+const FILTER_KEY_PATTERN = /^(path|tag|after|before):/i;
+const WEIGHT_PATTERN = /^\^(\d+(?:\.\d+)?)(?=\s|$)/;
+
+// 記号のない語はまとめて 1 つの文として扱い、+ や重み、引用符の付いた語は個別の節にする。
+// 語の途中の - (well-known など) は除外の記号とみなさない
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+	const query: ParsedSearchQuery = {
+		positive: [],
+		negative: [],
+		filters: {},
+	};
+	const freeWords: string[] = [];
+	for (const token of tokenize(input)) {
+		if (token.key) {
+			applyFilter(query.filters, token);
+			continue;
+		}
+		if (token.sign === null && token.weight === null && !token.quoted) {
+			freeWords.push(token.value);
+			continue;
+		}
+		const clause: QueryClause = {
+			text: token.value.trim(),
+			weight: token.weight ?? 1,
+			phrase: token.quoted,
+		};
+		(token.sign === "-" ? query.negative : query.positive).push(clause);
+	}
+	if (freeWords.length > 0) {
+		query.positive.unshift({
+			text: freeWords.join(" "),
+			weight: 1,
+			phrase: false,
+		});
+	}
+	return query;
+}
+
+function tokenize(input: string): QueryToken[] {
+	const tokens: QueryToken[] = [];
+	let index = 0;
+	while (index < input.length) {
+		if (/\s/.test(input[index])) {
+			index++;
+			continue;
+		}
+		const position = index;
+		let sign: QueryToken["sign"] = null;
+		if (input[index] === "+" || input[index] === "-") {
+			sign = input[index] as "+" | "-";
+			index++;
+		}
+
+		let key: FilterKey | null = null;
+		const keyMatch = FILTER_KEY_PATTERN.exec(input.slice(index));
+		if (keyMatch) {
+			key = keyMatch[1].toLowerCase() as FilterKey;
+			index += keyMatch[0].length;
+		}
+
+		let value: string;
+		let quoted = false;
+		if (input[index] === '"') {
+			const end = input.indexOf('"', index + 1);
+			if (end === -1) {
+				throw new QuerySyntaxError(
+					"Missing closing quotation mark.",
+					index
+				);
+			}
+			value = input.slice(index + 1, end);
+			quoted = true;
+			index = end + 1;
+		} else {
+			value = /^[^\s"^]*/.exec(input.slice(index))![0];
+			index += value.length;
+		}
+
+		let weight: number | null = null;
+		if (input[index] === "^") {
+			const weightMatch = WEIGHT_PATTERN.exec(input.slice(index));
+			if (!weightMatch || Number(weightMatch[1]) <= 0) {
+				throw new QuerySyntaxError(
+					"Weight after '^' must be a positive number.",
+					index
+				);
+			}
+			weight = Number(weightMatch[1]);
+			index += weightMatch[0].length;
+		}
+
+		if (index < input.length && !/\s/.test(input[index])) {
+			throw new QuerySyntaxError(
+				`Unexpected character '${input[index]}'.`,
+				index
+			);
+		}
+		if (value.trim() === "") {
+			throw new QuerySyntaxError(
+				key
+					? `Missing value after '${key}:'.`
+					: quoted
+					? "Empty quoted phrase."
+					: `Missing term after '${sign}'.`,
+				position
+			);
+		}
+		if (key && weight !== null) {
+			throw new QuerySyntaxError(
+				`'${key}:' filters cannot have a weight.`,
+				position
+			);
+		}
+		tokens.push({ sign, key, value, quoted, weight, position });
+	}
+	return tokens;
+}
+
+function applyFilter(filters: SearchFilters, token: QueryToken): void {
+	const exclude = token.sign === "-";
+	switch (token.key) {
+		case "path": {
+			const field = exclude ? "excludeFolders" : "includeFolders";
+			filters[field] = [...(filters[field] ?? []), token.value];
+			break;
+		}
+		case "tag": {
+			const field = exclude ? "excludeTags" : "includeTags";
+			filters[field] = [...(filters[field] ?? []), token.value];
+			break;
+		}
+		case "after":
+		case "before": {
+			if (exclude) {
+				throw new QuerySyntaxError(
+					`'${token.key}:' cannot be negated.`,
+					token.position
+				);
+			}
+			const time = parseLocalDate(token.value);
+			if (time === null) {
+				throw new QuerySyntaxError(
+					`Invalid date '${token.value}'. Use YYYY-MM-DD.`,
+					token.position
+				);
+			}
+			// 複数指定された場合は最も狭い範囲にする
+			if (token.key === "after") {
+				filters.modifiedAfter = Math.max(
+					filters.modifiedAfter ?? time,
+					time
+				);
+			} else {
+				filters.modifiedBefore = Math.min(
+					filters.modifiedBefore ?? time,
+					time
+				);
+			}
+			break;
+		}
+	}
+}
+
+// ローカルタイムのその日の 0 時 (エポックミリ秒)
+function parseLocalDate(value: string): number | null {
+	const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+	if (!match) return null;
+	const [year, month, day] = match.slice(1).map(Number);
+	const date = new Date(year, month - 1, day);
+	if (
+		date.getFullYear() !== year ||
+		date.getMonth() !== month - 1 ||
+		date.getDate() !== day
+	) {
+		return null;
+	}
+	return date.getTime();
+}
+
+// 構文を解釈せず、テキスト全体を 1 つの節として検索する (選択範囲からの検索など)
+export function createTextQuery(text: string): SearchQuery {
+	return { positive: [{ text, weight: 1, phrase: false }], negative: [] };
+}
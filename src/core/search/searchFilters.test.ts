@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import {
+	buildSearchFilterSql,
+	hasSearchFilters,
+	normalizeFolderPrefix,
+} from "./searchFilters";
+
+describe("normalizeFolderPrefix", () => {
+	it("前後のスラッシュを除き、末尾に / を付ける", () => {
+		expect(normalizeFolderPrefix(" /Projects/Alpha/ ")).toBe(
+			"Projects/Alpha/"
+		);
+		expect(normalizeFolderPrefix("/")).toBe("");
+	});
+});
+
+describe("hasSearchFilters", () => {
+	it("空の条件だけなら絞り込みなしとみなす", () => {
+		expect(hasSearchFilters(undefined)).toBe(false);
+		expect(
+			hasSearchFilters({ includeFolders: [" "], includeTags: ["#"] })
+		).toBe(false);
+		expect(hasSearchFilters({ modifiedAfter: 0 })).toBe(true);
+	});
+});
+
+describe("buildSearchFilterSql", () => {
+	it("指定した番号からプレースホルダを振り、値を正規化して渡す", () => {
+		const { conditions, params } = buildSearchFilterSql(
+			{
+				includeFolders: ["Projects/"],
+				excludeTags: ["#Archive"],
+				modifiedBefore: 1000,
+			},
+			3
+		);
+		expect(conditions).toHaveLength(3);
+		expect(conditions[0]).toContain("$3::text[]");
+		expect(conditions[1]).toMatch(/^NOT EXISTS .*\$4::text\[\]/);
+		expect(conditions[2]).toBe("t.file_mtime < $5");
+		expect(params).toEqual([["Projects/"], ["archive"], 1000]);
+	});
+
+	it("プロパティのキーは一度だけ渡し、値は小文字にそろえる", () => {
+		const { conditions, params } = buildSearchFilterSql(
+			{ properties: [{ key: "Status", value: "Active" }] },
+			1
+		);
+		expect(conditions).toHaveLength(1);
+		expect(params).toEqual(["status", "active"]);
+	});
+});
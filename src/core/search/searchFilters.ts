@@ -0,0 +1,119 @@
+import type { SearchFilters } from "../storage/types";
+
+export interface SearchFilterSql {
+	// AND で結合する条件
+	conditions: string[];
+	params: unknown[];
+}
+
+// 末尾に / を付け、別フォルダの前方一致 (Projects と Projects-old など) を防ぐ
+export function normalizeFolderPrefix(folder: string): string {
+	const trimmed = folder.trim().replace(/^\/+|\/+$/g, "");
+	return trimmed === "" ? "" : `${trimmed}/`;
+}
+
+// 保存されたタグと同じく、# を除いて小文字にそろえる
+export function normalizeFilterTag(tag: string): string {
+	return tag.trim().replace(/^#/, "").toLowerCase();
+}
+
+export function hasSearchFilters(filters: SearchFilters | undefined): boolean {
+	if (!filters) return false;
+	return (
+		(filters.includeFolders ?? []).some(
+			(folder) => normalizeFolderPrefix(folder) !== ""
+		) ||
+		(filters.excludeFolders ?? []).some(
+			(folder) => normalizeFolderPrefix(folder) !== ""
+		) ||
+		(filters.includeTags ?? []).some((tag) => normalizeFilterTag(tag)) ||
+		(filters.excludeTags ?? []).some((tag) => normalizeFilterTag(tag)) ||
+		(filters.properties ?? []).some((property) => property.key.trim()) ||
+		filters.modifiedAfter != null ||
+		filters.modifiedBefore != null
+	);
+}
+
+// embeddings テーブルの列に対する WHERE 条件を組み立てる。プレースホルダは firstParamIndex から振る
+export function buildSearchFilterSql(
+	filters: SearchFilters | undefined,
+	firstParamIndex: number,
+	tableAlias: string = "t"
+): SearchFilterSql {
+	const conditions: string[] = [];
+	const params: unknown[] = [];
+	if (!filters) return { conditions, params };
+	const column = (name: string) => `${tableAlias}.${name}`;
+	const addParam = (value: unknown) => {
+		params.push(value);
+		return `$${firstParamIndex + params.length - 1}`;
+	};
+
+	const folderCondition = (folders: string[]) =>
+		`EXISTS (SELECT 1 FROM unnest(${addParam(
+			folders
+		)}::text[]) AS folder WHERE starts_with(${column(
+			"file_path"
+		)}, folder))`;
+	const includeFolders = (filters.includeFolders ?? [])
+		.map(normalizeFolderPrefix)
+		.filter((folder) => folder !== "");
+	if (includeFolders.length > 0) {
+		conditions.push(folderCondition(includeFolders));
+	}
+	const excludeFolders = (filters.excludeFolders ?? [])
+		.map(normalizeFolderPrefix)
+		.filter((folder) => folder !== "");
+	if (excludeFolders.length > 0) {
+		conditions.push(`NOT ${folderCondition(excludeFolders)}`);
+	}
+
+	// 親タグを指定した場合はネストしたタグ (project/alpha など) も対象にする
+	const tagCondition = (tags: string[]) =>
+		`EXISTS (SELECT 1 FROM unnest(${column(
+			"tags"
+		)}) AS tag, unnest(${addParam(
+			tags
+		)}::text[]) AS filter_tag WHERE tag = filter_tag OR starts_with(tag, filter_tag || '/'))`;
+	const includeTags = (filters.includeTags ?? [])
+		.map(normalizeFilterTag)
+		.filter((tag) => tag !== "");
+	if (includeTags.length > 0) {
+		conditions.push(tagCondition(includeTags));
+	}
+	const excludeTags = (filters.excludeTags ?? [])
+		.map(normalizeFilterTag)
+		.filter((tag) => tag !== "");
+	if (excludeTags.length > 0) {
+		conditions.push(`NOT ${tagCondition(excludeTags)}`);
+	}
+
+	for (const property of filters.properties ?? []) {
+		const key = property.key.trim().toLowerCase();
+		if (key === "") continue;
+		const keyParam = addParam(key);
+		const value = `${column("properties")} -> ${keyParam}`;
+		// 値の指定がなければプロパティの有無だけを見る。リストの場合はいずれかの要素と一致すればよい
+		const condition =
+			property.value == null
+				? `${column("properties")} ? ${keyParam}`
+				: `EXISTS (SELECT 1 FROM jsonb_array_elements_text(CASE WHEN jsonb_typeof(${value}) = 'array' THEN ${value} ELSE jsonb_build_array(${value}) END) AS property_value WHERE lower(property_value) = ${addParam(
+						property.value.trim().toLowerCase()
+				  )})`;
+		conditions.push(
+			property.exclude ? `NOT COALESCE(${condition}, false)` : condition
+		);
+	}
+
+	if (filters.modifiedAfter != null) {
+		conditions.push(
+			`${column("file_mtime")} >= ${addParam(filters.modifiedAfter)}`
+		);
+	}
+	if (filters.modifiedBefore != null) {
+		conditions.push(
+			`${column("file_mtime")} < ${addParam(filters.modifiedBefore)}`
+		);
+	}
+	return { conditions, params };
+}
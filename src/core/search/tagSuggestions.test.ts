@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import {
+	addFrontmatterTag,
+	collectNeighbourNotes,
+	suggestTags,
+} from "./tagSuggestions";
+
+describe("collectNeighbourNotes", () => {
+	it("ノートごとに最も近いチャンクの類似度を使い、近い順に並べる", () => {
+		expect(
+			collectNeighbourNotes(
+				[
+					{ file_path: "a.md", distance: 0.3 },
+					{ file_path: "b.md", distance: 0.2 },
+					{ file_path: "a.md", distance: 0.1 },
+					{ file_path: "c.md", distance: 0.5 },
+				],
+				2
+			)
+		).toEqual([
+			{ filePath: "a.md", similarity: 0.9 },
+			{ filePath: "b.md", similarity: 0.8 },
+		]);
+	});
+});
+
+describe("suggestTags", () => {
+	const tags: Record<string, string[]> = {
+		"a.md": ["#project", "#rust"],
+		"b.md": ["#Project", "#rust", "#rust"],
+		"c.md": ["#cooking"],
+		"d.md": [],
+	};
+	const neighbours = [
+		{ filePath: "a.md", similarity: 0.4 },
+		{ filePath: "b.md", similarity: 0.3 },
+		{ filePath: "c.md", similarity: 0.2 },
+		{ filePath: "d.md", similarity: 0.1 },
+	];
+
+	it("類似度で重み付けし、既にあるタグを除く", () => {
+		const suggestions = suggestTags(
+			neighbours,
+			(filePath) => tags[filePath],
+			["#RUST"]
+		);
+		expect(suggestions.map(({ tag }) => tag)).toEqual([
+			"project",
+			"cooking",
+		]);
+		expect(suggestions[0].score).toBeCloseTo(0.7);
+		expect(suggestions[0].sourcePaths).toEqual(["a.md", "b.md"]);
+	});
+
+	it("近いノートの一部だけが持つタグは提案しない", () => {
+		const suggestions = suggestTags(
+			[...neighbours, { filePath: "d.md", similarity: 2 }],
+			(filePath) => tags[filePath],
+			[]
+		);
+		expect(suggestions.map(({ tag }) => tag)).toEqual(["project", "rust"]);
+	});
+});
+
+describe("addFrontmatterTag", () => {
+	it("リストに追加し、文字列のタグはリストに直す", () => {
+		const list: Record<string, unknown> = { tags: ["a"] };
+		addFrontmatterTag(list, "#b");
+		expect(list.tags).toEqual(["a", "b"]);
+
+		const text: Record<string, unknown> = { tags: "a, b c" };
+		addFrontmatterTag(text, "d");
+		expect(text.tags).toEqual(["a", "b", "c", "d"]);
+
+		const empty: Record<string, unknown> = {};
+		addFrontmatterTag(empty, "a");
+		expect(empty.tags).toEqual(["a"]);
+	});
+
+	it("既にあるタグは追加しない", () => {
+		const frontmatter: Record<string, unknown> = { tags: ["#Project"] };
+		addFrontmatterTag(frontmatter, "project");
+		expect(frontmatter.tags).toEqual(["#Project"]);
+	});
+});
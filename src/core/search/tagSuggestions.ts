@@ -0,0 +1,111 @@
+export interface NeighbourNote {
+	filePath: string;
+	similarity: number;
+}
+
+export interface TagSuggestion {
+	// # を除いたタグ
+	tag: string;
+	// 近いノートの類似度の合計のうち、このタグを持つノートの類似度が占める割合 (0〜1)
+	score: number;
+	// タグを持つ近いノート。類似度の高い順
+	sourcePaths: string[];
+}
+
+// 近いノートを集めるために検索するチャンクの数
+export const TAG_SUGGESTION_CHUNK_LIMIT = 50;
+export const TAG_SUGGESTION_NEIGHBOUR_COUNT = 10;
+export const DEFAULT_TAG_SUGGESTION_LIMIT = 5;
+// 近いノートの 1 つだけが持つようなタグを除くための下限
+export const MIN_TAG_SUGGESTION_SCORE = 0.15;
+
+export function normalizeTag(tag: string): string {
+	return tag.trim().replace(/^#/, "");
+}
+
+// チャンクの検索結果を、ノートごとに最も近いチャンクの類似度にまとめる
+export function collectNeighbourNotes(
+	results: readonly { file_path: string; distance: number }[],
+	limit: number = TAG_SUGGESTION_NEIGHBOUR_COUNT
+): NeighbourNote[] {
+	const similarities = new Map<string, number>();
+	for (const { file_path, distance } of results) {
+		const similarity = 1 - distance;
+		if (similarity > (similarities.get(file_path) ?? -Infinity)) {
+			similarities.set(file_path, similarity);
+		}
+	}
+	return Array.from(similarities, ([filePath, similarity]) => ({
+		filePath,
+		similarity,
+	}))
+		.sort(
+			(a, b) =>
+				b.similarity - a.similarity ||
+				a.filePath.localeCompare(b.filePath)
+		)
+		.slice(0, limit);
+}
+
+// 近いノートのタグを類似度で重み付けして数える。大文字と小文字は区別せず、表記は最も近いノートのものを使う
+export function suggestTags(
+	neighbours: readonly NeighbourNote[],
+	getTags: (filePath: string) => readonly string[],
+	existingTags: readonly string[],
+	limit: number = DEFAULT_TAG_SUGGESTION_LIMIT
+): TagSuggestion[] {
+	const existing = new Set(
+		existingTags.map((tag) => normalizeTag(tag).toLowerCase())
+	);
+	const totalSimilarity = neighbours.reduce(
+		(sum, { similarity }) => sum + Math.max(0, similarity),
+		0
+	);
+	if (totalSimilarity === 0) return [];
+
+	const suggestions = new Map<string, TagSuggestion>();
+	for (const { filePath, similarity } of neighbours) {
+		const seen = new Set<string>();
+		for (const rawTag of getTags(filePath)) {
+			const tag = normalizeTag(rawTag);
+			const key = tag.toLowerCase();
+			if (!tag || existing.has(key) || seen.has(key)) continue;
+			seen.add(key);
+			const suggestion = suggestions.get(key) ?? {
+				tag,
+				score: 0,
+				sourcePaths: [],
+			};
+			suggestion.score += Math.max(0, similarity) / totalSimilarity;
+			suggestion.sourcePaths.push(filePath);
+			suggestions.set(key, suggestion);
+		}
+	}
+	return Array.from(suggestions.values())
+		.filter(({ score }) => score >= MIN_TAG_SUGGESTION_SCORE)
+		.sort((a, b) => b.score - a.score || a.tag.localeCompare(b.tag))
+		.slice(0, limit);
+}
+
+// frontmatter の tags に追加する。文字列で書かれている場合はリストに直し、既にあれば何もしない
+export function addFrontmatterTag(
+	frontmatter: Record<string, unknown>,
+	tag: string
+): void {
+	const current = frontmatter.tags;
+	const tags = Array.isArray(current)
+		? current.filter((value) => value != null).map(String)
+		: typeof current === "string"
+		? current.split(/[,\s]+/).filter(Boolean)
+		: [];
+	const normalized = normalizeTag(tag);
+	if (
+		tags.some(
+			(value) =>
+				normalizeTag(value).toLowerCase() === normalized.toLowerCase()
+		)
+	) {
+		return;
+	}
+	frontmatter.tags = [...tags, normalized];
+}
@@ -1,7 +1,24 @@
-import { TFile, App } from "obsidian";
+import { TFile, App, getAllTags } from "obsidian";
 import { TextChunker } from "../chunking/TextChunker";
 import { IntegratedWorkerProxy } from "../workers/IntegratedWorkerProxy";
-import type { SimilarityResultItem } from "../storage/types";
+import type {
+	SearchFilters,
+	SearchOptions,
+	SimilarityResultItem,
+	NoteSimilarityResult,
+	NoteVectorResultItem,
+} from "../storage/types";
+import type { NoteAggregationOptions } from "../search/noteAggregation";
+import { hasSearchFilters } from "../search/searchFilters";
+import { needsDiversification, type DiversityOptions } from "../search/mmr";
+import { findCursorSection, type CursorSection } from "../search/cursorSection";
+import {
+	collectNeighbourNotes,
+	DEFAULT_TAG_SUGGESTION_LIMIT,
+	suggestTags,
+	TAG_SUGGESTION_CHUNK_LIMIT,
+	type TagSuggestion,
+} from "../search/tagSuggestions";
 import { LoggerService } from "../../shared/services/LoggerService";
 import type { PluginSettings } from "src/pluginSettings";
 
@@ -14,7 +31,7 @@ export class NoteVectorService {
 		private settings: PluginSettings
 	) {}
 
-	public async getNoteVector(file: TFile): Promise<number[] | null> {
+	public async getNoteVector(file: TFile): Promise<Float32Array | null> {
 		const content = await this.app.vault.cachedRead(file);
 		if (!content.trim()) {
 			this.logger?.verbose_log(
@@ -41,7 +58,7 @@ export class NoteVectorService {
 			const chunkVectors = await this.workerProxy.vectorizeSentences(
 				chunkTexts
 			);
-			if (!chunkVectors || chunkVectors.length === 0) {
+			if (!chunkVectors || chunkVectors.data.length === 0) {
 				this.logger?.warn(
 					`Vectorization returned no vectors for note ${file.path}.`
 				);
@@ -60,28 +77,21 @@ export class NoteVectorService {
 		}
 	}
 
-	public async getNoteVectorFromDB(file: TFile): Promise<number[] | null> {
+	// チャンクの保存時に計算済みの重心ベクトルを読むため、チャンク数によらず一定の時間で返る
+	public async getNoteVectorFromDB(
+		file: TFile
+	): Promise<Float32Array | null> {
 		this.logger?.verbose_log(
 			`Getting note vector from DB for ${file.path}`
 		);
 		try {
-			const chunkVectors = await this.workerProxy.getVectorsByFilePath(
-				file.path
-			);
-
-			if (!chunkVectors || chunkVectors.length === 0) {
+			const noteVector = await this.workerProxy.getNoteVector(file.path);
+			if (!noteVector || noteVector.length === 0) {
 				this.logger?.verbose_log(
-					`No vectors found in DB for note ${file.path}. It might not be vectorized yet.`
+					`No note vector found in DB for ${file.path}. It might not be vectorized yet.`
 				);
 				return null;
 			}
-
-			this.logger?.verbose_log(
-				`Found ${chunkVectors.length} chunk vectors for ${file.path}. Averaging...`
-			);
-			const noteVector = await this.workerProxy.averageVectors(
-				chunkVectors
-			);
 			return noteVector;
 		} catch (error) {
 			this.logger?.error(
@@ -92,21 +102,64 @@ export class NoteVectorService {
 		}
 	}
 
+	// 保存済みのチャンクの位置から、カーソル位置のセクションを探す。まだインデックスされていなければ null
+	public async findCursorSection(
+		file: TFile,
+		content: string,
+		cursorOffset: number
+	): Promise<CursorSection | null> {
+		try {
+			const spans = await this.workerProxy.getChunkSpansByFilePath(
+				file.path
+			);
+			return findCursorSection(content, spans, cursorOffset);
+		} catch (error) {
+			this.logger?.error(
+				`Error finding the cursor section for ${file.path}:`,
+				error
+			);
+			return null;
+		}
+	}
+
+	public async getSectionVector(
+		section: CursorSection
+	): Promise<Float32Array | null> {
+		try {
+			return await this.workerProxy.getAverageVectorByIds(
+				section.chunkIds
+			);
+		} catch (error) {
+			this.logger?.error("Error getting the section vector:", error);
+			return null;
+		}
+	}
+
 	public async findSimilarChunks(
-		noteVector: number[],
+		noteVector: Float32Array,
 		limit: number,
-		excludeFilePaths: string[] = []
+		excludeFilePaths: string[] = [],
+		filters?: SearchFilters,
+		diversity?: DiversityOptions
 	): Promise<SimilarityResultItem[]> {
 		if (!noteVector || noteVector.length === 0) {
 			return [];
 		}
+		const options: SearchOptions = {};
+		if (excludeFilePaths.length > 0) {
+			options.excludeFilePaths = excludeFilePaths;
+		}
+		if (hasSearchFilters(filters)) {
+			options.filters = filters;
+		}
+		if (needsDiversification(diversity)) {
+			options.diversity = diversity;
+		}
 		try {
 			const results = await this.workerProxy.searchSimilarByVector(
 				noteVector,
 				limit,
-				excludeFilePaths.length > 0
-					? { excludeFilePaths: excludeFilePaths }
-					: undefined
+				Object.keys(options).length > 0 ? options : undefined
 			);
 			return results;
 		} catch (error) {
@@ -117,4 +170,90 @@ export class NoteVectorService {
 			throw error;
 		}
 	}
+
+	// 近いノートのタグから、このノートに付けるタグを提案する。まだインデックスされていなければ空
+	public async suggestTags(
+		file: TFile,
+		limit: number = DEFAULT_TAG_SUGGESTION_LIMIT
+	): Promise<TagSuggestion[]> {
+		const noteVector = await this.getNoteVectorFromDB(file);
+		if (!noteVector) {
+			return [];
+		}
+		const results = await this.findSimilarChunks(
+			noteVector,
+			TAG_SUGGESTION_CHUNK_LIMIT,
+			[file.path]
+		);
+		return suggestTags(
+			collectNeighbourNotes(results),
+			(filePath) => this.getFileTags(filePath),
+			this.getFileTags(file.path),
+			limit
+		);
+	}
+
+	// frontmatter とインラインのタグ (# 付き)
+	public getFileTags(filePath: string): string[] {
+		const file = this.app.vault.getAbstractFileByPath(filePath);
+		if (!(file instanceof TFile)) {
+			return [];
+		}
+		const cache = this.app.metadataCache.getFileCache(file);
+		return cache ? getAllTags(cache) ?? [] : [];
+	}
+
+	// ノートの重心ベクトル同士で近いノートを探す
+	public async findSimilarNoteVectors(
+		noteVector: Float32Array,
+		limit: number,
+		excludeFilePaths: string[] = []
+	): Promise<NoteVectorResultItem[]> {
+		if (!noteVector || noteVector.length === 0) {
+			return [];
+		}
+		try {
+			return await this.workerProxy.searchSimilarNoteVectors(
+				noteVector,
+				limit,
+				excludeFilePaths
+			);
+		} catch (error) {
+			this.logger?.error(
+				"Error finding similar notes by note vector:",
+				error
+			);
+			throw error;
+		}
+	}
+
+	public async findSimilarNotes(
+		noteVector: Float32Array,
+		limit: number,
+		aggregation: NoteAggregationOptions,
+		excludeFilePaths: string[] = [],
+		filters?: SearchFilters
+	): Promise<NoteSimilarityResult[]> {
+		if (!noteVector || noteVector.length === 0) {
+			return [];
+		}
+		const options: SearchOptions = {};
+		if (excludeFilePaths.length > 0) {
+			options.excludeFilePaths = excludeFilePaths;
+		}
+		if (hasSearchFilters(filters)) {
+			options.filters = filters;
+		}
+		try {
+			return await this.workerProxy.searchNotesByVector(
+				noteVector,
+				limit,
+				aggregation,
+				Object.keys(options).length > 0 ? options : undefined
+			);
+		} catch (error) {
+			this.logger?.error("Error finding similar notes by vector:", error);
+			throw error;
+		}
+	}
 }
@@ -0,0 +1,137 @@
+import { App } from "obsidian";
+import { LoggerService } from "../../shared/services/LoggerService";
+import { IntegratedWorkerProxy } from "../workers/IntegratedWorkerProxy";
+import { VectorizationService } from "./VectorizationService";
+import { getIndexVersions, planReconciliation } from "../storage/fileManifest";
+import { computeTextSha256 } from "../../shared/utils/hashUtils";
+import { WorkerRequestCancelledError } from "../workers/workerErrors";
+import type { PluginSettings } from "../../pluginSettings";
+
+export interface ReconciliationResult {
+	vectorized: number;
+	deleted: number;
+	adopted: number;
+	unchanged: number;
+	failed: number;
+}
+
+// プラグインが動いていない間の変更 (同期、git pull、外部エディタなど) をインデックスに反映する
+export class ReconciliationService {
+	private abortController: AbortController | null = null;
+
+	constructor(
+		private app: App,
+		private workerProxy: IntegratedWorkerProxy,
+		private vectorizationService: VectorizationService,
+		private logger: LoggerService | null,
+		private settings: PluginSettings
+	) {}
+
+	cancel(): void {
+		this.abortController?.abort();
+	}
+
+	async reconcile(): Promise<ReconciliationResult> {
+		this.abortController?.abort();
+		const abortController = new AbortController();
+		this.abortController = abortController;
+		try {
+			return await this.reconcileInternal(abortController.signal);
+		} finally {
+			if (this.abortController === abortController) {
+				this.abortController = null;
+			}
+		}
+	}
+
+	private async reconcileInternal(
+		signal: AbortSignal
+	): Promise<ReconciliationResult> {
+		const files = new Map(
+			this.app.vault.getMarkdownFiles().map((file) => [file.path, file])
+		);
+		const { entries, indexedFilePaths } =
+			await this.workerProxy.getFileManifest();
+		const plan = planReconciliation(
+			Array.from(files.values()).map((file) => ({
+				path: file.path,
+				mtime: file.stat.mtime,
+				size: file.stat.size,
+			})),
+			entries,
+			indexedFilePaths,
+			getIndexVersions(this.settings)
+		);
+		const hashes = new Map(
+			entries.map((entry) => [entry.filePath, entry.contentHash])
+		);
+		this.logger?.verbose_log(
+			`Reconciliation plan: ${plan.toVectorize.length} to vectorize, ${plan.toVerify.length} to verify, ${plan.toAdopt.length} to adopt, ${plan.toDelete.length} to delete.`
+		);
+
+		const result: ReconciliationResult = {
+			vectorized: 0,
+			deleted: 0,
+			adopted: 0,
+			unchanged: 0,
+			failed: 0,
+		};
+		const run = async (path: string, task: () => Promise<void>) => {
+			if (signal.aborted) {
+				throw new WorkerRequestCancelledError("reconcileVault");
+			}
+			try {
+				await task();
+			} catch (error) {
+				result.failed++;
+				this.logger?.error(`Failed to reconcile ${path}:`, error);
+			}
+		};
+
+		for (const path of plan.toDelete) {
+			await run(path, async () => {
+				await this.vectorizationService.deleteVectorsForFile(path);
+				result.deleted++;
+			});
+		}
+		for (const path of plan.toAdopt) {
+			const file = files.get(path)!;
+			await run(path, async () => {
+				const content = await this.app.vault.cachedRead(file);
+				await this.vectorizationService.recordManifest(file, content);
+				result.adopted++;
+			});
+		}
+		for (const path of plan.toVerify) {
+			const file = files.get(path)!;
+			await run(path, async () => {
+				const content = await this.app.vault.cachedRead(file);
+				// 更新日時だけが変わった場合は記録を更新するだけにする
+				if ((await computeTextSha256(content)) === hashes.get(path)) {
+					await this.vectorizationService.recordManifest(
+						file,
+						content
+					);
+					result.unchanged++;
+				} else {
+					await this.vectorizationService.vectorizeSingleFile(
+						file,
+						content
+					);
+					result.vectorized++;
+				}
+			});
+		}
+		for (const path of plan.toVectorize) {
+			const file = files.get(path)!;
+			await run(path, async () => {
+				await this.vectorizationService.vectorizeSingleFile(
+					file,
+					await this.app.vault.cachedRead(file)
+				);
+				result.vectorized++;
+			});
+		}
+		return result;
+	}
+}
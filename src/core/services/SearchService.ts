@@ -1,28 +1,44 @@
-import type { SimilarityResultItem, SearchOptions } from "../storage/types";
+import type {
+	SimilarityResultItem,
+	SearchOptions,
+	SearchQuery,
+	NoteSimilarityResult,
+} from "../storage/types";
+import type { NoteAggregationOptions } from "../search/noteAggregation";
+import {
+	MAX_DUPLICATE_PAIRS,
+	type DuplicateKind,
+	type DuplicatePair,
+} from "../search/duplicates";
+import type { NoteCluster } from "../search/clustering";
 import { IntegratedWorkerProxy } from "../workers/IntegratedWorkerProxy";
+import { WorkerRequestCancelledError } from "../workers/workerErrors";
 
 export class SearchService {
 	constructor(private workerProxy: IntegratedWorkerProxy) {}
 
 	public async search(
-		query: string,
-		negativeQuery?: string,
+		query: SearchQuery,
 		limit: number = 10,
-		options?: SearchOptions
+		options?: SearchOptions,
+		signal?: AbortSignal
 	): Promise<SimilarityResultItem[]> {
-		if (!query.trim()) {
+		if (query.positive.length === 0) {
 			return [];
 		}
 		try {
 			// workerProxy.searchSimilar が内部でベクトル化を行う
 			const searchResults = await this.workerProxy.searchSimilar(
 				query,
-				negativeQuery,
 				limit,
-				options
+				options,
+				{ signal }
 			);
 			return searchResults;
 		} catch (error) {
+			if (error instanceof WorkerRequestCancelledError) {
+				throw error;
+			}
 			console.error(
 				"Error during similarity search in SearchService:",
 				error
@@ -30,4 +46,77 @@ export class SearchService {
 			throw error; // Propagate error to CommandHandler
 		}
 	}
+
+	public async searchNotes(
+		query: SearchQuery,
+		limit: number,
+		aggregation: NoteAggregationOptions,
+		options?: SearchOptions,
+		signal?: AbortSignal
+	): Promise<NoteSimilarityResult[]> {
+		if (query.positive.length === 0) {
+			return [];
+		}
+		try {
+			return await this.workerProxy.searchNotes(
+				query,
+				limit,
+				aggregation,
+				options,
+				{ signal }
+			);
+		} catch (error) {
+			if (error instanceof WorkerRequestCancelledError) {
+				throw error;
+			}
+			console.error("Error during note search in SearchService:", error);
+			throw error;
+		}
+	}
+
+	public async findDuplicates(
+		kind: DuplicateKind,
+		threshold: number,
+		ignoredKeys: string[],
+		limit: number = MAX_DUPLICATE_PAIRS
+	): Promise<DuplicatePair[]> {
+		try {
+			return await this.workerProxy.findDuplicates(
+				kind,
+				threshold,
+				limit,
+				ignoredKeys
+			);
+		} catch (error) {
+			if (error instanceof WorkerRequestCancelledError) {
+				throw error;
+			}
+			console.error(
+				"Error while finding duplicates in SearchService:",
+				error
+			);
+			throw error;
+		}
+	}
+
+	public async clusterNotes(
+		clusterCount: number,
+		excludeFilePaths: string[] = []
+	): Promise<NoteCluster[]> {
+		try {
+			return await this.workerProxy.clusterNotes(
+				clusterCount,
+				excludeFilePaths
+			);
+		} catch (error) {
+			if (error instanceof WorkerRequestCancelledError) {
+				throw error;
+			}
+			console.error(
+				"Error while clustering notes in SearchService:",
+				error
+			);
+			throw error;
+		}
+	}
 }
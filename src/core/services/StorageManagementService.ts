@@ -1,5 +1,6 @@
 import { LoggerService } from "../../shared/services/LoggerService";
 import { IntegratedWorkerProxy } from "../workers/IntegratedWorkerProxy";
+import type { EmbeddingCacheStats, RebuildCheckpoint } from "../storage/types";
 
 export class StorageManagementService {
 	private logger: LoggerService | null;
@@ -32,6 +33,29 @@ export class StorageManagementService {
 		}
 	}
 
+	// 中断された再構築があればその進捗を返す
+	public async getRebuildCheckpoint(): Promise<RebuildCheckpoint | null> {
+		return this.workerProxy.getRebuildCheckpoint();
+	}
+
+	public async clearRebuildCheckpoint(): Promise<void> {
+		await this.workerProxy.clearRebuildCheckpoint();
+		this.logger?.verbose_log("Rebuild checkpoint cleared.");
+	}
+
+	public async getEmbeddingCacheStats(): Promise<EmbeddingCacheStats> {
+		return this.workerProxy.getEmbeddingCacheStats();
+	}
+
+	public async setEmbeddingCacheLimit(maxSizeBytes: number): Promise<void> {
+		const { evicted } = await this.workerProxy.configureEmbeddingCache(
+			maxSizeBytes
+		);
+		this.logger?.verbose_log(
+			`Embedding cache limit set to ${maxSizeBytes} bytes. Evicted ${evicted} entries.`
+		);
+	}
+
 	public async ensureIndexes(
 		onProgress?: (message: string) => void
 	): Promise<void> {
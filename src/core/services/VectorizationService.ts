@@ -1,12 +1,39 @@
-import { App, TFile } from "obsidian";
+import { App, TFile, getAllTags } from "obsidian";
 import { TextChunker } from "../../core/chunking/TextChunker";
+import type { ChunkInfo as TextChunkInfo } from "../chunking/types";
+import { extractHeadings, getHeadingPath } from "../../shared/utils/textUtils";
 import { LoggerService } from "../../shared/services/LoggerService";
 import { IntegratedWorkerProxy } from "../workers/IntegratedWorkerProxy";
-import type { ChunkInfo } from "../storage/types";
+import type { ChunkInfo, FileManifestEntry } from "../storage/types";
+import {
+	createFileManifestEntry,
+	getIndexVersions,
+} from "../storage/fileManifest";
 import type { PluginSettings } from "src/pluginSettings";
+import { WorkerRequestCancelledError } from "../workers/workerErrors";
+
+export interface VectorizeAllNotesOptions {
+	// バッチごとに再構築の進捗を DB へ記録する
+	recordCheckpoints?: boolean;
+	// 中断された再構築を再開する際に、処理済みのファイルを飛ばす
+	skipFilePaths?: ReadonlySet<string>;
+}
+
+interface FileChunks {
+	filePath: string;
+	chunks: ChunkInfo[];
+	manifestEntry: FileManifestEntry;
+}
+
+interface BulkBatch {
+	chunks: ChunkInfo[];
+	filePaths: string[];
+	manifestEntries: FileManifestEntry[];
+}
 
 export class VectorizationService {
 	private logger: LoggerService | null;
+	private vectorizeAllAbortController: AbortController | null = null;
 	constructor(
 		private app: App,
 		private workerProxy: IntegratedWorkerProxy,
@@ -16,17 +43,54 @@ export class VectorizationService {
 	) {
 		this.logger = logger;
 	}
+	public cancelVectorizeAllNotes(): boolean {
+		if (!this.vectorizeAllAbortController) {
+			return false;
+		}
+		this.logger?.log("Cancelling vectorization of all notes...");
+		this.vectorizeAllAbortController.abort();
+		return true;
+	}
+
 	public async vectorizeAllNotes(
+		onProgress?: (message: string, isOverallProgress?: boolean) => void,
+		options: VectorizeAllNotesOptions = {}
+	): Promise<{ totalVectorsProcessed: number }> {
+		this.vectorizeAllAbortController?.abort();
+		const abortController = new AbortController();
+		this.vectorizeAllAbortController = abortController;
+		try {
+			return await this.vectorizeAllNotesInternal(
+				abortController.signal,
+				options,
+				onProgress
+			);
+		} finally {
+			if (this.vectorizeAllAbortController === abortController) {
+				this.vectorizeAllAbortController = null;
+			}
+		}
+	}
+
+	private async vectorizeAllNotesInternal(
+		signal: AbortSignal,
+		options: VectorizeAllNotesOptions,
 		onProgress?: (message: string, isOverallProgress?: boolean) => void
 	): Promise<{ totalVectorsProcessed: number }> {
-		const files = this.app.vault.getMarkdownFiles();
+		const files = this.app.vault
+			.getMarkdownFiles()
+			.filter((file) => !options.skipFilePaths?.has(file.path));
 		let totalVectorsProcessed = 0;
-		const allChunksToProcess: ChunkInfo[] = [];
+		const fileChunks: FileChunks[] = [];
+		const versions = getIndexVersions(this.settings);
 
 		if (onProgress)
 			onProgress("Starting to scan and chunk all notes...", true);
 
 		for (let fileIndex = 0; fileIndex < files.length; fileIndex++) {
+			if (signal.aborted) {
+				throw new WorkerRequestCancelledError("vectorizeAllNotes");
+			}
 			const file = files[fileIndex];
 			const progressPercent = (
 				((fileIndex + 1) / files.length) *
@@ -43,25 +107,32 @@ export class VectorizationService {
 					file.path,
 					this.settings
 				);
+				const manifestEntry = await this.createManifestEntry(
+					file,
+					content,
+					versions
+				);
 
 				if (chunkInfos.length === 0) {
 					this.logger?.verbose_log(
 						`No chunks generated for file: ${file.path} (e.g., empty file without a path, or unchunkable content)`
 					);
+					// 再構築の進捗では処理済みとして扱う
+					fileChunks.push({
+						filePath: file.path,
+						chunks: [],
+						manifestEntry,
+					});
 					if (onProgress)
 						onProgress(`${noticeMessage} (skipped empty)`, false);
 					continue;
 				}
 
-				const chunksWithFilePath: ChunkInfo[] = chunkInfos.map(
-					(chunk) => ({
-						filePath: file.path,
-						chunkOffsetStart: chunk.metadata.startPosition,
-						chunkOffsetEnd: chunk.metadata.endPosition,
-						text: chunk.chunk,
-					})
-				);
-				allChunksToProcess.push(...chunksWithFilePath);
+				fileChunks.push({
+					filePath: file.path,
+					chunks: this.toStorageChunks(file, content, chunkInfos),
+					manifestEntry,
+				});
 				if (onProgress) onProgress(noticeMessage, false);
 			} catch (fileError) {
 				this.logger?.error(
@@ -78,39 +149,47 @@ export class VectorizationService {
 		}
 
 		const WORKER_BULK_BATCH_SIZE = 200;
-		const WORKER_BATCH_SIZE = 200;
-		if (allChunksToProcess.length > 0) {
+		const batches = this.groupIntoBatches(
+			fileChunks,
+			WORKER_BULK_BATCH_SIZE
+		);
+		if (batches.length > 0) {
+			const totalChunks = batches.reduce(
+				(sum, batch) => sum + batch.chunks.length,
+				0
+			);
 			if (onProgress)
 				onProgress(
-					`Collected ${allChunksToProcess.length} chunks. Starting bulk vectorization and storage...`,
+					`Collected ${totalChunks} chunks. Starting bulk vectorization and storage...`,
 					true
 				);
 
-			for (
-				let i = 0;
-				i < allChunksToProcess.length;
-				i += WORKER_BULK_BATCH_SIZE
-			) {
-				const batchChunks = allChunksToProcess.slice(
-					i,
-					i + WORKER_BULK_BATCH_SIZE
-				);
-				const currentBatchNum =
-					Math.floor(i / WORKER_BULK_BATCH_SIZE) + 1;
-				const totalBatches = Math.ceil(
-					allChunksToProcess.length / WORKER_BULK_BATCH_SIZE
-				);
+			for (let i = 0; i < batches.length; i++) {
+				const batch = batches[i];
+				const currentBatchNum = i + 1;
+				const totalBatches = batches.length;
 
 				if (onProgress) {
 					onProgress(
-						`Processing bulk batch ${currentBatchNum}/${totalBatches} (${batchChunks.length} chunks)...`,
+						`Processing bulk batch ${currentBatchNum}/${totalBatches} (${batch.chunks.length} chunks)...`,
 						true
 					);
 				}
 
 				try {
 					const result = await this.workerProxy.bulkVectorizeAndLoad(
-						batchChunks
+						batch.chunks,
+						{
+							checkpoint: options.recordCheckpoints
+								? {
+										filePaths: batch.filePaths,
+										batchIndex: i,
+										totalBatches,
+								  }
+								: undefined,
+							manifestEntries: batch.manifestEntries,
+						},
+						{ signal }
 					);
 					totalVectorsProcessed += result.count;
 					this.logger?.verbose_log(
@@ -118,7 +197,7 @@ export class VectorizationService {
 					);
 				} catch (batchError) {
 					this.logger?.error(
-						`Error processing bulk batch ${currentBatchNum}/${totalBatches} (starting at index ${i}):`,
+						`Error processing bulk batch ${currentBatchNum}/${totalBatches}:`,
 						batchError
 					);
 					// エラーが発生した場合、処理を中断してエラーを伝播させる
@@ -128,9 +207,7 @@ export class VectorizationService {
 
 			if (onProgress)
 				onProgress(
-					`All ${Math.ceil(
-						allChunksToProcess.length / WORKER_BATCH_SIZE
-					)} batches processed. Total vectors upserted: ${totalVectorsProcessed}.`,
+					`All ${batches.length} batches processed. Total vectors upserted: ${totalVectorsProcessed}.`,
 					true
 				);
 		} else {
@@ -140,15 +217,106 @@ export class VectorizationService {
 		return { totalVectorsProcessed };
 	}
 
+	private toStorageChunks(
+		file: TFile,
+		content: string,
+		chunkInfos: TextChunkInfo[]
+	): ChunkInfo[] {
+		const headings = extractHeadings(content);
+		const tags = this.getFileTags(file);
+		const properties = this.getFileProperties(file);
+		return chunkInfos.map((chunk) => {
+			const { startPosition, endPosition } = chunk.metadata;
+			// ファイル名だけのチャンクには対応するテキストがない
+			const hasPosition = startPosition !== -1;
+			return {
+				filePath: file.path,
+				chunkOffsetStart: startPosition,
+				chunkOffsetEnd: endPosition,
+				text: chunk.chunk,
+				sourceText: hasPosition
+					? content.substring(startPosition, endPosition)
+					: null,
+				headingPath: hasPosition
+					? getHeadingPath(headings, startPosition).join(" > ") ||
+					  null
+					: null,
+				tags,
+				properties,
+				fileMtime: file.stat.mtime,
+			};
+		});
+	}
+
+	// 大文字小文字を区別せずに絞り込めるよう、# を除いて小文字にそろえる
+	private getFileTags(file: TFile): string[] {
+		const cache = this.app.metadataCache.getFileCache(file);
+		const tags = cache ? getAllTags(cache) ?? [] : [];
+		return Array.from(
+			new Set(tags.map((tag) => tag.replace(/^#/, "").toLowerCase()))
+		);
+	}
+
+	// Obsidian のプロパティ名は大文字小文字を区別しないため、キーを小文字にそろえる
+	private getFileProperties(file: TFile): Record<string, unknown> | null {
+		const frontmatter =
+			this.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (!frontmatter) return null;
+		const properties: Record<string, unknown> = {};
+		for (const [key, value] of Object.entries(frontmatter)) {
+			if (key === "position") continue;
+			properties[key.toLowerCase()] = value;
+		}
+		return properties;
+	}
+
+	private createManifestEntry(
+		file: TFile,
+		content: string,
+		versions = getIndexVersions(this.settings)
+	): Promise<FileManifestEntry> {
+		return createFileManifestEntry(
+			{ path: file.path, mtime: file.stat.mtime, size: file.stat.size },
+			content,
+			versions
+		);
+	}
+
+	// ファイルの途中でバッチを分けないようにまとめる。1 ファイルで上限を超える場合はそのファイルだけのバッチにする
+	private groupIntoBatches(
+		fileChunks: FileChunks[],
+		maxChunksPerBatch: number
+	): BulkBatch[] {
+		const batches: BulkBatch[] = [];
+		let current: BulkBatch = {
+			chunks: [],
+			filePaths: [],
+			manifestEntries: [],
+		};
+		for (const file of fileChunks) {
+			if (
+				current.chunks.length > 0 &&
+				current.chunks.length + file.chunks.length > maxChunksPerBatch
+			) {
+				batches.push(current);
+				current = { chunks: [], filePaths: [], manifestEntries: [] };
+			}
+			current.chunks.push(...file.chunks);
+			current.filePaths.push(file.filePath);
+			current.manifestEntries.push(file.manifestEntry);
+		}
+		if (current.filePaths.length > 0) {
+			batches.push(current);
+		}
+		return batches;
+	}
+
 	public async vectorizeSingleFile(
 		file: TFile,
 		contentToProcess?: string
 	): Promise<{ vectorsProcessed: number; vectorsDeleted: number }> {
 		this.logger?.log(`Vectorizing single file: ${file.path}`);
 
-		const vectorsDeleted = await this.deleteVectorsForFile(file.path);
-		let vectorsProcessed = 0;
-
 		const currentContent =
 			contentToProcess ?? (await this.app.vault.cachedRead(file));
 
@@ -159,29 +327,33 @@ export class VectorizationService {
 		);
 
 		if (chunkInfosFromTextChunker.length === 0) {
+			const vectorsDeleted = await this.deleteVectorsForFile(file.path);
 			this.logger?.verbose_log(
 				`No chunks generated for file: ${file.path} (e.g., empty file without a path, or unchunkable content). Existing vectors (if any) were deleted: ${vectorsDeleted}`
 			);
-			return { vectorsProcessed, vectorsDeleted };
+			await this.recordManifest(file, currentContent);
+			return { vectorsProcessed: 0, vectorsDeleted };
 		}
 
-		const chunksToStore: ChunkInfo[] = chunkInfosFromTextChunker.map(
-			(chunk) => ({
-				filePath: file.path,
-				chunkOffsetStart: chunk.metadata.startPosition,
-				chunkOffsetEnd: chunk.metadata.endPosition,
-				text: chunk.chunk,
-			})
+		const chunksToStore = this.toStorageChunks(
+			file,
+			currentContent,
+			chunkInfosFromTextChunker
 		);
 
 		try {
+			// 変更のないチャンクは再利用され、内容が変わったチャンクだけがベクトル化される
 			const result = await this.workerProxy.vectorizeAndStoreChunks(
 				chunksToStore
 			);
-			vectorsProcessed = result.count;
 			this.logger?.verbose_log(
-				`File ${file.path} processed. Upserted ${vectorsProcessed} vectors. Previously deleted: ${vectorsDeleted}`
+				`File ${file.path} processed. Embedded ${result.embedded} of ${result.count} chunks, moved ${result.moved}, deleted ${result.deleted}.`
 			);
+			await this.recordManifest(file, currentContent);
+			return {
+				vectorsProcessed: result.embedded,
+				vectorsDeleted: result.deleted,
+			};
 		} catch (error) {
 			this.logger?.error(
 				`Error vectorizing and storing chunks for ${file.path}:`,
@@ -189,8 +361,13 @@ export class VectorizationService {
 			);
 			throw error;
 		}
+	}
 
-		return { vectorsProcessed, vectorsDeleted };
+	// ベクトルを保存した後に記録する。途中で失敗しても次回の照合で再ベクトル化される
+	public async recordManifest(file: TFile, content: string): Promise<void> {
+		await this.workerProxy.upsertFileManifest([
+			await this.createManifestEntry(file, content),
+		]);
 	}
 
 	public async deleteVectorsForFile(filePath: string): Promise<number> {
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { computeChunkHash, diffChunks, type StoredChunk } from "./chunkDiff";
+
+function stored(
+	id: number,
+	chunkHash: string | null,
+	start: number,
+	end: number
+): StoredChunk {
+	return { id, chunkHash, chunkOffsetStart: start, chunkOffsetEnd: end };
+}
+
+function incoming(chunkHash: string, start: number, end: number) {
+	return { chunkHash, chunkOffsetStart: start, chunkOffsetEnd: end };
+}
+
+describe("diffChunks", () => {
+	it("変更のないチャンクはそのまま残す", () => {
+		const diff = diffChunks(
+			[stored(1, "a", 0, 10), stored(2, "b", 10, 20)],
+			[incoming("a", 0, 10), incoming("b", 10, 20)]
+		);
+		expect(diff).toEqual({
+			unchanged: [
+				{ id: 1, index: 0 },
+				{ id: 2, index: 1 },
+			],
+			moved: [],
+			addedIndices: [],
+			removedIds: [],
+		});
+	});
+
+	it("途中の編集では変わったチャンクだけを追加し、後ろのチャンクは位置だけ更新する", () => {
+		const diff = diffChunks(
+			[
+				stored(1, "a", 0, 10),
+				stored(2, "b", 10, 20),
+				stored(3, "c", 20, 30),
+			],
+			[
+				incoming("a", 0, 10),
+				incoming("b2", 10, 25),
+				incoming("c", 25, 35),
+			]
+		);
+		expect(diff.unchanged).toEqual([{ id: 1, index: 0 }]);
+		expect(diff.moved).toEqual([{ id: 3, index: 2 }]);
+		expect(diff.addedIndices).toEqual([1]);
+		expect(diff.removedIds).toEqual([2]);
+	});
+
+	it("同じ内容のチャンクは位置が一致するものを優先して対応付ける", () => {
+		const diff = diffChunks(
+			[stored(1, "x", 0, 5), stored(2, "x", 5, 10)],
+			[incoming("x", 5, 10), incoming("x", 10, 15), incoming("x", 15, 20)]
+		);
+		expect(diff.unchanged).toEqual([{ id: 2, index: 0 }]);
+		expect(diff.moved).toEqual([{ id: 1, index: 1 }]);
+		expect(diff.addedIndices).toEqual([2]);
+		expect(diff.removedIds).toEqual([]);
+	});
+
+	it("ハッシュのない古い行は作り直す", () => {
+		const diff = diffChunks(
+			[stored(1, null, 0, 10)],
+			[incoming("a", 0, 10)]
+		);
+		expect(diff.addedIndices).toEqual([0]);
+		expect(diff.removedIds).toEqual([1]);
+	});
+});
+
+describe("computeChunkHash", () => {
+	it("空白や全角・半角の違いを無視する", async () => {
+		expect(await computeChunkHash("Hello  world\n")).toBe(
+			await computeChunkHash("Ｈｅｌｌｏ world")
+		);
+		expect(await computeChunkHash("Hello world")).not.toBe(
+			await computeChunkHash("Hello, world")
+		);
+	});
+});
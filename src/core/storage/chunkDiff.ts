@@ -0,0 +1,94 @@
+import { computeTextSha256 } from "../../shared/utils/hashUtils";
+import { normalizeChunkText } from "../../shared/utils/textUtils";
+
+export interface StoredChunk {
+	id: number;
+	// ハッシュ導入前の行は null
+	chunkHash: string | null;
+	chunkOffsetStart: number;
+	chunkOffsetEnd: number;
+}
+
+export interface IncomingChunk {
+	chunkHash: string;
+	chunkOffsetStart: number;
+	chunkOffsetEnd: number;
+}
+
+// 既存の行と、対応する incoming のインデックス
+export interface MatchedChunk {
+	id: number;
+	index: number;
+}
+
+export interface ChunkDiff {
+	// 内容も位置も変わっていない行
+	unchanged: MatchedChunk[];
+	// 内容は同じで位置だけがずれた行
+	moved: MatchedChunk[];
+	// 新たにベクトル化が必要なチャンク (incoming のインデックス)
+	addedIndices: number[];
+	// 削除する行
+	removedIds: number[];
+}
+
+export function computeChunkHash(text: string): Promise<string> {
+	return computeTextSha256(normalizeChunkText(text));
+}
+
+// 同じ内容のチャンクが複数ある場合は、位置が一致するものを優先して対応付ける
+export function diffChunks(
+	stored: readonly StoredChunk[],
+	incoming: readonly IncomingChunk[]
+): ChunkDiff {
+	const diff: ChunkDiff = {
+		unchanged: [],
+		moved: [],
+		addedIndices: [],
+		removedIds: [],
+	};
+	const remaining = new Map<string, StoredChunk[]>();
+	for (const chunk of stored) {
+		if (chunk.chunkHash === null) {
+			diff.removedIds.push(chunk.id);
+			continue;
+		}
+		const candidates = remaining.get(chunk.chunkHash) ?? [];
+		candidates.push(chunk);
+		remaining.set(chunk.chunkHash, candidates);
+	}
+
+	const unmatched: number[] = [];
+	incoming.forEach((chunk, index) => {
+		const candidates = remaining.get(chunk.chunkHash);
+		const exactIndex =
+			candidates?.findIndex(
+				(candidate) =>
+					candidate.chunkOffsetStart === chunk.chunkOffsetStart &&
+					candidate.chunkOffsetEnd === chunk.chunkOffsetEnd
+			) ?? -1;
+		if (candidates && exactIndex !== -1) {
+			diff.unchanged.push({
+				id: candidates.splice(exactIndex, 1)[0].id,
+				index,
+			});
+		} else {
+			unmatched.push(index);
+		}
+	});
+
+	for (const index of unmatched) {
+		const chunk = incoming[index];
+		const candidate = remaining.get(chunk.chunkHash)?.shift();
+		if (candidate) {
+			diff.moved.push({ id: candidate.id, index });
+		} else {
+			diff.addedIndices.push(index);
+		}
+	}
+
+	for (const candidates of remaining.values()) {
+		diff.removedIds.push(...candidates.map((candidate) => candidate.id));
+	}
+	return diff;
+}
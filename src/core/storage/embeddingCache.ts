@@ -0,0 +1,10 @@
+// halfvec の本体 (次元数 x 2 バイト) 以外に 1 行あたりにかかるおおよそのバイト数 (キーやタプルヘッダ)
+export const EMBEDDING_CACHE_ENTRY_OVERHEAD_BYTES = 200;
+
+export function estimateEmbeddingCacheEntryBytes(dimensions: number): number {
+	return dimensions * 2 + EMBEDDING_CACHE_ENTRY_OVERHEAD_BYTES;
+}
+
+export function megabytesToBytes(megabytes: number): number {
+	return Math.round(Math.max(0, megabytes) * 1024 * 1024);
+}
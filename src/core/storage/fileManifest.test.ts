@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import {
+	createFileManifestEntry,
+	getIndexVersions,
+	planReconciliation,
+	type IndexVersions,
+} from "./fileManifest";
+import { DEFAULT_SETTINGS } from "../../pluginSettings";
+import type { FileManifestEntry } from "./types";
+
+const versions: IndexVersions = {
+	chunkerVersion: "1:no-headers",
+	modelVersion: "model-a",
+};
+
+function entry(
+	filePath: string,
+	overrides: Partial<FileManifestEntry> = {}
+): FileManifestEntry {
+	return {
+		filePath,
+		mtime: 100,
+		size: 10,
+		contentHash: "hash",
+		...versions,
+		...overrides,
+	};
+}
+
+describe("planReconciliation", () => {
+	it("変更のないファイルは何もしない", () => {
+		const plan = planReconciliation(
+			[{ path: "a.md", mtime: 100, size: 10 }],
+			[entry("a.md")],
+			["a.md"],
+			versions
+		);
+		expect(plan).toEqual({
+			toVectorize: [],
+			toVerify: [],
+			toAdopt: [],
+			toDelete: [],
+		});
+	});
+
+	it("追加・更新・削除・バージョン違いを振り分ける", () => {
+		const plan = planReconciliation(
+			[
+				{ path: "new.md", mtime: 1, size: 1 },
+				{ path: "edited.md", mtime: 200, size: 10 },
+				{ path: "resized.md", mtime: 100, size: 20 },
+				{ path: "old-model.md", mtime: 100, size: 10 },
+			],
+			[
+				entry("edited.md"),
+				entry("resized.md"),
+				entry("old-model.md", { modelVersion: "model-b" }),
+				entry("removed.md"),
+			],
+			[
+				"edited.md",
+				"resized.md",
+				"old-model.md",
+				"removed.md",
+				"orphan.md",
+			],
+			versions
+		);
+		expect(plan.toVectorize).toEqual(["new.md", "old-model.md"]);
+		expect(plan.toVerify).toEqual(["edited.md", "resized.md"]);
+		expect(plan.toAdopt).toEqual([]);
+		expect(plan.toDelete.sort()).toEqual(["orphan.md", "removed.md"]);
+	});
+
+	it("マニフェストが空でベクトルがある場合は既存のファイルを引き継ぐ", () => {
+		const plan = planReconciliation(
+			[
+				{ path: "indexed.md", mtime: 1, size: 1 },
+				{ path: "missing.md", mtime: 1, size: 1 },
+			],
+			[],
+			["indexed.md", "deleted.md"],
+			versions
+		);
+		expect(plan.toAdopt).toEqual(["indexed.md"]);
+		expect(plan.toVectorize).toEqual(["missing.md"]);
+		expect(plan.toDelete).toEqual(["deleted.md"]);
+	});
+});
+
+describe("getIndexVersions", () => {
+	it("チャンク分割とモデルの設定ごとに異なるバージョンを返す", () => {
+		const base = getIndexVersions(DEFAULT_SETTINGS);
+		const withHeaders = getIndexVersions({
+			...DEFAULT_SETTINGS,
+			excludeHeadersInVectorization: false,
+		});
+		const localA = getIndexVersions({
+			...DEFAULT_SETTINGS,
+			embeddingModelId: "local",
+			localModelDimensions: 256,
+		});
+		const localB = getIndexVersions({
+			...DEFAULT_SETTINGS,
+			embeddingModelId: "local",
+			localModelDimensions: 128,
+		});
+		expect(withHeaders.chunkerVersion).not.toBe(base.chunkerVersion);
+		expect(withHeaders.modelVersion).toBe(base.modelVersion);
+		expect(localA.modelVersion).not.toBe(localB.modelVersion);
+	});
+
+	it("static エンジンに対応するモデルでは、エンジンを切り替えるとモデルのバージョンが変わる", () => {
+		const onnx = getIndexVersions({
+			...DEFAULT_SETTINGS,
+			inferenceEngine: "onnx",
+		});
+		const staticEngine = getIndexVersions({
+			...DEFAULT_SETTINGS,
+			inferenceEngine: "static",
+		});
+		expect(staticEngine.modelVersion).not.toBe(onnx.modelVersion);
+	});
+
+	it("static エンジンに対応しないモデルでは、エンジンの設定を無視する", () => {
+		for (const embeddingModelId of ["all-minilm-l6-v2", "local"]) {
+			const onnx = getIndexVersions({
+				...DEFAULT_SETTINGS,
+				embeddingModelId,
+				inferenceEngine: "onnx",
+			});
+			const staticEngine = getIndexVersions({
+				...DEFAULT_SETTINGS,
+				embeddingModelId,
+				inferenceEngine: "static",
+			});
+			expect(staticEngine.modelVersion).toBe(onnx.modelVersion);
+		}
+	});
+});
+
+describe("createFileManifestEntry", () => {
+	it("内容の SHA-256 を記録する", async () => {
+		const result = await createFileManifestEntry(
+			{ path: "a.md", mtime: 5, size: 3 },
+			"abc",
+			versions
+		);
+		expect(result).toEqual({
+			filePath: "a.md",
+			mtime: 5,
+			size: 3,
+			contentHash:
+				"ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+			...versions,
+		});
+	});
+});
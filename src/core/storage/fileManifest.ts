@@ -0,0 +1,118 @@
+import {
+	getEmbeddingModel,
+	LOCAL_EMBEDDING_MODEL_ID,
+	resolveInferenceEngine,
+} from "../embedding/modelRegistry";
+import { INDEX_CHUNKER_VERSION } from "../../shared/constants/appConstants";
+import { computeTextSha256 } from "../../shared/utils/hashUtils";
+import type { PluginSettings } from "../../pluginSettings";
+import type { FileManifestEntry } from "./types";
+
+export interface IndexVersions {
+	chunkerVersion: string;
+	modelVersion: string;
+}
+
+export interface VaultFileState {
+	path: string;
+	mtime: number;
+	size: number;
+}
+
+export interface ReconciliationPlan {
+	// 未登録、またはチャンク分割やモデルが変わったため再ベクトル化するファイル
+	toVectorize: string[];
+	// 更新日時かサイズが変わったファイル。内容のハッシュが変わっていれば再ベクトル化する
+	toVerify: string[];
+	// マニフェスト導入前からベクトルがあるファイル。再ベクトル化せずに現在の状態を記録する
+	toAdopt: string[];
+	// Vault に存在しないファイル
+	toDelete: string[];
+}
+
+// ベクトルの内容に影響する設定から、インデックスのバージョンを決める。
+// 推論エンジンが変わるとベクトルが一致する保証はないため、static エンジンは別のバージョンとして扱う
+export function getIndexVersions(settings: PluginSettings): IndexVersions {
+	const modelVersion =
+		settings.embeddingModelId === LOCAL_EMBEDDING_MODEL_ID
+			? [
+					LOCAL_EMBEDDING_MODEL_ID,
+					settings.localModelFolderPath,
+					settings.localModelDtype,
+					settings.localModelDimensions,
+					settings.localModelPooling,
+			  ].join(":")
+			: resolveInferenceEngine(
+					getEmbeddingModel(settings.embeddingModelId),
+					settings.inferenceEngine
+			  ) === "static"
+			? `${settings.embeddingModelId}:static`
+			: settings.embeddingModelId;
+	const chunkerVersion = `${INDEX_CHUNKER_VERSION}:${
+		settings.excludeHeadersInVectorization ? "no-headers" : "headers"
+	}`;
+	return { chunkerVersion, modelVersion };
+}
+
+export async function createFileManifestEntry(
+	file: VaultFileState,
+	content: string,
+	versions: IndexVersions
+): Promise<FileManifestEntry> {
+	return {
+		filePath: file.path,
+		mtime: file.mtime,
+		size: file.size,
+		contentHash: await computeTextSha256(content),
+		...versions,
+	};
+}
+
+export function planReconciliation(
+	files: readonly VaultFileState[],
+	manifest: readonly FileManifestEntry[],
+	indexedFilePaths: readonly string[],
+	versions: IndexVersions
+): ReconciliationPlan {
+	const manifestByPath = new Map(
+		manifest.map((entry) => [entry.filePath, entry])
+	);
+	const indexedPaths = new Set(indexedFilePaths);
+	// マニフェストが空でベクトルだけある場合は、導入前のデータベースとみなす
+	const isBootstrap = manifest.length === 0 && indexedPaths.size > 0;
+
+	const plan: ReconciliationPlan = {
+		toVectorize: [],
+		toVerify: [],
+		toAdopt: [],
+		toDelete: [],
+	};
+	const vaultPaths = new Set<string>();
+
+	for (const file of files) {
+		vaultPaths.add(file.path);
+		const entry = manifestByPath.get(file.path);
+		if (!entry) {
+			if (isBootstrap && indexedPaths.has(file.path)) {
+				plan.toAdopt.push(file.path);
+			} else {
+				plan.toVectorize.push(file.path);
+			}
+		} else if (
+			entry.chunkerVersion !== versions.chunkerVersion ||
+			entry.modelVersion !== versions.modelVersion
+		) {
+			plan.toVectorize.push(file.path);
+		} else if (entry.mtime !== file.mtime || entry.size !== file.size) {
+			plan.toVerify.push(file.path);
+		}
+	}
+
+	const knownPaths = new Set([...manifestByPath.keys(), ...indexedPaths]);
+	for (const path of knownPaths) {
+		if (!vaultPaths.has(path)) {
+			plan.toDelete.push(path);
+		}
+	}
+	return plan;
+}
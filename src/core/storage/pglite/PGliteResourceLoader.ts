@@ -0,0 +1,108 @@
+import { App, normalizePath, requestUrl, type PluginManifest } from "obsidian";
+import { LoggerService } from "../../../shared/services/LoggerService";
+import {
+	getPGliteResourceCdnUrl,
+	PGLITE_PLUGIN_RESOURCE_DIR,
+	PGLITE_RESOURCE_FILES,
+	PGliteResourceError,
+	verifyPGliteResource,
+	type PGliteResourceName,
+	type PGliteResourceSource,
+} from "./pgliteResources";
+
+export class PGliteResourceLoader {
+	constructor(
+		private app: App,
+		private logger: LoggerService | null,
+		private manifest: PluginManifest
+	) {}
+
+	getPluginResourceDir(): string {
+		const pluginDir =
+			this.manifest.dir ??
+			`${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		return normalizePath(`${pluginDir}/${PGLITE_PLUGIN_RESOURCE_DIR}`);
+	}
+
+	// cdn の場合は undefined を返し、Worker 側でダウンロードさせる
+	async loadResources(
+		source: PGliteResourceSource,
+		folderPath: string
+	): Promise<Partial<Record<PGliteResourceName, ArrayBuffer>> | undefined> {
+		if (source === "cdn") {
+			return undefined;
+		}
+
+		const root =
+			source === "plugin"
+				? this.getPluginResourceDir()
+				: normalizePath(folderPath.trim());
+		if (source === "folder" && !folderPath.trim()) {
+			throw new PGliteResourceError(
+				"PGlite resource folder is not set. Set it in the plugin settings.",
+				"pglite-resource-missing"
+			);
+		}
+
+		const adapter = this.app.vault.adapter;
+		const missingFiles: string[] = [];
+		const resources: Partial<Record<PGliteResourceName, ArrayBuffer>> = {};
+		for (const file of PGLITE_RESOURCE_FILES) {
+			const fullPath = normalizePath(`${root}/${file.fileName}`);
+			if (!(await adapter.exists(fullPath))) {
+				missingFiles.push(file.fileName);
+				continue;
+			}
+			resources[file.name] = await adapter.readBinary(fullPath);
+			this.logger?.verbose_log(`Loaded PGlite resource ${fullPath}.`);
+		}
+
+		// ストアからのインストールではリソースが同梱されないため、Worker 側で CDN から取得して検証する
+		if (missingFiles.length > 0 && source === "plugin") {
+			this.logger?.warn(
+				`PGlite resources not found in "${root}" (${missingFiles.join(
+					", "
+				)}). Falling back to the CDN.`
+			);
+			return undefined;
+		}
+		if (missingFiles.length > 0) {
+			throw new PGliteResourceError(
+				`PGlite resources not found in "${root}": ${missingFiles.join(
+					", "
+				)}`,
+				"pglite-resource-missing"
+			);
+		}
+		return resources;
+	}
+
+	// CDN から取得したファイルを検証してからプラグインフォルダへ保存する
+	async downloadToPluginFolder(): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		const root = this.getPluginResourceDir();
+		if (!(await adapter.exists(root))) {
+			await adapter.mkdir(root);
+		}
+
+		for (const file of PGLITE_RESOURCE_FILES) {
+			const url = getPGliteResourceCdnUrl(file);
+			this.logger?.log(`Downloading PGlite resource from ${url}...`);
+			let data: ArrayBuffer;
+			try {
+				data = (await requestUrl({ url })).arrayBuffer;
+			} catch (error: any) {
+				throw new PGliteResourceError(
+					`Failed to download ${file.fileName} from ${url}: ${error.message}`,
+					"pglite-resource-download-failed"
+				);
+			}
+			await verifyPGliteResource(file, data);
+			await adapter.writeBinary(
+				normalizePath(`${root}/${file.fileName}`),
+				data
+			);
+		}
+		this.logger?.log(`PGlite resources saved to ${root}.`);
+	}
+}
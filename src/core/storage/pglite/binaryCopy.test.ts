@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import {
+	decodeHalfvecBinary,
+	encodeCopyBinary,
+	formatVectorLiteral,
+} from "./binaryCopy";
+import {
+	float16BitsToFloat32,
+	float32ToFloat16Bits,
+} from "../../../shared/utils/float16";
+
+describe("binaryCopy", () => {
+	describe("float16 変換", () => {
+		it("表現可能な値はそのまま往復する", () => {
+			for (const value of [0, 1, -2, 0.5, 0.099975586, 65504, -65504]) {
+				expect(float16BitsToFloat32(float32ToFloat16Bits(value))).toBe(
+					Math.fround(value)
+				);
+			}
+		});
+
+		it("最近接偶数に丸める", () => {
+			// 1 と 1 + 2^-10 のちょうど中間は偶数側 (1) に丸める
+			expect(float32ToFloat16Bits(1 + Math.pow(2, -11))).toBe(0x3c00);
+			expect(float32ToFloat16Bits(1 + 3 * Math.pow(2, -11))).toBe(0x3c02);
+		});
+
+		it("範囲外の値と非正規化数を扱う", () => {
+			expect(float32ToFloat16Bits(1e6)).toBe(0x7c00);
+			expect(float32ToFloat16Bits(-1e6)).toBe(0xfc00);
+			expect(float32ToFloat16Bits(Math.pow(2, -24))).toBe(0x0001);
+			expect(float32ToFloat16Bits(1e-10)).toBe(0);
+		});
+	});
+
+	it("halfvec_send の形式を復元する", () => {
+		// dim=3, unused=0, [0.5, 0.25, -1]
+		const bytes = new Uint8Array([0, 3, 0, 0, 56, 0, 52, 0, 188, 0]);
+		expect(Array.from(decodeHalfvecBinary(bytes))).toEqual([0.5, 0.25, -1]);
+	});
+
+	it("COPY BINARY 形式のヘッダ・行・終端を書き出す", () => {
+		const data = encodeCopyBinary(
+			["text", "int4", "int4", "halfvec"],
+			[["あ.md", 7, null, [0.5, 0.25, -1]]]
+		);
+		const view = new DataView(data.buffer);
+
+		expect(new TextDecoder().decode(data.subarray(0, 6))).toBe("PGCOPY");
+		let offset = 19;
+		expect(view.getInt16(offset)).toBe(4);
+		offset += 2;
+		// text (UTF-8)
+		expect(view.getInt32(offset)).toBe(6);
+		expect(
+			new TextDecoder().decode(data.subarray(offset + 4, offset + 10))
+		).toBe("あ.md");
+		offset += 10;
+		// int4
+		expect(view.getInt32(offset)).toBe(4);
+		expect(view.getInt32(offset + 4)).toBe(7);
+		offset += 8;
+		// NULL
+		expect(view.getInt32(offset)).toBe(-1);
+		offset += 4;
+		// halfvec
+		expect(view.getInt32(offset)).toBe(10);
+		expect(
+			Array.from(
+				decodeHalfvecBinary(data.subarray(offset + 4, offset + 14))
+			)
+		).toEqual([0.5, 0.25, -1]);
+		offset += 14;
+		expect(view.getInt16(offset)).toBe(-1);
+		expect(data.length).toBe(offset + 2);
+	});
+
+	it("クエリ用のベクトルリテラルを作る", () => {
+		expect(formatVectorLiteral(new Float32Array([0.5, -1]))).toBe(
+			"[0.5,-1]"
+		);
+	});
+});
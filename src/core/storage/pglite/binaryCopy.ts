@@ -0,0 +1,83 @@
+import {
+	float16BitsToFloat32,
+	float32ToFloat16Bits,
+} from "../../../shared/utils/float16";
+
+// PostgreSQL の COPY BINARY 形式で送るカラムの型
+export type CopyColumnType = "text" | "int4" | "halfvec";
+
+export type CopyValue = string | number | ArrayLike<number> | null;
+
+const COPY_SIGNATURE = [
+	0x50, 0x47, 0x43, 0x4f, 0x50, 0x59, 0x0a, 0xff, 0x0d, 0x0a, 0x00,
+];
+
+// pgvector の halfvec_send と同じ形式 (int16 次元数, int16 未使用, float16 の配列; すべてビッグエンディアン)
+export function decodeHalfvecBinary(bytes: Uint8Array): Float32Array {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const dimensions = view.getInt16(0);
+	const vector = new Float32Array(dimensions);
+	for (let i = 0; i < dimensions; i++) {
+		vector[i] = float16BitsToFloat32(view.getUint16(4 + i * 2));
+	}
+	return vector;
+}
+
+// JSON を経由せずに halfvec のテキスト表現を作る (クエリパラメータ用)
+export function formatVectorLiteral(vector: ArrayLike<number>): string {
+	return `[${Array.prototype.join.call(vector, ",")}]`;
+}
+
+// COPY ... FROM '/dev/blob' WITH (FORMAT binary) に渡すデータを組み立てる
+export function encodeCopyBinary(
+	columnTypes: readonly CopyColumnType[],
+	rows: readonly (readonly CopyValue[])[]
+): Uint8Array {
+	const encoder = new TextEncoder();
+	const encodedRows = rows.map((row) =>
+		columnTypes.map((type, index) => {
+			const value = row[index];
+			if (value === null || value === undefined) return null;
+			if (type === "text") return encoder.encode(String(value));
+			if (type === "int4") {
+				const bytes = new Uint8Array(4);
+				new DataView(bytes.buffer).setInt32(0, value as number);
+				return bytes;
+			}
+			const vector = value as ArrayLike<number>;
+			const bytes = new Uint8Array(4 + vector.length * 2);
+			const view = new DataView(bytes.buffer);
+			view.setInt16(0, vector.length);
+			for (let i = 0; i < vector.length; i++) {
+				view.setUint16(4 + i * 2, float32ToFloat16Bits(vector[i]));
+			}
+			return bytes;
+		})
+	);
+
+	let totalLength = COPY_SIGNATURE.length + 8 + 2;
+	for (const fields of encodedRows) {
+		totalLength += 2;
+		for (const field of fields) totalLength += 4 + (field?.length ?? 0);
+	}
+
+	const output = new Uint8Array(totalLength);
+	const view = new DataView(output.buffer);
+	output.set(COPY_SIGNATURE, 0);
+	// flags と拡張ヘッダ長はどちらも 0
+	let offset = COPY_SIGNATURE.length + 8;
+	for (const fields of encodedRows) {
+		view.setInt16(offset, fields.length);
+		offset += 2;
+		for (const field of fields) {
+			view.setInt32(offset, field ? field.length : -1);
+			offset += 4;
+			if (field) {
+				output.set(field, offset);
+				offset += field.length;
+			}
+		}
+	}
+	view.setInt16(offset, -1);
+	return output;
+}
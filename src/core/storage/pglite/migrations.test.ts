@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import {
+	createHnswIndexSql,
+	createTrigramIndexSql,
+	CURRENT_SCHEMA_VERSION,
+	planSchemaUpgrade,
+	recreateEmbeddingsTable,
+	SCHEMA_MIGRATIONS,
+	type SchemaMeta,
+} from "./migrations";
+import {
+	EMBEDDINGS_TABLE_NAME,
+	NOTE_EMBEDDINGS_TABLE_NAME,
+} from "../../../shared/constants/appConstants";
+
+const target = { modelId: "model-a", dimensions: 256, chunkerVersion: 2 };
+
+function meta(overrides: Partial<SchemaMeta> = {}): SchemaMeta {
+	return { schemaVersion: CURRENT_SCHEMA_VERSION, ...target, ...overrides };
+}
+
+describe("planSchemaUpgrade", () => {
+	it("マイグレーションのバージョンは昇順で重複しない", () => {
+		const versions = SCHEMA_MIGRATIONS.map(
+			(migration) => migration.version
+		);
+		expect(versions).toEqual([...new Set(versions)].sort((a, b) => a - b));
+	});
+
+	it("新規の DB ではすべてのマイグレーションを実行する", () => {
+		expect(planSchemaUpgrade(null, target)).toEqual({
+			migrations: SCHEMA_MIGRATIONS.map((migration) => migration.version),
+			resetReason: null,
+		});
+	});
+
+	it("古いスキーマでは未適用のマイグレーションだけを実行する", () => {
+		const plan = planSchemaUpgrade(
+			meta({ schemaVersion: CURRENT_SCHEMA_VERSION - 1 }),
+			target
+		);
+		expect(plan).toEqual({
+			migrations: [CURRENT_SCHEMA_VERSION],
+			resetReason: null,
+		});
+	});
+
+	it("チャンク分割のバージョンの違いではベクトルを破棄しない", () => {
+		expect(
+			planSchemaUpgrade(meta({ chunkerVersion: 1 }), target).resetReason
+		).toBeNull();
+	});
+
+	it("互換性のないベクトルは破棄する", () => {
+		expect(
+			planSchemaUpgrade(meta({ dimensions: 384 }), target).resetReason
+		).toBe("dimensions-changed");
+		expect(
+			planSchemaUpgrade(meta({ modelId: "model-b" }), target).resetReason
+		).toBe("model-changed");
+		expect(
+			planSchemaUpgrade(
+				meta({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 }),
+				target
+			)
+		).toEqual({ migrations: [], resetReason: "newer-schema" });
+	});
+});
+
+describe("recreateEmbeddingsTable", () => {
+	async function recordSql(withIndexes?: boolean): Promise<string[]> {
+		const statements: string[] = [];
+		await recreateEmbeddingsTable(
+			{
+				exec: async (sql: string) => {
+					statements.push(sql);
+					return [];
+				},
+			},
+			256,
+			withIndexes
+		);
+		return statements;
+	}
+
+	it("起動時の破棄では、両方のテーブルの HNSW インデックスを作り直す", async () => {
+		const statements = await recordSql(true);
+		expect(statements).toContain(createHnswIndexSql(EMBEDDINGS_TABLE_NAME));
+		expect(statements).toContain(
+			createHnswIndexSql(NOTE_EMBEDDINGS_TABLE_NAME)
+		);
+		expect(statements).toContain(
+			createTrigramIndexSql(EMBEDDINGS_TABLE_NAME)
+		);
+	});
+
+	it("一括で読み込む再構築では、インデックスを後で作る", async () => {
+		const statements = await recordSql();
+		expect(statements.some((sql) => sql.includes("CREATE INDEX"))).toBe(
+			false
+		);
+	});
+});
@@ -0,0 +1,275 @@
+import type { Transaction } from "@electric-sql/pglite";
+import {
+	EMBEDDING_CACHE_TABLE_NAME,
+	EMBEDDINGS_TABLE_NAME,
+	FILE_MANIFEST_TABLE_NAME,
+	NOTE_EMBEDDINGS_TABLE_NAME,
+	REBUILD_COMPLETED_FILES_TABLE_NAME,
+	REBUILD_STATE_TABLE_NAME,
+} from "../../../shared/constants/appConstants";
+import { quoteIdentifier, SQL_QUERIES } from "./sql-queries";
+
+// schema_meta に記録する、DB の内容がどの条件で作られたか
+export interface SchemaMeta {
+	schemaVersion: number;
+	modelId: string;
+	dimensions: number;
+	chunkerVersion: number;
+}
+
+export type SchemaTarget = Omit<SchemaMeta, "schemaVersion">;
+
+// newer-schema: 新しいバージョンのプラグインで作られた DB, dimensions-changed / model-changed: 既存のベクトルと互換性がない
+export type SchemaResetReason =
+	| "newer-schema"
+	| "dimensions-changed"
+	| "model-changed";
+
+export interface SchemaUpgradePlan {
+	// 実行するマイグレーションのバージョン (昇順)
+	migrations: number[];
+	// 既存のベクトルを破棄する理由。null ならそのまま使える
+	resetReason: SchemaResetReason | null;
+}
+
+export interface SchemaMigrationContext {
+	dimensions: number;
+}
+
+export interface SchemaMigration {
+	version: number;
+	description: string;
+	// 途中で失敗しても再実行できるよう、IF NOT EXISTS などで冪等にする
+	up(tx: Transaction, context: SchemaMigrationContext): Promise<void>;
+}
+
+function createTableSql(template: string, tableName: string): string {
+	return template.replace("$1", quoteIdentifier(tableName));
+}
+
+function createVectorTableSql(
+	template: string,
+	tableName: string,
+	dimensions: number
+): string {
+	return createTableSql(template, tableName).replace(
+		"$2",
+		dimensions.toString()
+	);
+}
+
+export function getHnswIndexName(tableName: string): string {
+	return `${tableName}_hnsw_idx`;
+}
+
+export function createHnswIndexSql(tableName: string): string {
+	return SQL_QUERIES.CREATE_HNSW_INDEX.replace(
+		"$1",
+		quoteIdentifier(getHnswIndexName(tableName))
+	).replace("$2", quoteIdentifier(tableName));
+}
+
+export function getTrigramIndexName(tableName: string): string {
+	return `${tableName}_chunk_text_trgm_idx`;
+}
+
+export function createTrigramIndexSql(tableName: string): string {
+	return SQL_QUERIES.CREATE_TRIGRAM_INDEX.replace(
+		"$1",
+		quoteIdentifier(getTrigramIndexName(tableName))
+	).replace("$2", quoteIdentifier(tableName));
+}
+
+// 指定したファイル (null ならすべて) の重心ベクトルを、保存済みのチャンクのベクトルから作り直す。
+// チャンクが残っていないファイルの行は消える
+export async function refreshNoteEmbeddings(
+	db: Pick<Transaction, "query">,
+	filePaths: string[] | null
+): Promise<void> {
+	const noteTable = quoteIdentifier(NOTE_EMBEDDINGS_TABLE_NAME);
+	await db.query(
+		`DELETE FROM ${noteTable}
+		WHERE $1::text[] IS NULL OR file_path = ANY($1::text[])`,
+		[filePaths]
+	);
+	await db.query(
+		`INSERT INTO ${noteTable} (file_path, chunk_count, embedding)
+		SELECT file_path, count(*), l2_normalize(avg(embedding))
+		FROM ${quoteIdentifier(EMBEDDINGS_TABLE_NAME)}
+		WHERE embedding IS NOT NULL
+			AND ($1::text[] IS NULL OR file_path = ANY($1::text[]))
+		GROUP BY file_path`,
+		[filePaths]
+	);
+}
+
+export const SCHEMA_MIGRATIONS: readonly SchemaMigration[] = [
+	{
+		version: 1,
+		description: "Create the embeddings table",
+		async up(tx, { dimensions }) {
+			await tx.exec(
+				createVectorTableSql(
+					SQL_QUERIES.CREATE_TABLE,
+					EMBEDDINGS_TABLE_NAME,
+					dimensions
+				)
+			);
+		},
+	},
+	{
+		version: 2,
+		description: "Create the rebuild checkpoint tables",
+		async up(tx) {
+			await tx.exec(
+				createTableSql(
+					SQL_QUERIES.CREATE_REBUILD_STATE_TABLE,
+					REBUILD_STATE_TABLE_NAME
+				)
+			);
+			await tx.exec(
+				createTableSql(
+					SQL_QUERIES.CREATE_REBUILD_COMPLETED_FILES_TABLE,
+					REBUILD_COMPLETED_FILES_TABLE_NAME
+				)
+			);
+		},
+	},
+	{
+		version: 3,
+		description: "Create the file manifest table",
+		async up(tx) {
+			await tx.exec(
+				createTableSql(
+					SQL_QUERIES.CREATE_FILE_MANIFEST_TABLE,
+					FILE_MANIFEST_TABLE_NAME
+				)
+			);
+		},
+	},
+	{
+		version: 4,
+		description: "Create the embedding cache table",
+		async up(tx) {
+			await tx.exec(
+				SQL_QUERIES.CREATE_EMBEDDING_CACHE_TABLE.replace(
+					/\$1/g,
+					quoteIdentifier(EMBEDDING_CACHE_TABLE_NAME)
+				).replace(
+					"$2",
+					quoteIdentifier(
+						`${EMBEDDING_CACHE_TABLE_NAME}_last_used_at_idx`
+					)
+				)
+			);
+		},
+	},
+	{
+		version: 5,
+		description: "Add chunk hash, text and metadata columns to embeddings",
+		async up(tx) {
+			await tx.exec(
+				createTableSql(
+					SQL_QUERIES.ADD_EMBEDDINGS_METADATA_COLUMNS,
+					EMBEDDINGS_TABLE_NAME
+				)
+			);
+		},
+	},
+	{
+		version: 6,
+		description: "Add frontmatter properties column to embeddings",
+		async up(tx) {
+			await tx.exec(
+				createTableSql(
+					SQL_QUERIES.ADD_EMBEDDINGS_PROPERTIES_COLUMN,
+					EMBEDDINGS_TABLE_NAME
+				)
+			);
+		},
+	},
+	{
+		version: 7,
+		description: "Create the note embeddings table",
+		async up(tx, { dimensions }) {
+			await tx.exec(
+				createVectorTableSql(
+					SQL_QUERIES.CREATE_NOTE_EMBEDDINGS_TABLE,
+					NOTE_EMBEDDINGS_TABLE_NAME,
+					dimensions
+				)
+			);
+			// 次元数が変わった場合は、この後の破棄でチャンクごと作り直されるため移さない
+			const existing = await tx.query<{ dimensions: number }>(
+				SQL_QUERIES.GET_TABLE_DIMENSIONS,
+				[quoteIdentifier(EMBEDDINGS_TABLE_NAME)]
+			);
+			if (existing.rows[0]?.dimensions === dimensions) {
+				await refreshNoteEmbeddings(tx, null);
+			}
+			await tx.exec(createHnswIndexSql(NOTE_EMBEDDINGS_TABLE_NAME));
+		},
+	},
+	{
+		version: 8,
+		description: "Create the trigram index for keyword search",
+		async up(tx) {
+			await tx.exec(createTrigramIndexSql(EMBEDDINGS_TABLE_NAME));
+		},
+	},
+];
+
+// 既存のベクトルを破棄し、最新のスキーマでテーブルを作り直す。
+// 一括で読み込む再構築では、読み込み後に ensureIndexes で HNSW とトライグラムのインデックスを作る (withIndexes = false)。
+// 少しずつ追加していく場合は空のうちに作っておく
+export async function recreateEmbeddingsTable(
+	db: Pick<Transaction, "exec">,
+	dimensions: number,
+	withIndexes = false
+): Promise<void> {
+	for (const [template, tableName] of [
+		[SQL_QUERIES.CREATE_TABLE, EMBEDDINGS_TABLE_NAME],
+		[SQL_QUERIES.CREATE_NOTE_EMBEDDINGS_TABLE, NOTE_EMBEDDINGS_TABLE_NAME],
+	]) {
+		await db.exec(
+			`DROP TABLE IF EXISTS ${quoteIdentifier(tableName)} CASCADE;`
+		);
+		await db.exec(createVectorTableSql(template, tableName, dimensions));
+		if (withIndexes) {
+			await db.exec(createHnswIndexSql(tableName));
+		}
+	}
+	if (withIndexes) {
+		await db.exec(createTrigramIndexSql(EMBEDDINGS_TABLE_NAME));
+	}
+}
+
+export const CURRENT_SCHEMA_VERSION =
+	SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+// current が null の場合は新規の DB として、すべてのマイグレーションを実行する
+export function planSchemaUpgrade(
+	current: SchemaMeta | null,
+	target: SchemaTarget,
+	migrations: readonly SchemaMigration[] = SCHEMA_MIGRATIONS
+): SchemaUpgradePlan {
+	const currentVersion = current?.schemaVersion ?? 0;
+	const latestVersion = migrations[migrations.length - 1]?.version ?? 0;
+	const plan: SchemaUpgradePlan = {
+		migrations: migrations
+			.filter((migration) => migration.version > currentVersion)
+			.map((migration) => migration.version),
+		resetReason: null,
+	};
+	if (!current) {
+		return plan;
+	}
+	if (currentVersion > latestVersion) {
+		plan.resetReason = "newer-schema";
+	} else if (current.dimensions !== target.dimensions) {
+		plan.resetReason = "dimensions-changed";
+	} else if (current.modelId !== target.modelId) {
+		plan.resetReason = "model-changed";
+	}
+	return plan;
+}
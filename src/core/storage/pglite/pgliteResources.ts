@@ -0,0 +1,87 @@
+import { computeSha256 } from "../../../shared/utils/hashUtils";
+
+export const PGLITE_VERSION = "0.2.14";
+
+export type PGliteResourceName =
+	| "fsBundle"
+	| "wasmModule"
+	| "vectorExtensionBundle"
+	| "trigramExtensionBundle";
+
+export interface PGliteResourceFile {
+	name: PGliteResourceName;
+	fileName: string;
+	sha256: string;
+}
+
+// @electric-sql/pglite@0.2.14 の dist に含まれるファイルのチェックサム
+export const PGLITE_RESOURCE_FILES: readonly PGliteResourceFile[] = [
+	{
+		name: "fsBundle",
+		fileName: "postgres.data",
+		sha256: "1bfac23dfcb9028f8ee6faa6dbd79a3e8a5b476034f72506c712e1313fe382ad",
+	},
+	{
+		name: "wasmModule",
+		fileName: "postgres.wasm",
+		sha256: "aeeb28dc36eb1573a61ea42bd9db90c67056c1081cefda90bb234a172634b12a",
+	},
+	{
+		name: "vectorExtensionBundle",
+		fileName: "vector.tar.gz",
+		sha256: "d181efb58b41dc1d447e3640f4e1d275d5e6a762f392c1bea94551115026fbc3",
+	},
+	{
+		name: "trigramExtensionBundle",
+		fileName: "pg_trgm.tar.gz",
+		sha256: "e2607549838a537f1df3b3ec723b1cd3abf69045eadaedbceaa89131935c9bbd",
+	},
+];
+
+// プラグインフォルダ内でリソースを配置するサブフォルダ
+export const PGLITE_PLUGIN_RESOURCE_DIR = "pglite";
+
+// plugin: プラグインフォルダに同梱されたファイル, folder: ユーザー指定のフォルダ, cdn: unpkg からダウンロード
+export type PGliteResourceSource = "plugin" | "folder" | "cdn";
+
+export type PGliteResourceErrorCode =
+	| "pglite-resource-missing"
+	| "pglite-resource-checksum-mismatch"
+	| "pglite-resource-download-failed";
+
+export class PGliteResourceError extends Error {
+	constructor(
+		message: string,
+		public readonly code: PGliteResourceErrorCode
+	) {
+		super(message);
+		this.name = "PGliteResourceError";
+	}
+}
+
+export function isPGliteResourceErrorCode(
+	code: string | undefined
+): code is PGliteResourceErrorCode {
+	return (
+		code === "pglite-resource-missing" ||
+		code === "pglite-resource-checksum-mismatch" ||
+		code === "pglite-resource-download-failed"
+	);
+}
+
+export function getPGliteResourceCdnUrl(file: PGliteResourceFile): string {
+	return `https://unpkg.com/@electric-sql/pglite@${PGLITE_VERSION}/dist/${file.fileName}`;
+}
+
+export async function verifyPGliteResource(
+	file: PGliteResourceFile,
+	buffer: ArrayBuffer
+): Promise<void> {
+	const actual = await computeSha256(buffer);
+	if (actual !== file.sha256) {
+		throw new PGliteResourceError(
+			`Checksum mismatch for ${file.fileName} (expected ${file.sha256}, got ${actual}). The file is corrupted or belongs to a different PGlite version than ${PGLITE_VERSION}.`,
+			"pglite-resource-checksum-mismatch"
+		);
+	}
+}
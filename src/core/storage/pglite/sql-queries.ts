@@ -1,7 +1,11 @@
 import {
 	HNSW_EF_CONSTRUCTION,
 	HNSW_M,
-} from "src/shared/constants/appConstants";
+} from "../../../shared/constants/appConstants";
+
+export function quoteIdentifier(identifier: string): string {
+	return `"${identifier.replace(/"/g, '""')}"`;
+}
 
 export const SQL_QUERIES = {
 	CHECK_TABLE_EXISTS: `SELECT EXISTS (SELECT FROM pg_tables WHERE tablename = $1)`,
@@ -19,6 +23,8 @@ export const SQL_QUERIES = {
 	GET_TABLE_DIMENSIONS: `SELECT atttypmod as dimensions FROM pg_attribute 
 		WHERE attrelid = $1::regclass AND attname = 'embedding' AND atttypid::regtype::text = 'halfvec'`,
 	CREATE_EXTENSION: `CREATE EXTENSION IF NOT EXISTS vector;`,
+	// キーワード検索で部分一致をインデックスで絞り込むために使う
+	CREATE_TRIGRAM_EXTENSION: `CREATE EXTENSION IF NOT EXISTS pg_trgm;`,
 	CHECK_HALFVEC_TYPE: `SELECT 'halfvec'::regtype;`,
 	DROP_TABLE: `DROP TABLE IF EXISTS $1`,
 	CREATE_TABLE: `
@@ -27,10 +33,89 @@ export const SQL_QUERIES = {
 			file_path TEXT NOT NULL,
 			chunk_offset_start INTEGER,
 			chunk_offset_end INTEGER,
+			chunk_hash TEXT,
+			chunk_text TEXT,
+			heading_path TEXT,
+			tags TEXT[],
+			properties JSONB,
+			file_mtime BIGINT,
 			embedding halfvec($2),
 			UNIQUE (file_path, chunk_offset_start)
 		)
 	`,
+	CREATE_STAGING_TABLE: `
+		CREATE TEMP TABLE IF NOT EXISTS $1 (
+			file_path TEXT NOT NULL,
+			chunk_offset_start INTEGER,
+			chunk_offset_end INTEGER,
+			chunk_hash TEXT,
+			chunk_text TEXT,
+			heading_path TEXT,
+			embedding halfvec
+		) ON COMMIT DELETE ROWS
+	`,
+	ADD_EMBEDDINGS_METADATA_COLUMNS: `
+		ALTER TABLE $1
+			ADD COLUMN IF NOT EXISTS chunk_hash TEXT,
+			ADD COLUMN IF NOT EXISTS chunk_text TEXT,
+			ADD COLUMN IF NOT EXISTS heading_path TEXT,
+			ADD COLUMN IF NOT EXISTS tags TEXT[],
+			ADD COLUMN IF NOT EXISTS file_mtime BIGINT
+	`,
+	ADD_EMBEDDINGS_PROPERTIES_COLUMN: `
+		ALTER TABLE $1 ADD COLUMN IF NOT EXISTS properties JSONB
+	`,
+	CREATE_NOTE_EMBEDDINGS_TABLE: `
+		CREATE TABLE IF NOT EXISTS $1 (
+			file_path TEXT PRIMARY KEY,
+			chunk_count INTEGER NOT NULL,
+			embedding halfvec($2) NOT NULL
+		)
+	`,
+	CREATE_EMBEDDING_CACHE_TABLE: `
+		CREATE TABLE IF NOT EXISTS $1 (
+			model_key TEXT NOT NULL,
+			text_hash TEXT NOT NULL,
+			embedding halfvec NOT NULL,
+			last_used_at BIGINT NOT NULL,
+			PRIMARY KEY (model_key, text_hash)
+		);
+		CREATE INDEX IF NOT EXISTS $2 ON $1 (last_used_at)
+	`,
+	CREATE_SCHEMA_META_TABLE: `
+		CREATE TABLE IF NOT EXISTS $1 (
+			id INTEGER PRIMARY KEY CHECK (id = 1),
+			schema_version INTEGER NOT NULL,
+			model_id TEXT NOT NULL,
+			dimensions INTEGER NOT NULL,
+			chunker_version INTEGER NOT NULL,
+			updated_at BIGINT NOT NULL
+		)
+	`,
+	CREATE_REBUILD_STATE_TABLE: `
+		CREATE TABLE IF NOT EXISTS $1 (
+			id INTEGER PRIMARY KEY CHECK (id = 1),
+			model_id TEXT NOT NULL,
+			started_at BIGINT NOT NULL,
+			next_batch INTEGER NOT NULL DEFAULT 0,
+			total_batches INTEGER NOT NULL DEFAULT 0
+		)
+	`,
+	CREATE_REBUILD_COMPLETED_FILES_TABLE: `
+		CREATE TABLE IF NOT EXISTS $1 (
+			file_path TEXT PRIMARY KEY
+		)
+	`,
+	CREATE_FILE_MANIFEST_TABLE: `
+		CREATE TABLE IF NOT EXISTS $1 (
+			file_path TEXT PRIMARY KEY,
+			mtime BIGINT NOT NULL,
+			size BIGINT NOT NULL,
+			content_hash TEXT NOT NULL,
+			chunker_version TEXT NOT NULL,
+			model_version TEXT NOT NULL
+		)
+	`,
 	CREATE_HNSW_INDEX: `
 		CREATE INDEX IF NOT EXISTS $1
 		ON $2 USING hnsw (embedding halfvec_cosine_ops)
@@ -39,4 +124,9 @@ export const SQL_QUERIES = {
 			ef_construction = ${HNSW_EF_CONSTRUCTION}
 		)
 	`,
+	// キーワード検索は小文字にしたテキストへの部分一致 (LIKE) で絞り込む
+	CREATE_TRIGRAM_INDEX: `
+		CREATE INDEX IF NOT EXISTS $1
+		ON $2 USING gin (lower(chunk_text) gin_trgm_ops)
+	`,
 };
@@ -1,8 +1,15 @@
+import type { RankFusionOptions, SearchMode } from "../search/hybridSearch";
+import type { DiversityOptions } from "../search/mmr";
+import type { NoteResult } from "../search/noteAggregation";
+
 export interface VectorItem {
 	filePath: string;
 	chunkOffsetStart: number;
 	chunkOffsetEnd: number;
-	vector: number[];
+	chunkHash: string;
+	chunkText: string | null;
+	headingPath: string | null;
+	vector: Float32Array;
 }
 
 export interface SimilarityResultItem {
@@ -10,7 +17,29 @@ export interface SimilarityResultItem {
 	file_path: string;
 	chunk_offset_start: number | null;
 	chunk_offset_end: number | null;
+	// インデックス作成時点のチャンクのテキスト (列の追加前に保存された行では null)
 	chunk: string | null;
+	heading_path: string | null;
+	tags: string[] | null;
+	file_mtime: number | null;
+	distance: number;
+}
+
+// チャンクのスコアをノートごとに集約した結果
+export type NoteSimilarityResult = NoteResult<SimilarityResultItem>;
+
+// カーソル位置のセクションを探すための、保存済みのチャンクの位置
+export interface ChunkSpan {
+	id: number;
+	chunk_offset_start: number | null;
+	chunk_offset_end: number | null;
+	heading_path: string | null;
+}
+
+// ノートの重心ベクトル同士の近傍
+export interface NoteVectorResultItem {
+	file_path: string;
+	chunk_count: number;
 	distance: number;
 }
 
@@ -18,11 +47,95 @@ export interface SearchOptions {
 	efSearch?: number;
 	limit?: number;
 	excludeFilePaths?: string[];
+	filters?: SearchFilters;
+	// 未指定の場合は semantic
+	mode?: SearchMode;
+	fusion?: RankFusionOptions;
+	// 似たチャンクや同じファイルのチャンクが結果を占めないように並べ替える
+	diversity?: DiversityOptions;
+}
+
+// 検索ベクトルは正の節の重み付き和から負の節の重み付き和を引いて作る
+export interface SearchQuery {
+	positive: QueryClause[];
+	negative: QueryClause[];
+}
+
+export interface QueryClause {
+	text: string;
+	weight: number;
+	// 引用符で囲まれた語句。キーワード検索では分割せずに照合する
+	phrase: boolean;
+}
+
+// 指定した条件をすべて満たすチャンクだけを検索する
+export interface SearchFilters {
+	// いずれかのフォルダ (サブフォルダを含む) にあるファイル
+	includeFolders?: string[];
+	excludeFolders?: string[];
+	// いずれかのタグ (ネストしたタグを含む) を持つファイル。# の有無や大文字小文字は問わない
+	includeTags?: string[];
+	excludeTags?: string[];
+	properties?: PropertyFilter[];
+	// ファイルの更新日時 (エポックミリ秒)。modifiedBefore は含まない
+	modifiedAfter?: number;
+	modifiedBefore?: number;
+}
+
+// value を省略した場合はプロパティの有無で絞り込む
+export interface PropertyFilter {
+	key: string;
+	value?: string;
+	exclude?: boolean;
+}
+
+// 全体の再構築で、あるバッチの取り込みと同時に記録する進捗
+export interface RebuildBatchCheckpoint {
+	// このバッチで処理が完了するファイル (チャンクのない空ファイルも含む)
+	filePaths: string[];
+	batchIndex: number;
+	totalBatches: number;
+}
+
+// 中断された再構築の状態
+export interface RebuildCheckpoint {
+	modelId: string;
+	startedAt: number;
+	nextBatch: number;
+	totalBatches: number;
+	completedFilePaths: string[];
+}
+
+// インデックス済みのファイルの状態。起動時に Vault と照合して古いファイルを見つける
+export interface FileManifestEntry {
+	filePath: string;
+	mtime: number;
+	size: number;
+	contentHash: string;
+	chunkerVersion: string;
+	modelVersion: string;
+}
+
+export interface EmbeddingCacheStats {
+	entries: number;
+	sizeBytes: number;
+	maxSizeBytes: number;
+	// Worker の起動以降の件数
+	hits: number;
+	misses: number;
 }
 
 export interface ChunkInfo {
 	filePath: string;
 	chunkOffsetStart: number;
 	chunkOffsetEnd: number;
+	// ベクトル化するテキスト (見出しの除去などの前処理後)
 	text: string;
+	// ファイル上のテキストそのもの。プレビューと位置の再特定に使う
+	sourceText?: string | null;
+	headingPath?: string | null;
+	tags?: string[];
+	// フロントマターのプロパティ (キーは小文字)
+	properties?: Record<string, unknown> | null;
+	fileMtime?: number;
 }
@@ -47,28 +47,135 @@ import type {
 	TensorType,
 } from "../../shared/types/huggingface";
 import {
-	EMBEDDINGS_DIMENSIONS,
 	DB_NAME,
+	EMBEDDING_CACHE_TABLE_NAME,
+	EMBEDDINGS_STAGING_TABLE_NAME,
 	EMBEDDINGS_TABLE_NAME,
+	FILE_MANIFEST_TABLE_NAME,
+	NOTE_EMBEDDINGS_TABLE_NAME,
+	REBUILD_COMPLETED_FILES_TABLE_NAME,
+	REBUILD_STATE_TABLE_NAME,
 } from "../../shared/constants/appConstants";
 import type {
+	EmbeddingCacheSettings,
+	VectorizeAndStoreResponse,
+	WorkerInitializeSettings,
 	WorkerRequest,
 	WorkerResponse,
 } from "../../shared/types/integrated-worker";
+import {
+	getEmbeddingModel,
+	getOnnxModelFileName,
+	LOCAL_MODEL_REPO_ID,
+	supportsStaticInference,
+	type EmbeddingModelDefinition,
+} from "../embedding/modelRegistry";
+import { extractEmbeddingMatrix } from "../embedding/onnxEmbeddingMatrix";
+import { StaticEmbeddingEngine } from "../embedding/StaticEmbeddingEngine";
+import {
+	decodeHalfvecBinary,
+	encodeCopyBinary,
+	formatVectorLiteral,
+	type CopyColumnType,
+} from "../storage/pglite/binaryCopy";
+import {
+	computeChunkHash,
+	diffChunks,
+	type MatchedChunk,
+	type StoredChunk,
+} from "../storage/chunkDiff";
+import {
+	EMBEDDING_CACHE_ENTRY_OVERHEAD_BYTES,
+	estimateEmbeddingCacheEntryBytes,
+} from "../storage/embeddingCache";
+import {
+	DEFAULT_RANK_FUSION_OPTIONS,
+	extractKeywordTerms,
+	fuseRankings,
+	normalizeScores,
+	type KeywordTerm,
+	type ScoredCandidate,
+} from "../search/hybridSearch";
+import {
+	aggregateByNote,
+	type NoteAggregationOptions,
+} from "../search/noteAggregation";
+import {
+	needsDiversification,
+	selectDiverse,
+	type DiversityOptions,
+} from "../search/mmr";
+import { buildSearchFilterSql } from "../search/searchFilters";
+import {
+	collectDuplicatePairs,
+	type DuplicateCandidate,
+	type DuplicateKind,
+	type DuplicatePair,
+	type DuplicateSide,
+} from "../search/duplicates";
+import {
+	countTerms,
+	kMeans,
+	resolveClusterCount,
+	selectClusterKeywords,
+	sortClusters,
+	type NoteCluster,
+} from "../search/clustering";
+import { packVectors, unpackVectors } from "../../shared/utils/vectorUtils";
+import {
+	REQUEST_CANCELLED_ERROR_CODE,
+	WorkerRequestCancelledError,
+} from "./workerErrors";
+import { RequestScheduler, type RequestPriority } from "./requestScheduler";
 import type {
 	VectorItem,
 	SearchOptions,
+	SearchQuery,
+	NoteSimilarityResult,
+	NoteVectorResultItem,
 	ChunkInfo,
+	ChunkSpan,
+	EmbeddingCacheStats,
+	FileManifestEntry,
+	RebuildBatchCheckpoint,
+	RebuildCheckpoint,
 	SimilarityResultItem,
 } from "../../core/storage/types";
 
-import { HNSW_EF_SEARCH } from "../../shared/constants/appConstants";
+import {
+	HNSW_EF_SEARCH,
+	MAX_HNSW_EF_SEARCH,
+	INDEX_CHUNKER_VERSION,
+	SCHEMA_META_TABLE_NAME,
+} from "../../shared/constants/appConstants";
 
 // PGlite関連のインポート
 import { PGlite, type Transaction } from "@electric-sql/pglite";
 import { IdbFs } from "@electric-sql/pglite";
 import { type IDBPDatabase, openDB } from "idb";
-import { SQL_QUERIES } from "../storage/pglite/sql-queries";
+import { quoteIdentifier, SQL_QUERIES } from "../storage/pglite/sql-queries";
+import {
+	createHnswIndexSql,
+	createTrigramIndexSql,
+	CURRENT_SCHEMA_VERSION,
+	getHnswIndexName,
+	getTrigramIndexName,
+	planSchemaUpgrade,
+	recreateEmbeddingsTable,
+	refreshNoteEmbeddings,
+	SCHEMA_MIGRATIONS,
+	type SchemaMeta,
+	type SchemaResetReason,
+} from "../storage/pglite/migrations";
+import {
+	getPGliteResourceCdnUrl,
+	PGLITE_RESOURCE_FILES,
+	PGLITE_VERSION,
+	PGliteResourceError,
+	verifyPGliteResource,
+	type PGliteResourceFile,
+	type PGliteResourceName,
+} from "../storage/pglite/pgliteResources";
 
 function nmtNormalize(text: string): string {
 	let normalizedText = text;
@@ -105,8 +212,10 @@ function nmtNormalize(text: string): string {
 	return normalizedText;
 }
 
+// ローカルモデルのファイルを transformers.js に見せるための仮想パス
+const LOCAL_MODEL_BASE_PATH = "/local-models/";
+
 // PGlite関連の定数
-const PGLITE_VERSION = "0.2.14";
 const IDB_NAME_RESOURCES = "pglite-resources-cache";
 const IDB_STORE_NAME_RESOURCES = "resources";
 
@@ -131,53 +240,66 @@ function postLogMessage(
 
 // --- 状態管理 ---
 let model: PreTrainedModelType | null = null;
+let staticEngine: StaticEmbeddingEngine | null = null;
 let tokenizer: PreTrainedTokenizerType | null = null;
 let Tensor: typeof import("@huggingface/transformers").Tensor | null = null;
 let pgliteInstance: PGlite | null = null;
-let vectorExtensionBundleURL: URL | null = null;
+let activeModel: EmbeddingModelDefinition = getEmbeddingModel(undefined);
+// PGlite に渡した拡張機能の Blob URL。DB を閉じるときに解放する
+let extensionBundleURLs: URL[] = [];
 let isInitialized = false;
 let isInitializing = false;
 let isDbInitialized = false;
+// schema_meta と埋め込みキャッシュで、DB の内容を作成したモデル設定を区別する値
+let indexModelVersion = "";
+// 初期化時に互換性のないベクトルを破棄した場合の理由
+let schemaResetReason: SchemaResetReason | null = null;
+let embeddingCacheSettings: EmbeddingCacheSettings | null = null;
+// 上限の確認を毎回テーブル全体の集計で行わないよう、保存した分を加算して見積もる
+let embeddingCacheEstimatedBytes = 0;
+const embeddingCacheCounters = { hits: 0, misses: 0 };
+
+// 処理中のリクエストと、キャンセルが要求されたリクエスト
+const activeRequestIds = new Set<string>();
+const cancelledRequestIds = new Set<string>();
+
+const requestScheduler = new RequestScheduler();
+
+// バッチの区切りなど、安全に中断できる地点で呼び出す
+function throwIfCancelled(requestId: string, requestType: string): void {
+	if (cancelledRequestIds.has(requestId)) {
+		throw new WorkerRequestCancelledError(requestType);
+	}
+}
 
-async function getPGliteResources(): Promise<{
+async function getPGliteResources(
+	localResources?: Partial<Record<PGliteResourceName, ArrayBuffer>>
+): Promise<{
 	fsBundle: Blob;
 	wasmModule: WebAssembly.Module;
 	vectorExtensionBundlePath: URL;
+	trigramExtensionBundlePath: URL;
 }> {
-	const resourceCacheKeys = {
-		fsBundle: `pglite-${PGLITE_VERSION}-postgres.data`,
-		wasmModule: `pglite-${PGLITE_VERSION}-postgres.wasm`,
-		vectorExtensionBundle: `pglite-${PGLITE_VERSION}-vector.tar.gz`,
-	};
-
-	const resources = {
-		fsBundle: {
-			url: `https://unpkg.com/@electric-sql/pglite@${PGLITE_VERSION}/dist/postgres.data`,
-			key: resourceCacheKeys.fsBundle,
-			type: "application/octet-stream",
-			process: async (buffer: ArrayBuffer) =>
-				new Blob([buffer], { type: "application/octet-stream" }),
+	const processors: Record<
+		PGliteResourceName,
+		(buffer: ArrayBuffer) => Promise<any>
+	> = {
+		fsBundle: async (buffer: ArrayBuffer) =>
+			new Blob([buffer], { type: "application/octet-stream" }),
+		wasmModule: async (buffer: ArrayBuffer) => {
+			const wasmBytes = new Uint8Array(buffer);
+			if (!WebAssembly.validate(wasmBytes)) {
+				throw new Error("Invalid WebAssembly module data.");
+			}
+			return WebAssembly.compile(wasmBytes);
 		},
-		wasmModule: {
-			url: `https://unpkg.com/@electric-sql/pglite@${PGLITE_VERSION}/dist/postgres.wasm`,
-			key: resourceCacheKeys.wasmModule,
-			type: "application/wasm",
-			process: async (buffer: ArrayBuffer) => {
-				const wasmBytes = new Uint8Array(buffer);
-				if (!WebAssembly.validate(wasmBytes)) {
-					throw new Error("Invalid WebAssembly module data.");
-				}
-				return WebAssembly.compile(wasmBytes);
-			},
+		vectorExtensionBundle: async (buffer: ArrayBuffer) => {
+			const blob = new Blob([buffer], { type: "application/gzip" });
+			return new URL(URL.createObjectURL(blob));
 		},
-		vectorExtensionBundle: {
-			url: `https://unpkg.com/@electric-sql/pglite@${PGLITE_VERSION}/dist/vector.tar.gz`,
-			key: resourceCacheKeys.vectorExtensionBundle,
-			type: "application/gzip",
-			process: async (buffer: ArrayBuffer) => {
-				const blob = new Blob([buffer], { type: "application/gzip" });
-				return new URL(URL.createObjectURL(blob));
-			},
+		trigramExtensionBundle: async (buffer: ArrayBuffer) => {
+			const blob = new Blob([buffer], { type: "application/gzip" });
+			return new URL(URL.createObjectURL(blob));
 		},
 	};
 
@@ -185,88 +307,51 @@ async function getPGliteResources(): Promise<{
 	let db: IDBPDatabase | undefined;
 
 	try {
-		postLogMessage("verbose", `Opening IndexedDB: ${IDB_NAME_RESOURCES}`);
-		db = await openDB(IDB_NAME_RESOURCES, 1, {
-			upgrade(db) {
-				if (!db.objectStoreNames.contains(IDB_STORE_NAME_RESOURCES)) {
-					postLogMessage(
-						"verbose",
-						`Creating object store: ${IDB_STORE_NAME_RESOURCES}`
-					);
-					db.createObjectStore(IDB_STORE_NAME_RESOURCES);
-				}
-			},
-		});
-		postLogMessage("verbose", `IndexedDB opened successfully.`);
+		if (!localResources) {
+			postLogMessage(
+				"verbose",
+				`Opening IndexedDB: ${IDB_NAME_RESOURCES}`
+			);
+			db = await openDB(IDB_NAME_RESOURCES, 1, {
+				upgrade(db) {
+					if (
+						!db.objectStoreNames.contains(IDB_STORE_NAME_RESOURCES)
+					) {
+						postLogMessage(
+							"verbose",
+							`Creating object store: ${IDB_STORE_NAME_RESOURCES}`
+						);
+						db.createObjectStore(IDB_STORE_NAME_RESOURCES);
+					}
+				},
+			});
+			postLogMessage("verbose", `IndexedDB opened successfully.`);
+		}
 
-		for (const [resourceName, resourceInfo] of Object.entries(resources)) {
+		for (const resourceFile of PGLITE_RESOURCE_FILES) {
+			const resourceName = resourceFile.name;
 			postLogMessage(
 				"info",
 				`Loading PGlite resource: ${resourceName}...`
 			);
 			try {
-				let cachedData: ArrayBuffer | undefined = await db.get(
-					IDB_STORE_NAME_RESOURCES,
-					resourceInfo.key
-				);
-
-				if (cachedData) {
-					postLogMessage(
-						"verbose",
-						`${resourceName} found in cache (${(
-							cachedData.byteLength /
-							1024 /
-							1024
-						).toFixed(2)} MB).`
-					);
-				} else {
-					postLogMessage(
-						"info",
-						`${resourceName} not in cache, downloading from ${
-							(resourceInfo as any).url
-						}...`
-					);
-					const fetchStartTime = performance.now();
-					const response = await fetch((resourceInfo as any).url);
-					if (!response.ok) {
-						throw new Error(
-							`Failed to download ${resourceName}: HTTP ${response.status} ${response.statusText}`
-						);
-					}
-					cachedData = await response.arrayBuffer();
-					const fetchDuration = (
-						(performance.now() - fetchStartTime) /
-						1000
-					).toFixed(2);
-					postLogMessage(
-						"verbose",
-						`${resourceName} downloaded in ${fetchDuration}s (${(
-							cachedData.byteLength /
-							1024 /
-							1024
-						).toFixed(2)} MB). Caching...`
-					);
-					const cacheStartTime = performance.now();
-					await db.put(
-						IDB_STORE_NAME_RESOURCES,
-						cachedData,
-						resourceInfo.key
-					);
-					const cacheDuration = (
-						(performance.now() - cacheStartTime) /
-						1000
-					).toFixed(2);
-					postLogMessage(
-						"verbose",
-						`${resourceName} cached in ${cacheDuration}s.`
+				const data = db
+					? await loadPGliteResourceFromCdn(db, resourceFile)
+					: localResources?.[resourceName];
+				if (!data) {
+					throw new PGliteResourceError(
+						`PGlite resource ${resourceFile.fileName} was not provided.`,
+						"pglite-resource-missing"
 					);
 				}
+				// ローカルのファイルも CDN のファイルも、使用前に必ず検証する
+				await verifyPGliteResource(resourceFile, data);
 
 				try {
 					postLogMessage("verbose", `Processing ${resourceName}...`);
-					loadedResources[resourceName] = await (
-						resourceInfo as any
-					).process(cachedData);
+					loadedResources[resourceName] = await processors[
+						resourceName
+					](data);
 					postLogMessage(
 						"verbose",
 						`${resourceName} processed successfully.`
@@ -291,7 +376,7 @@ async function getPGliteResources(): Promise<{
 					{
 						message: resourceError.message,
 						stack: resourceError.stack,
-						key: (resourceInfo as any).key,
+						fileName: resourceFile.fileName,
 					}
 				);
 				throw resourceError;
@@ -314,14 +399,201 @@ async function getPGliteResources(): Promise<{
 		fsBundle: loadedResources.fsBundle,
 		wasmModule: loadedResources.wasmModule,
 		vectorExtensionBundlePath: loadedResources.vectorExtensionBundle,
+		trigramExtensionBundlePath: loadedResources.trigramExtensionBundle,
+	};
+}
+
+async function loadPGliteResourceFromCdn(
+	db: IDBPDatabase,
+	resourceFile: PGliteResourceFile
+): Promise<ArrayBuffer> {
+	const cacheKey = `pglite-${PGLITE_VERSION}-${resourceFile.fileName}`;
+	const cachedData: ArrayBuffer | undefined = await db.get(
+		IDB_STORE_NAME_RESOURCES,
+		cacheKey
+	);
+
+	if (cachedData) {
+		try {
+			await verifyPGliteResource(resourceFile, cachedData);
+			postLogMessage(
+				"verbose",
+				`${resourceFile.fileName} found in cache (${(
+					cachedData.byteLength /
+					1024 /
+					1024
+				).toFixed(2)} MB).`
+			);
+			return cachedData;
+		} catch (verifyError: any) {
+			postLogMessage(
+				"warn",
+				`Cached ${resourceFile.fileName} failed verification. Downloading it again.`,
+				verifyError.message
+			);
+			await db.delete(IDB_STORE_NAME_RESOURCES, cacheKey);
+		}
+	}
+
+	const url = getPGliteResourceCdnUrl(resourceFile);
+	postLogMessage(
+		"info",
+		`${resourceFile.fileName} not in cache, downloading from ${url}...`
+	);
+	const fetchStartTime = performance.now();
+	let downloadedData: ArrayBuffer;
+	try {
+		const response = await fetch(url);
+		if (!response.ok) {
+			throw new Error(`HTTP ${response.status} ${response.statusText}`);
+		}
+		downloadedData = await response.arrayBuffer();
+	} catch (fetchError: any) {
+		throw new PGliteResourceError(
+			`Failed to download ${resourceFile.fileName} from ${url}: ${fetchError.message}`,
+			"pglite-resource-download-failed"
+		);
+	}
+	const fetchDuration = ((performance.now() - fetchStartTime) / 1000).toFixed(
+		2
+	);
+	postLogMessage(
+		"verbose",
+		`${resourceFile.fileName} downloaded in ${fetchDuration}s (${(
+			downloadedData.byteLength /
+			1024 /
+			1024
+		).toFixed(2)} MB). Caching...`
+	);
+
+	// 改ざんされたファイルをキャッシュしないよう、保存前に検証する
+	await verifyPGliteResource(resourceFile, downloadedData);
+	await db.put(IDB_STORE_NAME_RESOURCES, downloadedData, cacheKey);
+	postLogMessage("verbose", `${resourceFile.fileName} cached.`);
+	return downloadedData;
+}
+
+// transformers.js の env をローカルファイルのみ参照するように設定する
+function configureLocalModelSource(
+	transformers: any,
+	files: Record<string, ArrayBuffer>
+): void {
+	const env = transformers.env;
+	env.allowRemoteModels = false;
+	env.allowLocalModels = true;
+	env.useBrowserCache = false;
+	env.localModelPath = LOCAL_MODEL_BASE_PATH;
+
+	const prefix = `${LOCAL_MODEL_BASE_PATH}${LOCAL_MODEL_REPO_ID}/`;
+	env.useCustomCache = true;
+	env.customCache = {
+		match: async (key: string | Request) => {
+			const url = typeof key === "string" ? key : key.url;
+			if (!url.startsWith(prefix)) {
+				return undefined;
+			}
+			const data = files[url.substring(prefix.length)];
+			return data ? new Response(data) : undefined;
+		},
+		put: async () => {},
 	};
+
+	// onnxruntime-web は既定で CDN からランタイムを取得するため、Blob URL に差し替える
+	const runtimeMjs = files["ort-wasm-simd-threaded.jsep.mjs"];
+	const runtimeWasm = files["ort-wasm-simd-threaded.jsep.wasm"];
+	if (runtimeMjs && runtimeWasm && env.backends?.onnx?.wasm) {
+		const mjsURL = URL.createObjectURL(
+			new Blob([runtimeMjs], { type: "text/javascript" })
+		);
+		const wasmURL = URL.createObjectURL(
+			new Blob([runtimeWasm], { type: "application/wasm" })
+		);
+		env.backends.onnx.wasm.wasmPaths = { mjs: mjsURL, wasm: wasmURL };
+	}
+
+	postLogMessage(
+		"info",
+		`Using local model files (${
+			Object.keys(files).length
+		} files). Remote model downloads are disabled.`
+	);
+}
+
+// StaticEmbedding の ONNX ファイルから埋め込み行列だけを読み込む
+async function loadStaticEmbeddingEngine(
+	transformers: any,
+	modelName: string,
+	localFiles?: Record<string, ArrayBuffer>
+): Promise<StaticEmbeddingEngine> {
+	const fileName = getOnnxModelFileName(activeModel.dtype);
+	const buffer = localFiles
+		? localFiles[fileName]
+		: await fetchRemoteModelFile(transformers.env, modelName, fileName);
+	if (!buffer) {
+		throw new Error(`Model file ${fileName} not found for ${modelName}.`);
+	}
+	const matrix = extractEmbeddingMatrix(buffer, activeModel.dimensions);
+	postLogMessage(
+		"verbose",
+		`Static embedding matrix: ${matrix.vocabSize} tokens x ${matrix.dimensions} dimensions.`
+	);
+	return new StaticEmbeddingEngine(matrix);
+}
+
+// transformers.js と同じキャッシュを使い、ONNX エンジンとダウンロード済みファイルを共有する
+async function fetchRemoteModelFile(
+	env: any,
+	modelName: string,
+	fileName: string
+): Promise<ArrayBuffer> {
+	const url = `${env.remoteHost}${env.remotePathTemplate
+		.replace("{model}", modelName)
+		.replace("{revision}", "main")}${fileName}`;
+	const cache =
+		env.useBrowserCache && typeof caches !== "undefined"
+			? await caches.open("transformers-cache")
+			: null;
+
+	const cached = await cache?.match(url);
+	if (cached) {
+		postLogMessage("verbose", `${fileName} found in cache.`);
+		return cached.arrayBuffer();
+	}
+
+	postLogMessage("info", `Downloading ${url}...`);
+	const response = await fetch(url);
+	if (!response.ok) {
+		throw new Error(
+			`Failed to download ${url}: HTTP ${response.status} ${response.statusText}`
+		);
+	}
+	await cache?.put(url, response.clone());
+	return response.arrayBuffer();
 }
 
-function quoteIdentifier(identifier: string): string {
-	return `"${identifier.replace(/"/g, '""')}"`;
+async function getExistingTableDimensions(
+	tableName: string
+): Promise<number | null> {
+	if (!pgliteInstance) {
+		throw new Error("PGlite instance is not initialized.");
+	}
+	const existsResult = await pgliteInstance.query<{ exists: boolean }>(
+		SQL_QUERIES.CHECK_TABLE_EXISTS,
+		[tableName]
+	);
+	if (!existsResult.rows[0]?.exists) {
+		return null;
+	}
+	const dimResult = await pgliteInstance.query<{ dimensions: number }>(
+		SQL_QUERIES.GET_TABLE_DIMENSIONS,
+		[quoteIdentifier(tableName)]
+	);
+	return dimResult.rows[0]?.dimensions ?? null;
 }
 
-async function initialize(): Promise<boolean> {
+async function initialize(
+	settings?: WorkerInitializeSettings
+): Promise<boolean> {
 	if (isInitialized || isInitializing) {
 		postLogMessage(
 			"info",
@@ -397,7 +669,34 @@ async function initialize(): Promise<boolean> {
 			throw componentError;
 		}
 
-		const modelName = "cfsdwe/static-embedding-japanese-ONNX-for-js";
+		const localModel = settings?.localModel;
+		activeModel =
+			localModel?.definition ??
+			getEmbeddingModel(settings?.embeddingModelId);
+		const modelName = activeModel.modelId;
+		if (localModel) {
+			configureLocalModelSource(transformers, localModel.files);
+		}
+		// ローカルモデルに config.json が無い場合は StaticEmbedding と同じ設定を使う
+		const modelType =
+			activeModel.modelType ??
+			(localModel && !localModel.files["config.json"]
+				? "bert"
+				: undefined);
+		postLogMessage(
+			"info",
+			`Selected embedding model: ${activeModel.name} (${activeModel.dimensions} dimensions, ${activeModel.pooling} pooling)`
+		);
+
+		const useStaticEngine =
+			settings?.inferenceEngine === "static" &&
+			supportsStaticInference(activeModel);
+		if (settings?.inferenceEngine === "static" && !useStaticEngine) {
+			postLogMessage(
+				"warn",
+				`${activeModel.name} is not a StaticEmbedding model. Falling back to the ONNX inference engine.`
+			);
+		}
 
 		// 進捗コールバック用の状態管理
 		let lastProgressLog = 0;
@@ -405,11 +704,10 @@ async function initialize(): Promise<boolean> {
 		let lastLoggedProgress = 0;
 
 		const modelConfig = {
-			config: {
-				model_type: "bert",
-			},
+			...(modelType ? { config: { model_type: modelType } } : {}),
+			...(localModel ? { local_files_only: true } : {}),
 			device: "wasm",
-			dtype: "q8",
+			dtype: activeModel.dtype,
 			progress_callback: (progress: any) => {
 				// 最初のログと最後のログ、および10%単位での進捗ログのみ送信
 				if (progress.progress === undefined) {
@@ -446,51 +744,70 @@ async function initialize(): Promise<boolean> {
 			},
 		};
 
-		const modelStartTime = performance.now();
-		try {
-			postLogMessage("info", `Loading model: ${modelName}`);
-			postLogMessage(
-				"verbose",
-				`Model config: ${JSON.stringify(modelConfig)}`
+		if (useStaticEngine) {
+			const staticStartTime = performance.now();
+			staticEngine = await loadStaticEmbeddingEngine(
+				transformers,
+				modelName,
+				localModel?.files
 			);
-			model = await AutoModel.from_pretrained(modelName, modelConfig);
-			const modelEndTime = performance.now();
-			const loadDuration = (
-				(modelEndTime - modelStartTime) /
-				1000
-			).toFixed(2);
 			postLogMessage(
 				"info",
-				`Model loaded successfully in ${loadDuration} seconds`
-			);
-			postLogMessage(
-				"verbose",
-				`Model type: ${model?.constructor?.name || "unknown"}`
-			);
-		} catch (modelError: any) {
-			const modelDuration = (
-				(performance.now() - modelStartTime) /
-				1000
-			).toFixed(2);
-			postLogMessage(
-				"error",
-				`Model loading failed after ${modelDuration} seconds:`,
-				{
-					modelName,
-					message: modelError.message,
-					stack: modelError.stack,
-					name: modelError.name,
-					config: modelConfig,
-				}
+				`Static embedding matrix loaded in ${(
+					(performance.now() - staticStartTime) /
+					1000
+				).toFixed(2)} seconds (ONNX runtime is not used).`
 			);
-			throw new Error(`Model loading failed: ${modelError.message}`);
+		} else {
+			const modelStartTime = performance.now();
+			try {
+				postLogMessage("info", `Loading model: ${modelName}`);
+				postLogMessage(
+					"verbose",
+					`Model config: ${JSON.stringify(modelConfig)}`
+				);
+				model = await AutoModel.from_pretrained(modelName, modelConfig);
+				const modelEndTime = performance.now();
+				const loadDuration = (
+					(modelEndTime - modelStartTime) /
+					1000
+				).toFixed(2);
+				postLogMessage(
+					"info",
+					`Model loaded successfully in ${loadDuration} seconds`
+				);
+				postLogMessage(
+					"verbose",
+					`Model type: ${model?.constructor?.name || "unknown"}`
+				);
+			} catch (modelError: any) {
+				const modelDuration = (
+					(performance.now() - modelStartTime) /
+					1000
+				).toFixed(2);
+				postLogMessage(
+					"error",
+					`Model loading failed after ${modelDuration} seconds:`,
+					{
+						modelName,
+						message: modelError.message,
+						stack: modelError.stack,
+						name: modelError.name,
+						config: modelConfig,
+					}
+				);
+				throw new Error(`Model loading failed: ${modelError.message}`);
+			}
 		}
 
 		postLogMessage("info", "Starting tokenizer download/load...");
 		const tokenizerStartTime = performance.now();
 		try {
 			postLogMessage("verbose", `Loading tokenizer: ${modelName}`);
-			tokenizer = await AutoTokenizer.from_pretrained(modelName);
+			tokenizer = await AutoTokenizer.from_pretrained(
+				modelName,
+				localModel ? { local_files_only: true } : undefined
+			);
 			const tokenizerEndTime = performance.now();
 			const tokenizerDuration = (
 				(tokenizerEndTime - tokenizerStartTime) /
@@ -529,19 +846,26 @@ async function initialize(): Promise<boolean> {
 		let resources: any;
 		try {
 			postLogMessage("verbose", "Loading PGlite resources...");
-			resources = await getPGliteResources();
+			resources = await getPGliteResources(settings?.pgliteResources);
 			postLogMessage("verbose", "PGlite resources loaded successfully.");
 		} catch (resourceError: any) {
 			postLogMessage("error", "Failed to load PGlite resources:", {
 				message: resourceError.message,
 				stack: resourceError.stack,
 			});
+			// 修正手段を提示できるよう、コード付きのエラーはそのまま呼び出し元へ伝える
+			if (resourceError instanceof PGliteResourceError) {
+				throw resourceError;
+			}
 			throw new Error(
 				`PGlite resource loading failed: ${resourceError.message}`
 			);
 		}
 
-		vectorExtensionBundleURL = resources.vectorExtensionBundlePath;
+		extensionBundleURLs = [
+			resources.vectorExtensionBundlePath,
+			resources.trigramExtensionBundlePath,
+		];
 
 		const dbPath = `idb://${DB_NAME}`;
 		postLogMessage("info", `Creating PGlite instance for ${dbPath}`);
@@ -571,6 +895,7 @@ async function initialize(): Promise<boolean> {
 				wasmModule: resources.wasmModule,
 				extensions: {
 					vector: resources.vectorExtensionBundlePath,
+					pg_trgm: resources.trigramExtensionBundlePath,
 				},
 			})) as PGlite;
 			const pgLiteCreateDuration = (
@@ -593,7 +918,7 @@ async function initialize(): Promise<boolean> {
 
 		// スキーマ設定
 		const tableName = EMBEDDINGS_TABLE_NAME;
-		const dimensions = EMBEDDINGS_DIMENSIONS;
+		const dimensions = activeModel.dimensions;
 
 		try {
 			postLogMessage("verbose", "Setting database environment...");
@@ -608,41 +933,22 @@ async function initialize(): Promise<boolean> {
 		}
 
 		try {
-			postLogMessage("verbose", "Creating vector extension...");
+			postLogMessage("verbose", "Creating extensions...");
 			await pgliteInstance.exec(SQL_QUERIES.CREATE_EXTENSION);
-			postLogMessage("info", "Vector extension ensured.");
+			await pgliteInstance.exec(SQL_QUERIES.CREATE_TRIGRAM_EXTENSION);
+			postLogMessage("info", "Vector and trigram extensions ensured.");
 		} catch (extError: any) {
-			postLogMessage("error", "Failed to create vector extension:", {
+			postLogMessage("error", "Failed to create extensions:", {
 				message: extError.message,
 				stack: extError.stack,
 			});
 			throw extError;
 		}
 
-		try {
-			postLogMessage(
-				"verbose",
-				`Creating table ${tableName} with ${dimensions} dimensions...`
-			);
-			const createTableSql = SQL_QUERIES.CREATE_TABLE.replace(
-				"$1",
-				quoteIdentifier(tableName)
-			).replace("$2", dimensions.toString());
-			postLogMessage(
-				"verbose",
-				`Table creation SQL: ${createTableSql.substring(0, 100)}...`
-			);
-			await pgliteInstance.exec(createTableSql);
-			postLogMessage("info", `Table ${tableName} ensured.`);
-		} catch (tableError: any) {
-			postLogMessage("error", `Failed to create table ${tableName}:`, {
-				message: tableError.message,
-				stack: tableError.stack,
-				tableName,
-				dimensions,
-			});
-			throw tableError;
-		}
+		// 互換性のないベクトルが混在しないよう、スキーマと作成時のモデルを確認する
+		indexModelVersion = settings?.modelVersion ?? activeModel.id;
+		schemaResetReason = await migrateSchema(indexModelVersion, dimensions);
+		await initializeEmbeddingCache(settings?.embeddingCache);
 
 		isDbInitialized = true;
 
@@ -667,20 +973,9 @@ async function initialize(): Promise<boolean> {
 			"IntegratedWorker initialization failed:",
 			errorDetails
 		);
-		if (vectorExtensionBundleURL) {
-			try {
-				URL.revokeObjectURL(vectorExtensionBundleURL.href);
-				postLogMessage(
-					"info",
-					"Revoked Blob URL for vector extension."
-				);
-			} catch (revokeError: any) {
-				postLogMessage(
-					"warn",
-					"Failed to revoke Blob URL:",
-					revokeError.message
-				);
-			}
+		revokeExtensionBundleURLs();
+		if (error instanceof PGliteResourceError) {
+			throw error;
 		}
 		return false;
 	} finally {
@@ -696,15 +991,31 @@ async function closeDatabase(): Promise<void> {
 		isDbInitialized = false;
 		postLogMessage("info", "PGlite database closed.");
 	}
-	if (vectorExtensionBundleURL) {
-		URL.revokeObjectURL(vectorExtensionBundleURL.href);
-		vectorExtensionBundleURL = null;
-		postLogMessage("info", "Revoked Blob URL for vector extension.");
+	revokeExtensionBundleURLs();
+}
+
+function revokeExtensionBundleURLs(): void {
+	for (const url of extensionBundleURLs) {
+		try {
+			URL.revokeObjectURL(url.href);
+		} catch (revokeError: any) {
+			postLogMessage(
+				"warn",
+				"Failed to revoke Blob URL:",
+				revokeError.message
+			);
+		}
+	}
+	if (extensionBundleURLs.length > 0) {
+		postLogMessage("info", "Revoked Blob URLs for extensions.");
 	}
+	extensionBundleURLs = [];
 }
 
-async function vectorizeSentences(sentences: string[]): Promise<number[][]> {
-	if (!isInitialized || !model || !tokenizer || !Tensor) {
+async function vectorizeSentences(
+	sentences: string[]
+): Promise<Float32Array[]> {
+	if (!isInitialized || (!model && !staticEngine) || !tokenizer || !Tensor) {
 		throw new Error(
 			"Worker is not initialized or model/tokenizer/Tensor is missing."
 		);
@@ -713,6 +1024,23 @@ async function vectorizeSentences(sentences: string[]): Promise<number[][]> {
 	try {
 		// nmt normalize を適用
 		sentences = sentences.map((s) => nmtNormalize(s));
+
+		if (staticEngine) {
+			// パディングせずにトークン化し、文ごとに平均を取る
+			const encoded = tokenizer(sentences, {
+				padding: false,
+				truncation: true,
+				return_tensor: false,
+			});
+			return staticEngine.embed(
+				encoded.input_ids as number[][],
+				activeModel.dimensions
+			);
+		}
+
+		if (!model) {
+			throw new Error("ONNX model is not loaded.");
+		}
 		const inputs = tokenizer(sentences, {
 			padding: true,
 			truncation: true,
@@ -721,12 +1049,23 @@ async function vectorizeSentences(sentences: string[]): Promise<number[][]> {
 		const outputs = await model(inputs);
 		let embeddingTensor: TensorType;
 
-		if (outputs.sentence_embedding instanceof Tensor) {
+		const pooling = activeModel.pooling;
+		if (
+			pooling === "sentence_embedding" &&
+			outputs.sentence_embedding instanceof Tensor
+		) {
 			// sentence_embedding の場合
 			postLogMessage("verbose", "Using sentence_embedding");
 			embeddingTensor = outputs.sentence_embedding;
+		} else if (
+			pooling === "cls" &&
+			outputs.last_hidden_state instanceof Tensor
+		) {
+			// 先頭トークン ([CLS]) のベクトルを使う
+			const hidden = outputs.last_hidden_state;
+			embeddingTensor = hidden.slice(null, 0, null);
 		} else if (outputs.last_hidden_state instanceof Tensor) {
-			// last_hidden_state で平均を計算する場合 (sentence_embedding がないモデルの場合) 現状使わない
+			// last_hidden_state で平均を計算する場合 (sentence_embedding がないモデルの場合)
 			const hidden = outputs.last_hidden_state;
 			const mask = new Tensor(inputs.attention_mask).unsqueeze(2);
 			const sum = hidden.mul(mask).sum(1);
@@ -737,22 +1076,33 @@ async function vectorizeSentences(sentences: string[]): Promise<number[][]> {
 			throw new Error("Embedding tensor not found in model output.");
 		}
 
-		let resultVectors = (embeddingTensor.tolist() as number[][]).map(
-			(vec) => {
-				// ベクトルを適切なサイズに切り詰める
-				if (vec.length > EMBEDDINGS_DIMENSIONS) {
-					vec = vec.slice(0, EMBEDDINGS_DIMENSIONS);
-				}
-				const magnitude = Math.sqrt(
-					vec.reduce((sum, val) => sum + val * val, 0)
-				);
-				if (magnitude > 0) {
-					vec = vec.map((val) => val / magnitude);
+		// tolist() で JS 配列に展開せず、Float32Array のまま切り詰めと正規化を行う
+		const [rowCount, hiddenSize] = embeddingTensor.dims as number[];
+		const embeddingData = embeddingTensor.data as Float32Array;
+		const dimensions = Math.min(hiddenSize, activeModel.dimensions);
+		const resultVectors = unpackVectors({
+			data: new Float32Array(rowCount * dimensions),
+			dimensions,
+		});
+		resultVectors.forEach((vec, row) => {
+			// ベクトルを適切なサイズに切り詰める
+			vec.set(
+				embeddingData.subarray(
+					row * hiddenSize,
+					row * hiddenSize + dimensions
+				)
+			);
+			let magnitude = 0;
+			for (let i = 0; i < dimensions; i++) {
+				magnitude += vec[i] * vec[i];
+			}
+			magnitude = Math.sqrt(magnitude);
+			if (magnitude > 0) {
+				for (let i = 0; i < dimensions; i++) {
+					vec[i] /= magnitude;
 				}
-
-				return vec;
 			}
-		);
+		});
 
 		// メモリ解放
 		embeddingTensor.dispose();
@@ -767,7 +1117,7 @@ async function vectorizeSentences(sentences: string[]): Promise<number[][]> {
 }
 
 async function testSelfSimilarity(): Promise<string> {
-	if (!isInitialized || !model || !tokenizer || !Tensor) {
+	if (!isInitialized || (!model && !staticEngine) || !tokenizer || !Tensor) {
 		throw new Error(
 			"Worker is not initialized or model/tokenizer/Tensor is missing."
 		);
@@ -788,8 +1138,11 @@ async function testSelfSimilarity(): Promise<string> {
 
 		const rows = vectorsArray.length;
 		const cols = vectorsArray[0].length;
-		const flatData = vectorsArray.flat();
-		const embeddingTensor = new Tensor("float32", flatData, [rows, cols]);
+		const embeddingTensor = new Tensor(
+			"float32",
+			packVectors(vectorsArray).data,
+			[rows, cols]
+		);
 
 		const scoresTensor = await matmul(
 			embeddingTensor,
@@ -822,83 +1175,267 @@ async function batchInsertRecords(
 ): Promise<void> {
 	const quotedTableName = quoteIdentifier(EMBEDDINGS_TABLE_NAME);
 
+	const quotedStagingTableName = quoteIdentifier(
+		EMBEDDINGS_STAGING_TABLE_NAME
+	);
+
+	// ON CONFLICT は COPY では使えないため、一時テーブルにバイナリで流し込んでから UPSERT する
+	await tx.query(
+		SQL_QUERIES.CREATE_STAGING_TABLE.replace("$1", quotedStagingTableName)
+	);
 	for (let i = 0; i < items.length; i += batchSize) {
 		const batchItems = items.slice(i, i + batchSize);
 		if (batchItems.length === 0) continue;
 
-		const valuePlaceholders: string[] = [];
-		const params: (string | number | null)[] = [];
-		let paramIndex = 1;
+		await copyVectorItems(tx, quotedStagingTableName, batchItems);
+		await tx.query(`
+			INSERT INTO ${quotedTableName}
+			(${VECTOR_ITEM_COLUMNS})
+			SELECT ${VECTOR_ITEM_COLUMNS}
+			FROM ${quotedStagingTableName}
+			ON CONFLICT (file_path, chunk_offset_start) DO UPDATE SET
+				chunk_offset_end = EXCLUDED.chunk_offset_end,
+				chunk_hash = EXCLUDED.chunk_hash,
+				chunk_text = EXCLUDED.chunk_text,
+				heading_path = EXCLUDED.heading_path,
+				embedding = EXCLUDED.embedding
+		`);
+		await tx.query(`TRUNCATE ${quotedStagingTableName}`);
+		postLogMessage(
+			"verbose",
+			`Upserted ${batchItems.length} vectors into ${EMBEDDINGS_TABLE_NAME}`
+		);
+	}
+}
 
-		for (const item of batchItems) {
-			valuePlaceholders.push(
-				`($${paramIndex++}, $${paramIndex++}, $${paramIndex++}, $${paramIndex++})`
-			);
-			params.push(
-				item.filePath,
-				item.chunkOffsetStart,
-				item.chunkOffsetEnd,
-				JSON.stringify(item.vector)
-			);
-		}
+const VECTOR_ITEM_COLUMNS =
+	"file_path, chunk_offset_start, chunk_offset_end, chunk_hash, chunk_text, heading_path, embedding";
+const VECTOR_ITEM_COPY_COLUMNS: readonly CopyColumnType[] = [
+	"text",
+	"int4",
+	"int4",
+	"text",
+	"text",
+	"text",
+	"halfvec",
+];
+
+function toVectorItem(
+	chunk: ChunkInfo,
+	chunkHash: string,
+	vector: Float32Array
+): VectorItem {
+	return {
+		filePath: chunk.filePath,
+		chunkOffsetStart: chunk.chunkOffsetStart,
+		chunkOffsetEnd: chunk.chunkOffsetEnd,
+		chunkHash,
+		chunkText: chunk.sourceText ?? null,
+		headingPath: chunk.headingPath ?? null,
+		vector,
+	};
+}
 
-		if (valuePlaceholders.length > 0) {
-			const insertSql = `
-				INSERT INTO ${quotedTableName} 
-				(file_path, chunk_offset_start, chunk_offset_end, embedding)
-				VALUES ${valuePlaceholders.join(", ")}
-				ON CONFLICT (file_path, chunk_offset_start) DO UPDATE SET
-					chunk_offset_end = EXCLUDED.chunk_offset_end,
-					embedding = EXCLUDED.embedding
-				`;
-			await tx.query(insertSql, params);
-			postLogMessage(
-				"verbose",
-				`Upserted ${batchItems.length} vectors into ${EMBEDDINGS_TABLE_NAME}`
-			);
-		}
+// タグと更新日時はファイル単位の値なので、チャンクの書き込み後にまとめて設定する
+async function updateFileMetadata(
+	tx: Transaction,
+	chunks: ChunkInfo[]
+): Promise<void> {
+	const files = new Map<string, ChunkInfo>();
+	for (const chunk of chunks) {
+		if (!files.has(chunk.filePath)) files.set(chunk.filePath, chunk);
 	}
+	if (files.size === 0) return;
+	const fileChunks = Array.from(files.values());
+	// タグは空白を含まないため、空白区切りの文字列として渡す。プロパティは JSON 文字列として渡す
+	await tx.query(
+		`UPDATE ${quoteIdentifier(EMBEDDINGS_TABLE_NAME)} AS t
+		SET tags = string_to_array(NULLIF(v.tags, ''), ' '), properties = v.properties::jsonb, file_mtime = v.file_mtime
+		FROM unnest($1::text[], $2::text[], $3::text[], $4::bigint[]) AS v(file_path, tags, properties, file_mtime)
+		WHERE t.file_path = v.file_path`,
+		[
+			fileChunks.map((chunk) => chunk.filePath),
+			fileChunks.map((chunk) => (chunk.tags ?? []).join(" ")),
+			fileChunks.map((chunk) =>
+				chunk.properties ? JSON.stringify(chunk.properties) : null
+			),
+			fileChunks.map((chunk) => chunk.fileMtime ?? null),
+		]
+	);
 }
 
-async function upsertVectors(
-	items: VectorItem[],
-	batchSize: number = 100
+// JSON 文字列を経由せず、COPY BINARY で halfvec をそのまま書き込む
+async function copyVectorItems(
+	tx: Transaction,
+	quotedTableName: string,
+	items: VectorItem[]
 ): Promise<void> {
+	if (items.length === 0) return;
+	const data = encodeCopyBinary(
+		VECTOR_ITEM_COPY_COLUMNS,
+		items.map((item) => [
+			item.filePath,
+			item.chunkOffsetStart,
+			item.chunkOffsetEnd,
+			item.chunkHash,
+			item.chunkText,
+			item.headingPath,
+			item.vector,
+		])
+	);
+	await tx.query(
+		`COPY ${quotedTableName} (${VECTOR_ITEM_COLUMNS}) FROM '/dev/blob' WITH (FORMAT binary)`,
+		[],
+		{ blob: new Blob([data]) }
+	);
+}
+
+// 既存の行とチャンクハッシュで突き合わせ、内容が変わったチャンクだけをベクトル化する
+async function storeChunksIncrementally(
+	chunks: ChunkInfo[]
+): Promise<VectorizeAndStoreResponse["payload"]> {
 	if (!pgliteInstance) {
 		throw new Error("PGlite instance is not initialized.");
 	}
-	if (items.length === 0) {
-		postLogMessage("verbose", "No vectors to upsert.");
-		return;
+	const result = { count: chunks.length, embedded: 0, moved: 0, deleted: 0 };
+	if (chunks.length === 0) {
+		return result;
 	}
 
-	try {
-		await pgliteInstance.transaction(async (tx: Transaction) => {
-			// UPSERT処理のみ実行
-			await batchInsertRecords(tx, items, batchSize);
+	const tableName = quoteIdentifier(EMBEDDINGS_TABLE_NAME);
+	const chunkHashes = await Promise.all(
+		chunks.map((chunk) => computeChunkHash(chunk.text))
+	);
+	const chunksByFile = new Map<string, number[]>();
+	chunks.forEach((chunk, index) => {
+		const indices = chunksByFile.get(chunk.filePath) ?? [];
+		indices.push(index);
+		chunksByFile.set(chunk.filePath, indices);
+	});
+
+	const existingRows = await pgliteInstance.query<{
+		id: number;
+		file_path: string;
+		chunk_hash: string | null;
+		chunk_offset_start: number;
+		chunk_offset_end: number;
+	}>(
+		`SELECT id, file_path, chunk_hash, chunk_offset_start, chunk_offset_end
+		FROM ${tableName} WHERE file_path = ANY($1::text[])`,
+		[Array.from(chunksByFile.keys())]
+	);
+	const storedByFile = new Map<string, StoredChunk[]>();
+	for (const row of existingRows.rows) {
+		const stored = storedByFile.get(row.file_path) ?? [];
+		stored.push({
+			id: row.id,
+			chunkHash: row.chunk_hash,
+			chunkOffsetStart: row.chunk_offset_start,
+			chunkOffsetEnd: row.chunk_offset_end,
 		});
+		storedByFile.set(row.file_path, stored);
+	}
 
-		postLogMessage(
-			"verbose",
-			`Successfully upserted all ${items.length} vectors into ${EMBEDDINGS_TABLE_NAME}`
+	const removedIds: number[] = [];
+	const unchanged: MatchedChunk[] = [];
+	const moved: MatchedChunk[] = [];
+	const addedIndices: number[] = [];
+	for (const [filePath, indices] of chunksByFile) {
+		const diff = diffChunks(
+			storedByFile.get(filePath) ?? [],
+			indices.map((index) => ({
+				chunkHash: chunkHashes[index],
+				chunkOffsetStart: chunks[index].chunkOffsetStart,
+				chunkOffsetEnd: chunks[index].chunkOffsetEnd,
+			}))
 		);
+		const toGlobal = (chunk: MatchedChunk) => ({
+			id: chunk.id,
+			index: indices[chunk.index],
+		});
+		removedIds.push(...diff.removedIds);
+		unchanged.push(...diff.unchanged.map(toGlobal));
+		moved.push(...diff.moved.map(toGlobal));
+		addedIndices.push(...diff.addedIndices.map((i) => indices[i]));
+	}
+	// 正規化後のテキストが同じでも、表示用のテキストや見出しは変わりうるため書き直す
+	const kept = [...unchanged, ...moved];
+
+	// PGlite はトランザクション中の他のクエリを待たせるため、ベクトル化は先に済ませる
+	const vectors = await vectorizeWithCache(
+		addedIndices.map((index) => chunks[index].text),
+		addedIndices.map((index) => chunkHashes[index])
+	);
+	const addedItems: VectorItem[] = addedIndices.map((index, i) =>
+		toVectorItem(chunks[index], chunkHashes[index], vectors[i])
+	);
+
+	try {
+		await pgliteInstance.transaction(async (tx: Transaction) => {
+			if (removedIds.length > 0) {
+				await tx.query(
+					`DELETE FROM ${tableName} WHERE id = ANY($1::int[])`,
+					[removedIds]
+				);
+			}
+			if (moved.length > 0) {
+				// 移動先が他の行の移動元と重なっても一意制約に触れないよう、
+				// いったん重複しない負の位置へ退避してから書き換える
+				await tx.query(
+					`UPDATE ${tableName} SET chunk_offset_start = -1 - id WHERE id = ANY($1::int[])`,
+					[moved.map((chunk) => chunk.id)]
+				);
+			}
+			if (kept.length > 0) {
+				const keptChunks = kept.map(({ index }) => chunks[index]);
+				await tx.query(
+					`UPDATE ${tableName} AS t
+					SET chunk_offset_start = v.offset_start,
+						chunk_offset_end = v.offset_end,
+						chunk_text = v.chunk_text,
+						heading_path = v.heading_path
+					FROM unnest($1::int[], $2::int[], $3::int[], $4::text[], $5::text[])
+						AS v(id, offset_start, offset_end, chunk_text, heading_path)
+					WHERE t.id = v.id`,
+					[
+						kept.map((chunk) => chunk.id),
+						keptChunks.map((chunk) => chunk.chunkOffsetStart),
+						keptChunks.map((chunk) => chunk.chunkOffsetEnd),
+						keptChunks.map((chunk) => chunk.sourceText ?? null),
+						keptChunks.map((chunk) => chunk.headingPath ?? null),
+					]
+				);
+			}
+			await batchInsertRecords(tx, addedItems, 100);
+			await updateFileMetadata(tx, chunks);
+			await refreshNoteEmbeddings(tx, Array.from(chunksByFile.keys()));
+		});
 	} catch (error) {
 		postLogMessage(
 			"error",
-			`Error in upsertVectors transaction for ${EMBEDDINGS_TABLE_NAME}:`,
+			`Error in storeChunksIncrementally transaction for ${EMBEDDINGS_TABLE_NAME}:`,
 			error
 		);
 		throw error;
 	}
+
+	result.embedded = addedItems.length;
+	result.moved = moved.length;
+	result.deleted = removedIds.length;
+	postLogMessage(
+		"verbose",
+		`Stored ${chunks.length} chunks: embedded ${result.embedded}, moved ${result.moved}, deleted ${result.deleted}`
+	);
+	return result;
 }
 
-async function averageVectors(vectors: number[][]): Promise<number[]> {
+async function averageVectors(vectors: Float32Array[]): Promise<Float32Array> {
 	if (vectors.length === 0) {
-		return [];
+		return new Float32Array(0);
 	}
 
 	const dimensions = vectors[0].length;
-	const sumVector = new Array(dimensions).fill(0);
+	const averagedVector = new Float32Array(dimensions);
 
 	for (const vector of vectors) {
 		if (vector.length !== dimensions) {
@@ -909,31 +1446,32 @@ async function averageVectors(vectors: number[][]): Promise<number[]> {
 			continue;
 		}
 		for (let i = 0; i < dimensions; i++) {
-			sumVector[i] += vector[i];
+			averagedVector[i] += vector[i];
 		}
 	}
 
-	const averagedVector = sumVector.map((val) => val / vectors.length);
-
 	let magnitude = 0;
-	for (const val of averagedVector) {
-		magnitude += val * val;
+	for (let i = 0; i < dimensions; i++) {
+		averagedVector[i] /= vectors.length;
+		magnitude += averagedVector[i] * averagedVector[i];
 	}
 	magnitude = Math.sqrt(magnitude);
 
 	if (magnitude > 1e-6) {
-		return averagedVector.map((val) => val / magnitude);
+		for (let i = 0; i < dimensions; i++) {
+			averagedVector[i] /= magnitude;
+		}
 	} else {
 		postLogMessage(
 			"warn",
 			"Averaged vector is zero or near-zero, returning as is."
 		);
-		return averagedVector;
 	}
+	return averagedVector;
 }
 
 async function searchSimilar(
-	vector: number[],
+	vector: ArrayLike<number>,
 	limit: number = 20,
 	options?: SearchOptions
 ): Promise<SimilarityResultItem[]> {
@@ -941,42 +1479,70 @@ async function searchSimilar(
 		throw new Error("PGlite instance is not initialized.");
 	}
 	const quotedTableName = quoteIdentifier(EMBEDDINGS_TABLE_NAME);
-	const efSearch = options?.efSearch || HNSW_EF_SEARCH;
+	// HNSW は ef_search 件までしか返さないため、多くの候補を集める場合は広げる
+	const efSearch = Math.min(
+		MAX_HNSW_EF_SEARCH,
+		Math.max(options?.efSearch || HNSW_EF_SEARCH, limit)
+	);
 	const excludeFilePaths = options?.excludeFilePaths || [];
 
 	try {
-		await pgliteInstance.query(`SET hnsw.ef_search = ${efSearch}`);
-
 		let querySql = `
-			SELECT id, file_path, chunk_offset_start, chunk_offset_end,
-			       NULL AS chunk, -- chunk カラムの代わりに NULL を返す
-				   embedding <=> $1 as distance
-			FROM ${quotedTableName}
+			SELECT t.id, t.file_path, t.chunk_offset_start, t.chunk_offset_end,
+			       t.chunk_text AS chunk, t.heading_path, t.tags, t.file_mtime,
+				   t.embedding <=> $1 as distance
+			FROM ${quotedTableName} AS t
 		`;
-		const queryParams: (string | number | string[])[] = [
-			JSON.stringify(vector),
-		];
+		const queryParams: unknown[] = [formatVectorLiteral(vector)];
 		let paramIndex = 2;
+		const conditions: string[] = [];
 
 		if (excludeFilePaths.length > 0) {
 			const placeholders = excludeFilePaths
 				.map(() => `$${paramIndex++}`)
 				.join(", ");
-			querySql += ` WHERE file_path NOT IN (${placeholders})`;
+			conditions.push(`t.file_path NOT IN (${placeholders})`);
 			queryParams.push(...excludeFilePaths);
 		}
 
+		const filterSql = buildSearchFilterSql(options?.filters, paramIndex);
+		conditions.push(...filterSql.conditions);
+		queryParams.push(...filterSql.params);
+		paramIndex += filterSql.params.length;
+
+		if (conditions.length > 0) {
+			querySql += ` WHERE ${conditions.join(" AND ")}`;
+		}
+
 		querySql += `
 			 ORDER BY distance ASC
 			 LIMIT $${paramIndex++}
 		`;
 		queryParams.push(limit);
 
-		const result = await pgliteInstance.query<SimilarityResultItem>(
-			querySql,
-			queryParams
-		);
-		return result.rows;
+		// HNSW は ef_search 件の候補を取ってから絞り込むため、条件がある場合は limit 件に満たないことがある。
+		// iterative scan で条件に合う行が limit 件見つかるまで探索を続けさせ、順序が前後する分は外側で並べ直す
+		const hasConditions = conditions.length > 0;
+		if (hasConditions) {
+			querySql = `
+				WITH candidates AS MATERIALIZED (${querySql})
+				SELECT * FROM candidates ORDER BY distance ASC
+			`;
+		}
+
+		// 他の検索に影響しないよう、設定はトランザクション内だけで有効にする
+		const rows = await pgliteInstance.transaction(async (tx) => {
+			await tx.query(`SET LOCAL hnsw.ef_search = ${efSearch}`);
+			if (hasConditions) {
+				await tx.query(`SET LOCAL hnsw.iterative_scan = relaxed_order`);
+			}
+			const result = await tx.query<SimilarityResultItem>(
+				querySql,
+				queryParams
+			);
+			return result.rows;
+		});
+		return rows ?? [];
 	} catch (error) {
 		postLogMessage(
 			"error",
@@ -987,6 +1553,304 @@ async function searchSimilar(
 	}
 }
 
+// hybrid で統合する前に、それぞれの検索で limit の何倍の候補を取るか
+const HYBRID_SEARCH_CANDIDATE_MULTIPLIER = 3;
+
+// LIKE のワイルドカードを語句の文字として扱う
+function escapeLikePattern(text: string): string {
+	return text.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+// クエリの語句を含むチャンクを、含む語句の重みの合計と出現回数の多い順に返す
+async function searchKeyword(
+	vector: ArrayLike<number>,
+	terms: KeywordTerm[],
+	excludeTerms: KeywordTerm[],
+	limit: number,
+	options?: SearchOptions
+): Promise<ScoredCandidate<SimilarityResultItem>[]> {
+	if (!pgliteInstance) {
+		throw new Error("PGlite instance is not initialized.");
+	}
+	if (terms.length === 0) {
+		return [];
+	}
+	const quotedTableName = quoteIdentifier(EMBEDDINGS_TABLE_NAME);
+	const excludeFilePaths = options?.excludeFilePaths || [];
+	const filterSql = buildSearchFilterSql(options?.filters, 7);
+	// トライグラムインデックスで候補を絞り込み、順位付けは下の LATERAL で行う
+	const likeParamStart = 7 + filterSql.params.length;
+	const likeConditions = terms.map(
+		(_, index) => `lower(t.chunk_text) LIKE $${likeParamStart + index}`
+	);
+	const likePatterns = terms.map(
+		(term) => `%${escapeLikePattern(term.term)}%`
+	);
+
+	try {
+		const result = await pgliteInstance.query<
+			SimilarityResultItem & { matched: number; occurrences: number }
+		>(
+			`
+			SELECT t.id, t.file_path, t.chunk_offset_start, t.chunk_offset_end,
+			       t.chunk_text AS chunk, t.heading_path, t.tags, t.file_mtime,
+			       t.embedding <=> $1 AS distance, s.matched, s.occurrences
+			FROM ${quotedTableName} AS t
+			CROSS JOIN LATERAL (
+				SELECT COALESCE(SUM(q.weight) FILTER (WHERE strpos(lower(t.chunk_text), q.term) > 0), 0)::float8 AS matched,
+				       COALESCE(SUM((length(lower(t.chunk_text)) - length(replace(lower(t.chunk_text), q.term, ''))) / length(q.term)), 0)::int AS occurrences
+				FROM unnest($2::text[], $3::float8[]) AS q(term, weight)
+			) AS s
+			WHERE (${likeConditions.join(" OR ")})
+			  AND s.matched > 0
+			  AND NOT EXISTS (
+				SELECT 1 FROM unnest($4::text[]) AS excluded
+				WHERE strpos(lower(t.chunk_text), excluded) > 0
+			  )
+			  AND NOT (t.file_path = ANY($5::text[]))
+			  ${filterSql.conditions.map((condition) => `AND ${condition}`).join(" ")}
+			ORDER BY s.matched DESC, s.occurrences DESC, distance ASC
+			LIMIT $6
+			`,
+			[
+				formatVectorLiteral(vector),
+				terms.map((term) => term.term),
+				terms.map((term) => term.weight),
+				excludeTerms.map((term) => term.term),
+				excludeFilePaths,
+				limit,
+				...filterSql.params,
+				...likePatterns,
+			]
+		);
+		return result.rows.map(({ matched, occurrences, ...item }) => ({
+			item,
+			// 出現回数は 1 語分の重みを超えない範囲で加点する
+			score: matched + occurrences / (occurrences + 1),
+		}));
+	} catch (error) {
+		postLogMessage(
+			"error",
+			`Error searching keywords in ${EMBEDDINGS_TABLE_NAME}:`,
+			error
+		);
+		throw error;
+	}
+}
+
+// 各節をベクトル化し、正の節の重み付き和から負の節の重み付き和を引いて正規化する
+async function composeQueryVector(query: SearchQuery): Promise<number[]> {
+	const clauses = [
+		...query.positive.map((clause) => ({ ...clause, sign: 1 })),
+		...query.negative.map((clause) => ({ ...clause, sign: -1 })),
+	];
+	const clauseVectors = await vectorizeSentences(
+		clauses.map((clause) => clause.text)
+	);
+	const searchVector = new Array<number>(clauseVectors[0].length).fill(0);
+	clauseVectors.forEach((clauseVector, index) => {
+		const factor = clauses[index].sign * clauses[index].weight;
+		for (let i = 0; i < searchVector.length; i++) {
+			searchVector[i] += factor * clauseVector[i];
+		}
+	});
+
+	let magnitude = 0;
+	for (const val of searchVector) {
+		magnitude += val * val;
+	}
+	magnitude = Math.sqrt(magnitude);
+	if (magnitude > 1e-6) {
+		return searchVector.map((val) => val / magnitude);
+	}
+	postLogMessage(
+		"warn",
+		"Resulting search vector is zero or near-zero after subtraction. Search may yield no results or behave unexpectedly."
+	);
+	return searchVector;
+}
+
+async function searchByMode(
+	vector: ArrayLike<number>,
+	query: SearchQuery,
+	limit: number = 20,
+	options?: SearchOptions
+): Promise<SimilarityResultItem[]> {
+	const candidates = await searchCandidatesByMode(
+		vector,
+		query,
+		getCandidateLimit(limit, options),
+		options
+	);
+	return diversifyResults(candidates, limit, options?.diversity);
+}
+
+// 関連度の高い順に候補を返す。スコアは MMR で類似度と比べられるよう 0〜1 にそろえる
+async function searchCandidatesByMode(
+	vector: ArrayLike<number>,
+	query: SearchQuery,
+	limit: number,
+	options?: SearchOptions
+): Promise<ScoredCandidate<SimilarityResultItem>[]> {
+	const mode = options?.mode ?? "semantic";
+	const terms = extractKeywordTerms(query.positive);
+	// 語句のないクエリではキーワード検索ができないため、ベクトル検索のみ行う
+	if (mode === "semantic" || terms.length === 0) {
+		const semanticResults = await searchSimilar(vector, limit, options);
+		return semanticResults.map(toSemanticCandidate);
+	}
+	const excludeTerms = extractKeywordTerms(query.negative);
+	if (mode === "keyword") {
+		const keywordResults = await searchKeyword(
+			vector,
+			terms,
+			excludeTerms,
+			limit,
+			options
+		);
+		return withNormalizedScores(keywordResults);
+	}
+
+	const candidateLimit = limit * HYBRID_SEARCH_CANDIDATE_MULTIPLIER;
+	const semanticResults = await searchSimilar(
+		vector,
+		candidateLimit,
+		options
+	);
+	const keywordResults = await searchKeyword(
+		vector,
+		terms,
+		excludeTerms,
+		candidateLimit,
+		options
+	);
+	return withNormalizedScores(
+		fuseRankings(
+			semanticResults.map(toSemanticCandidate),
+			keywordResults,
+			(item) => item.id,
+			options?.fusion ?? DEFAULT_RANK_FUSION_OPTIONS
+		).slice(0, limit)
+	);
+}
+
+async function searchSimilarDiverse(
+	vector: ArrayLike<number>,
+	limit: number = 20,
+	options?: SearchOptions
+): Promise<SimilarityResultItem[]> {
+	const results = await searchSimilar(
+		vector,
+		getCandidateLimit(limit, options),
+		options
+	);
+	return diversifyResults(
+		results.map(toSemanticCandidate),
+		limit,
+		options?.diversity
+	);
+}
+
+function toSemanticCandidate(
+	item: SimilarityResultItem
+): ScoredCandidate<SimilarityResultItem> {
+	// コサイン距離から類似度に戻す
+	return { item, score: 1 - item.distance };
+}
+
+function withNormalizedScores<T>(
+	candidates: ScoredCandidate<T>[]
+): ScoredCandidate<T>[] {
+	const scores = normalizeScores(candidates);
+	return candidates.map((candidate, index) => ({
+		item: candidate.item,
+		score: scores[index],
+	}));
+}
+
+// ノート単位の集約の前に、ノート 1 件あたりこの数のチャンクを候補として集める
+const NOTE_CANDIDATE_CHUNKS_PER_NOTE = 10;
+
+async function searchNotes(
+	vector: ArrayLike<number>,
+	query: SearchQuery | null,
+	limit: number = 20,
+	aggregation: NoteAggregationOptions,
+	options?: SearchOptions
+): Promise<NoteSimilarityResult[]> {
+	const candidateLimit = limit * NOTE_CANDIDATE_CHUNKS_PER_NOTE;
+	const candidates = query
+		? await searchCandidatesByMode(vector, query, candidateLimit, options)
+		: (await searchSimilar(vector, candidateLimit, options)).map(
+				toSemanticCandidate
+		  );
+	return aggregateByNote(
+		candidates,
+		(item) => item.file_path,
+		aggregation,
+		limit
+	);
+}
+
+// MMR やファイルごとの上限で除かれる候補があるため、limit の何倍の候補から選ぶか
+const DIVERSITY_CANDIDATE_MULTIPLIER = 4;
+
+function getCandidateLimit(limit: number, options?: SearchOptions): number {
+	return needsDiversification(options?.diversity)
+		? limit * DIVERSITY_CANDIDATE_MULTIPLIER
+		: limit;
+}
+
+async function diversifyResults(
+	candidates: ScoredCandidate<SimilarityResultItem>[],
+	limit: number,
+	diversity?: DiversityOptions
+): Promise<SimilarityResultItem[]> {
+	if (!diversity || !needsDiversification(diversity)) {
+		return candidates.slice(0, limit).map((candidate) => candidate.item);
+	}
+	// ファイルごとの上限だけなら候補のベクトルは不要
+	const vectors =
+		diversity.mmrLambda != null && diversity.mmrLambda < 1
+			? await getVectorsByIds(
+					candidates.map((candidate) => candidate.item.id)
+			  )
+			: new Map<number, Float32Array>();
+	return selectDiverse(
+		candidates.map((candidate) => ({
+			item: candidate.item,
+			relevance: candidate.score,
+			vector: vectors.get(candidate.item.id) ?? null,
+			group: candidate.item.file_path,
+		})),
+		limit,
+		diversity
+	);
+}
+
+async function getVectorsByIds(
+	ids: number[]
+): Promise<Map<number, Float32Array>> {
+	if (!pgliteInstance) {
+		throw new Error("PGlite instance is not initialized.");
+	}
+	const vectors = new Map<number, Float32Array>();
+	if (ids.length === 0) return vectors;
+	const result = await pgliteInstance.query<{
+		id: number;
+		embedding: Uint8Array;
+	}>(
+		`SELECT id, halfvec_send(embedding) AS embedding FROM ${quoteIdentifier(
+			EMBEDDINGS_TABLE_NAME
+		)} WHERE id = ANY($1::int[])`,
+		[ids]
+	);
+	for (const row of result.rows) {
+		vectors.set(row.id, decodeHalfvecBinary(row.embedding));
+	}
+	return vectors;
+}
+
 async function rebuildDatabaseInternal(): Promise<void> {
 	if (!pgliteInstance) {
 		throw new Error("PGlite instance is not initialized.");
@@ -994,24 +1858,25 @@ async function rebuildDatabaseInternal(): Promise<void> {
 
 	postLogMessage("info", "Rebuilding database...");
 	const tableName = EMBEDDINGS_TABLE_NAME;
-	const dimensions = EMBEDDINGS_DIMENSIONS;
+	const dimensions = activeModel.dimensions;
 
 	try {
-		// 既存のテーブルを削除
-		await pgliteInstance.exec(
-			`DROP TABLE IF EXISTS ${quoteIdentifier(tableName)} CASCADE;`
-		);
-		postLogMessage("info", `Dropped existing table ${tableName}.`);
-
 		await pgliteInstance.exec(SQL_QUERIES.SET_ENVIRONMENT);
 		postLogMessage("info", "Database environment set.");
 
-		const createTableSql = SQL_QUERIES.CREATE_TABLE.replace(
-			"$1",
-			quoteIdentifier(tableName)
-		).replace("$2", dimensions.toString());
-		await pgliteInstance.exec(createTableSql);
-		postLogMessage("info", `Table ${tableName} ensured (without index).`);
+		await recreateEmbeddingsTable(pgliteInstance, dimensions);
+		postLogMessage("info", `Recreated table ${tableName} (without index).`);
+		await writeSchemaMeta(pgliteInstance, {
+			schemaVersion: CURRENT_SCHEMA_VERSION,
+			modelId: indexModelVersion,
+			dimensions,
+			chunkerVersion: INDEX_CHUNKER_VERSION,
+		});
+
+		await pgliteInstance.exec(
+			`DELETE FROM ${quoteIdentifier(FILE_MANIFEST_TABLE_NAME)}`
+		);
+		await startRebuildCheckpoint();
 
 		postLogMessage(
 			"info",
@@ -1023,79 +1888,531 @@ async function rebuildDatabaseInternal(): Promise<void> {
 	}
 }
 
+// 未適用のマイグレーションを順に実行する。既存のベクトルが現在のモデルと互換性がない場合は、
+// ベクトルとマニフェストだけを破棄し、起動時の照合で再ベクトル化させる
+async function migrateSchema(
+	modelId: string,
+	dimensions: number
+): Promise<SchemaResetReason | null> {
+	const db = pgliteInstance!;
+	await db.exec(
+		SQL_QUERIES.CREATE_SCHEMA_META_TABLE.replace(
+			"$1",
+			quoteIdentifier(SCHEMA_META_TABLE_NAME)
+		)
+	);
+	const target = {
+		modelId,
+		dimensions,
+		chunkerVersion: INDEX_CHUNKER_VERSION,
+	};
+	const current = await readSchemaMeta(target);
+	const plan = planSchemaUpgrade(current, target);
+
+	for (const version of plan.migrations) {
+		const migration = SCHEMA_MIGRATIONS.find(
+			(candidate) => candidate.version === version
+		)!;
+		postLogMessage(
+			"info",
+			`Applying schema migration ${version}: ${migration.description}`
+		);
+		await db.transaction(async (tx) => {
+			await migration.up(tx, { dimensions });
+			await writeSchemaMeta(tx, {
+				...(current ?? target),
+				schemaVersion: version,
+			});
+		});
+	}
+
+	if (plan.resetReason) {
+		postLogMessage(
+			"warn",
+			`Existing vectors are incompatible with the current settings (${plan.resetReason}). Dropping them; notes will be re-indexed.`
+		);
+		// 破棄後は照合で少しずつ追加され、ensureIndexes が呼ばれないため、インデックスもここで作る
+		await db.transaction(async (tx) => {
+			await recreateEmbeddingsTable(tx, dimensions, true);
+			// 中断された再構築の処理済みファイルも、破棄したベクトルを指しているため消す
+			for (const tableName of [
+				FILE_MANIFEST_TABLE_NAME,
+				REBUILD_STATE_TABLE_NAME,
+				REBUILD_COMPLETED_FILES_TABLE_NAME,
+			]) {
+				await tx.exec(`DELETE FROM ${quoteIdentifier(tableName)}`);
+			}
+		});
+	}
+	await writeSchemaMeta(db, {
+		...target,
+		schemaVersion: CURRENT_SCHEMA_VERSION,
+	});
+	return plan.resetReason;
+}
+
+// schema_meta 導入前の DB は、テーブルの状態からバージョン 1 として扱う
+async function readSchemaMeta(
+	target: Omit<SchemaMeta, "schemaVersion">
+): Promise<SchemaMeta | null> {
+	const result = await pgliteInstance!.query<{
+		schema_version: number;
+		model_id: string;
+		dimensions: number;
+		chunker_version: number;
+	}>(
+		`SELECT schema_version, model_id, dimensions, chunker_version
+		FROM ${quoteIdentifier(SCHEMA_META_TABLE_NAME)} WHERE id = 1`
+	);
+	const row = result.rows[0];
+	if (row) {
+		return {
+			schemaVersion: row.schema_version,
+			modelId: row.model_id,
+			dimensions: row.dimensions,
+			chunkerVersion: row.chunker_version,
+		};
+	}
+	const legacyDimensions = await getExistingTableDimensions(
+		EMBEDDINGS_TABLE_NAME
+	);
+	if (legacyDimensions === null) {
+		return null;
+	}
+	// 作成したモデルは記録されていないため、次元数だけを確認する
+	return {
+		schemaVersion: 1,
+		modelId: target.modelId,
+		dimensions: legacyDimensions,
+		chunkerVersion: 1,
+	};
+}
+
+async function writeSchemaMeta(
+	db: PGlite | Transaction,
+	meta: SchemaMeta
+): Promise<void> {
+	await db.query(
+		`INSERT INTO ${quoteIdentifier(SCHEMA_META_TABLE_NAME)}
+			(id, schema_version, model_id, dimensions, chunker_version, updated_at)
+		VALUES (1, $1, $2, $3, $4, $5)
+		ON CONFLICT (id) DO UPDATE SET
+			schema_version = EXCLUDED.schema_version,
+			model_id = EXCLUDED.model_id,
+			dimensions = EXCLUDED.dimensions,
+			chunker_version = EXCLUDED.chunker_version,
+			updated_at = EXCLUDED.updated_at`,
+		[
+			meta.schemaVersion,
+			meta.modelId,
+			meta.dimensions,
+			meta.chunkerVersion,
+			Date.now(),
+		]
+	);
+}
+
+// 再構築の開始を記録する。clearRebuildCheckpoint されるまでは中断扱いになる
+async function startRebuildCheckpoint(): Promise<void> {
+	await pgliteInstance!.transaction(async (tx) => {
+		await tx.exec(
+			`DELETE FROM ${quoteIdentifier(REBUILD_COMPLETED_FILES_TABLE_NAME)}`
+		);
+		await tx.query(
+			`INSERT INTO ${quoteIdentifier(REBUILD_STATE_TABLE_NAME)}
+				(id, model_id, started_at, next_batch, total_batches)
+			VALUES (1, $1, $2, 0, 0)
+			ON CONFLICT (id) DO UPDATE SET
+				model_id = EXCLUDED.model_id,
+				started_at = EXCLUDED.started_at,
+				next_batch = 0,
+				total_batches = 0`,
+			[activeModel.id, Date.now()]
+		);
+	});
+	postLogMessage("verbose", "Rebuild checkpoint started.");
+}
+
+async function recordRebuildProgress(
+	tx: Transaction,
+	checkpoint: RebuildBatchCheckpoint
+): Promise<void> {
+	if (checkpoint.filePaths.length > 0) {
+		await tx.query(
+			`INSERT INTO ${quoteIdentifier(
+				REBUILD_COMPLETED_FILES_TABLE_NAME
+			)} (file_path)
+			SELECT unnest($1::text[])
+			ON CONFLICT (file_path) DO NOTHING`,
+			[checkpoint.filePaths]
+		);
+	}
+	await tx.query(
+		`UPDATE ${quoteIdentifier(REBUILD_STATE_TABLE_NAME)}
+		SET next_batch = $1, total_batches = $2
+		WHERE id = 1`,
+		[checkpoint.batchIndex + 1, checkpoint.totalBatches]
+	);
+}
+
+async function getRebuildCheckpoint(): Promise<RebuildCheckpoint | null> {
+	const state = await pgliteInstance!.query<{
+		model_id: string;
+		started_at: number;
+		next_batch: number;
+		total_batches: number;
+	}>(
+		`SELECT model_id, started_at, next_batch, total_batches
+		FROM ${quoteIdentifier(REBUILD_STATE_TABLE_NAME)}
+		WHERE id = 1`
+	);
+	const row = state.rows[0];
+	if (!row) return null;
+
+	const files = await pgliteInstance!.query<{ file_path: string }>(
+		`SELECT file_path FROM ${quoteIdentifier(
+			REBUILD_COMPLETED_FILES_TABLE_NAME
+		)}`
+	);
+	return {
+		modelId: row.model_id,
+		startedAt: Number(row.started_at),
+		nextBatch: row.next_batch,
+		totalBatches: row.total_batches,
+		completedFilePaths: files.rows.map((file) => file.file_path),
+	};
+}
+
+async function clearRebuildCheckpoint(): Promise<void> {
+	await pgliteInstance!.transaction(async (tx) => {
+		await tx.exec(
+			`DELETE FROM ${quoteIdentifier(REBUILD_STATE_TABLE_NAME)}`
+		);
+		await tx.exec(
+			`DELETE FROM ${quoteIdentifier(REBUILD_COMPLETED_FILES_TABLE_NAME)}`
+		);
+	});
+	postLogMessage("verbose", "Rebuild checkpoint cleared.");
+}
+
+async function upsertFileManifestEntries(
+	db: PGlite | Transaction,
+	entries: FileManifestEntry[]
+): Promise<number> {
+	if (entries.length === 0) return 0;
+	const result = await db.query(
+		`INSERT INTO ${quoteIdentifier(FILE_MANIFEST_TABLE_NAME)}
+			(file_path, mtime, size, content_hash, chunker_version, model_version)
+		SELECT * FROM unnest($1::text[], $2::bigint[], $3::bigint[], $4::text[], $5::text[], $6::text[])
+		ON CONFLICT (file_path) DO UPDATE SET
+			mtime = EXCLUDED.mtime,
+			size = EXCLUDED.size,
+			content_hash = EXCLUDED.content_hash,
+			chunker_version = EXCLUDED.chunker_version,
+			model_version = EXCLUDED.model_version`,
+		[
+			entries.map((entry) => entry.filePath),
+			entries.map((entry) => entry.mtime),
+			entries.map((entry) => entry.size),
+			entries.map((entry) => entry.contentHash),
+			entries.map((entry) => entry.chunkerVersion),
+			entries.map((entry) => entry.modelVersion),
+		]
+	);
+	return result.affectedRows ?? entries.length;
+}
+
+async function getFileManifest(): Promise<{
+	entries: FileManifestEntry[];
+	indexedFilePaths: string[];
+}> {
+	const manifest = await pgliteInstance!.query<{
+		file_path: string;
+		mtime: number;
+		size: number;
+		content_hash: string;
+		chunker_version: string;
+		model_version: string;
+	}>(
+		`SELECT file_path, mtime, size, content_hash, chunker_version, model_version
+		FROM ${quoteIdentifier(FILE_MANIFEST_TABLE_NAME)}`
+	);
+	const indexed = await pgliteInstance!.query<{ file_path: string }>(
+		`SELECT DISTINCT file_path FROM ${quoteIdentifier(
+			EMBEDDINGS_TABLE_NAME
+		)}`
+	);
+	return {
+		entries: manifest.rows.map((row) => ({
+			filePath: row.file_path,
+			mtime: Number(row.mtime),
+			size: Number(row.size),
+			contentHash: row.content_hash,
+			chunkerVersion: row.chunker_version,
+			modelVersion: row.model_version,
+		})),
+		indexedFilePaths: indexed.rows.map((row) => row.file_path),
+	};
+}
+
+async function initializeEmbeddingCache(
+	settings: EmbeddingCacheSettings | undefined
+): Promise<void> {
+	embeddingCacheSettings = settings ?? null;
+	embeddingCacheEstimatedBytes = await measureEmbeddingCacheBytes();
+	await evictEmbeddingCache();
+}
+
+function isEmbeddingCacheEnabled(): boolean {
+	return (
+		pgliteInstance !== null &&
+		embeddingCacheSettings !== null &&
+		embeddingCacheSettings.maxSizeBytes > 0
+	);
+}
+
+const EMBEDDING_CACHE_ENTRY_BYTES_SQL = `vector_dims(embedding) * 2 + ${EMBEDDING_CACHE_ENTRY_OVERHEAD_BYTES}`;
+
+async function measureEmbeddingCacheBytes(): Promise<number> {
+	const result = await pgliteInstance!.query<{ size: number }>(
+		`SELECT COALESCE(SUM(${EMBEDDING_CACHE_ENTRY_BYTES_SQL}), 0)::bigint AS size
+		FROM ${quoteIdentifier(EMBEDDING_CACHE_TABLE_NAME)}`
+	);
+	return Number(result.rows[0]?.size ?? 0);
+}
+
+// 正規化したテキストのハッシュが一致するものはキャッシュから返し、残りだけをベクトル化する
+async function vectorizeWithCache(
+	texts: string[],
+	textHashes: string[]
+): Promise<Float32Array[]> {
+	if (texts.length === 0) return [];
+	if (!isEmbeddingCacheEnabled()) {
+		return vectorizeSentences(texts);
+	}
+	const modelKey = indexModelVersion;
+	const tableName = quoteIdentifier(EMBEDDING_CACHE_TABLE_NAME);
+	const uniqueHashes = Array.from(new Set(textHashes));
+
+	const cached = new Map<string, Float32Array>();
+	try {
+		const result = await pgliteInstance!.query<{
+			text_hash: string;
+			embedding: Uint8Array;
+		}>(
+			`UPDATE ${tableName} SET last_used_at = $3
+			WHERE model_key = $1 AND text_hash = ANY($2::text[])
+			RETURNING text_hash, halfvec_send(embedding) AS embedding`,
+			[modelKey, uniqueHashes, Date.now()]
+		);
+		for (const row of result.rows) {
+			cached.set(row.text_hash, decodeHalfvecBinary(row.embedding));
+		}
+	} catch (error) {
+		postLogMessage(
+			"warn",
+			"Failed to read the embedding cache. Vectorizing without it.",
+			error
+		);
+	}
+
+	const missIndices: number[] = [];
+	const missHashes = new Set<string>();
+	textHashes.forEach((hash, index) => {
+		if (cached.has(hash)) {
+			embeddingCacheCounters.hits++;
+		} else {
+			embeddingCacheCounters.misses++;
+			if (!missHashes.has(hash)) {
+				missHashes.add(hash);
+				missIndices.push(index);
+			}
+		}
+	});
+
+	if (missIndices.length > 0) {
+		const vectors = await vectorizeSentences(
+			missIndices.map((index) => texts[index])
+		);
+		missIndices.forEach((index, i) => {
+			cached.set(textHashes[index], vectors[i]);
+		});
+		await storeInEmbeddingCache(
+			modelKey,
+			missIndices.map((index) => textHashes[index]),
+			vectors
+		);
+	}
+	return textHashes.map((hash) => cached.get(hash)!);
+}
+
+async function storeInEmbeddingCache(
+	modelKey: string,
+	textHashes: string[],
+	vectors: Float32Array[]
+): Promise<void> {
+	try {
+		await pgliteInstance!.query(
+			`INSERT INTO ${quoteIdentifier(EMBEDDING_CACHE_TABLE_NAME)}
+				(model_key, text_hash, embedding, last_used_at)
+			SELECT $1, v.text_hash, v.embedding::halfvec, $4
+			FROM unnest($2::text[], $3::text[]) AS v(text_hash, embedding)
+			ON CONFLICT (model_key, text_hash) DO UPDATE SET
+				embedding = EXCLUDED.embedding,
+				last_used_at = EXCLUDED.last_used_at`,
+			[modelKey, textHashes, vectors.map(formatVectorLiteral), Date.now()]
+		);
+		embeddingCacheEstimatedBytes += vectors.reduce(
+			(total, vector) =>
+				total + estimateEmbeddingCacheEntryBytes(vector.length),
+			0
+		);
+		await evictEmbeddingCache();
+	} catch (error) {
+		postLogMessage("warn", "Failed to update the embedding cache:", error);
+	}
+}
+
+// 上限を超えている場合は、最近使われていないものから削除する
+async function evictEmbeddingCache(): Promise<number> {
+	if (!embeddingCacheSettings) return 0;
+	const maxSizeBytes = embeddingCacheSettings.maxSizeBytes;
+	if (embeddingCacheEstimatedBytes <= maxSizeBytes) {
+		return 0;
+	}
+	const tableName = quoteIdentifier(EMBEDDING_CACHE_TABLE_NAME);
+	const result = await pgliteInstance!.query(
+		`DELETE FROM ${tableName} AS c
+		USING (
+			SELECT model_key, text_hash FROM (
+				SELECT model_key, text_hash,
+					SUM(${EMBEDDING_CACHE_ENTRY_BYTES_SQL}) OVER (
+						ORDER BY last_used_at DESC, model_key, text_hash
+					) AS cumulative_size
+				FROM ${tableName}
+			) AS ranked
+			WHERE ranked.cumulative_size > $1
+		) AS expired
+		WHERE c.model_key = expired.model_key AND c.text_hash = expired.text_hash`,
+		[maxSizeBytes]
+	);
+	embeddingCacheEstimatedBytes = await measureEmbeddingCacheBytes();
+	const evicted = result.affectedRows ?? 0;
+	postLogMessage(
+		"verbose",
+		`Evicted ${evicted} entries from the embedding cache (${embeddingCacheEstimatedBytes} bytes remain).`
+	);
+	return evicted;
+}
+
+async function configureEmbeddingCache(maxSizeBytes: number): Promise<number> {
+	if (embeddingCacheSettings) {
+		embeddingCacheSettings = { ...embeddingCacheSettings, maxSizeBytes };
+	}
+	return evictEmbeddingCache();
+}
+
+async function getEmbeddingCacheStats(): Promise<EmbeddingCacheStats> {
+	const result = await pgliteInstance!.query<{ entries: number }>(
+		`SELECT COUNT(*)::int AS entries FROM ${quoteIdentifier(
+			EMBEDDING_CACHE_TABLE_NAME
+		)}`
+	);
+	embeddingCacheEstimatedBytes = await measureEmbeddingCacheBytes();
+	return {
+		entries: result.rows[0]?.entries ?? 0,
+		sizeBytes: embeddingCacheEstimatedBytes,
+		maxSizeBytes: embeddingCacheSettings?.maxSizeBytes ?? 0,
+		hits: embeddingCacheCounters.hits,
+		misses: embeddingCacheCounters.misses,
+	};
+}
+
 async function handleBulkVectorizeAndLoad(
-	chunksToProcess: ChunkInfo[]
+	chunksToProcess: ChunkInfo[],
+	requestId: string,
+	priority: RequestPriority,
+	checkpoint?: RebuildBatchCheckpoint,
+	manifestEntries: FileManifestEntry[] = []
 ): Promise<{ count: number }> {
-	if (!isInitialized || !model || !tokenizer || !Tensor || !pgliteInstance) {
+	if (
+		!isInitialized ||
+		(!model && !staticEngine) ||
+		!tokenizer ||
+		!Tensor ||
+		!pgliteInstance
+	) {
 		throw new Error(
 			"Worker or PGlite not fully initialized for bulk load."
 		);
 	}
-	if (chunksToProcess.length === 0) {
+	if (
+		chunksToProcess.length === 0 &&
+		!checkpoint &&
+		manifestEntries.length === 0
+	) {
 		return { count: 0 };
 	}
 
-	const PROCESSING_BATCH_SIZE = 200;
-	let totalProcessedCount = 0;
+	// 優先度の高いリクエストに割り込ませる間隔。PGlite はトランザクション中の
+	// 他のクエリを待たせるため、ベクトル化はトランザクションの外で行う
+	const VECTORIZE_BATCH_SIZE = 50;
+	const vectorItems: VectorItem[] = [];
 
 	try {
-		await pgliteInstance.transaction(async (tx) => {
-			const tableName = quoteIdentifier(EMBEDDINGS_TABLE_NAME);
-
-			for (
-				let i = 0;
-				i < chunksToProcess.length;
-				i += PROCESSING_BATCH_SIZE
-			) {
-				const currentChunkBatch = chunksToProcess.slice(
-					i,
-					i + PROCESSING_BATCH_SIZE
-				);
-				if (currentChunkBatch.length === 0) continue;
-
-				postLogMessage(
-					"verbose",
-					`Vectorizing batch of ${currentChunkBatch.length} chunks (offset ${i})...`
-				);
-				const sentencesToVectorize = currentChunkBatch.map(
-					(chunk) => chunk.text
+		for (let i = 0; i < chunksToProcess.length; i += VECTORIZE_BATCH_SIZE) {
+			throwIfCancelled(requestId, "bulkVectorizeAndLoad");
+			await requestScheduler.yieldToHigherPriority(priority);
+			throwIfCancelled(requestId, "bulkVectorizeAndLoad");
+
+			const currentChunkBatch = chunksToProcess.slice(
+				i,
+				i + VECTORIZE_BATCH_SIZE
+			);
+			postLogMessage(
+				"verbose",
+				`Vectorizing batch of ${currentChunkBatch.length} chunks (offset ${i})...`
+			);
+			const chunkHashes = await Promise.all(
+				currentChunkBatch.map((chunk) => computeChunkHash(chunk.text))
+			);
+			const vectors = await vectorizeWithCache(
+				currentChunkBatch.map((chunk) => chunk.text),
+				chunkHashes
+			);
+			currentChunkBatch.forEach((chunk, j) => {
+				vectorItems.push(
+					toVectorItem(chunk, chunkHashes[j], vectors[j])
 				);
-				const vectors = await vectorizeSentences(sentencesToVectorize);
+			});
+		}
+		throwIfCancelled(requestId, "bulkVectorizeAndLoad");
 
-				postLogMessage(
-					"verbose",
-					`Inserting batch of ${vectors.length} vectors into DB...`
+		postLogMessage(
+			"verbose",
+			`Inserting ${vectorItems.length} vectors into DB...`
+		);
+		// 再開時やファイル更新で既に行があっても重複しないよう、ファイル単位で置き換える
+		const filePaths = Array.from(
+			new Set(chunksToProcess.map((chunk) => chunk.filePath))
+		);
+		await pgliteInstance.transaction(async (tx) => {
+			const tableName = quoteIdentifier(EMBEDDINGS_TABLE_NAME);
+			if (filePaths.length > 0) {
+				await tx.query(
+					`DELETE FROM ${tableName} WHERE file_path = ANY($1::text[])`,
+					[filePaths]
 				);
-
-				const valuePlaceholders: string[] = [];
-				const params: (string | number | null)[] = [];
-				let paramIndex = 1;
-
-				for (let j = 0; j < currentChunkBatch.length; j++) {
-					valuePlaceholders.push(
-						`($${paramIndex++}, $${paramIndex++}, $${paramIndex++}, $${paramIndex++})`
-					);
-					params.push(
-						currentChunkBatch[j].filePath,
-						currentChunkBatch[j].chunkOffsetStart,
-						currentChunkBatch[j].chunkOffsetEnd,
-						JSON.stringify(vectors[j])
-					);
-				}
-
-				if (valuePlaceholders.length > 0) {
-					const insertSql = `INSERT INTO ${tableName} (file_path, chunk_offset_start, chunk_offset_end, embedding) VALUES ${valuePlaceholders.join(
-						", "
-					)}`;
-					await tx.query(insertSql, params);
-					totalProcessedCount += currentChunkBatch.length;
-					postLogMessage(
-						"verbose",
-						`Inserted ${currentChunkBatch.length} vectors. Total processed in transaction: ${totalProcessedCount}`
-					);
-				}
+			}
+			await copyVectorItems(tx, tableName, vectorItems);
+			await updateFileMetadata(tx, chunksToProcess);
+			await refreshNoteEmbeddings(tx, filePaths);
+			await upsertFileManifestEntries(tx, manifestEntries);
+			if (checkpoint) {
+				await recordRebuildProgress(tx, checkpoint);
 			}
 		});
+		const totalProcessedCount = vectorItems.length;
 
 		postLogMessage(
 			"info",
@@ -1116,81 +2433,505 @@ async function handleBulkVectorizeAndLoad(
 	}
 }
 
-async function handleEnsureIndexes(): Promise<{
-	success: boolean;
-	message?: string;
-}> {
-	if (!pgliteInstance) {
-		throw new Error(
-			"PGlite instance not initialized for ensuring indexes."
-		);
+async function handleEnsureIndexes(): Promise<{
+	success: boolean;
+	message?: string;
+}> {
+	if (!pgliteInstance) {
+		throw new Error(
+			"PGlite instance not initialized for ensuring indexes."
+		);
+	}
+	const indexNames: string[] = [];
+
+	for (const tableName of [
+		EMBEDDINGS_TABLE_NAME,
+		NOTE_EMBEDDINGS_TABLE_NAME,
+	]) {
+		const indexName = getHnswIndexName(tableName);
+		try {
+			postLogMessage(
+				"info",
+				`Creating HNSW index ${indexName} on ${tableName}... This may take a while.`
+			);
+			await pgliteInstance.exec(createHnswIndexSql(tableName));
+			postLogMessage("info", `Index ${indexName} created successfully.`);
+			indexNames.push(indexName);
+		} catch (error: any) {
+			postLogMessage(
+				"error",
+				`Failed to create index ${indexName}:`,
+				error
+			);
+			return {
+				success: false,
+				message: `Failed to create index ${indexName}: ${error.message}`,
+			};
+		}
+	}
+	const trigramIndexName = getTrigramIndexName(EMBEDDINGS_TABLE_NAME);
+	try {
+		postLogMessage(
+			"info",
+			`Creating trigram index ${trigramIndexName} on ${EMBEDDINGS_TABLE_NAME}...`
+		);
+		await pgliteInstance.exec(createTrigramIndexSql(EMBEDDINGS_TABLE_NAME));
+		indexNames.push(trigramIndexName);
+	} catch (error: any) {
+		postLogMessage(
+			"error",
+			`Failed to create index ${trigramIndexName}:`,
+			error
+		);
+		return {
+			success: false,
+			message: `Failed to create index ${trigramIndexName}: ${error.message}`,
+		};
+	}
+	return {
+		success: true,
+		message: `Indexes ${indexNames.join(", ")} created successfully.`,
+	};
+}
+
+async function handleGetVectorsByFilePath(
+	filePath: string
+): Promise<Float32Array[]> {
+	if (!pgliteInstance) {
+		throw new Error(
+			"PGlite instance not initialized for getVectorsByFilePath."
+		);
+	}
+	const quotedTableName = quoteIdentifier(EMBEDDINGS_TABLE_NAME);
+	try {
+		// テキスト表現ではなく halfvec_send のバイナリ表現で読み出す
+		const result = await pgliteInstance.query<{ embedding: Uint8Array }>(
+			`SELECT halfvec_send(embedding) AS embedding FROM ${quotedTableName} WHERE file_path = $1`,
+			[filePath]
+		);
+		return result.rows.map((row) => decodeHalfvecBinary(row.embedding));
+	} catch (error) {
+		postLogMessage(
+			"error",
+			`Error getting vectors for file ${filePath}:`,
+			error
+		);
+		throw error;
+	}
+}
+
+// チャンクの書き込み時に更新しているノートの重心ベクトルを読み出す
+async function getNoteVector(filePath: string): Promise<Float32Array | null> {
+	if (!pgliteInstance) {
+		throw new Error("PGlite instance not initialized for getNoteVector.");
+	}
+	const result = await pgliteInstance.query<{ embedding: Uint8Array }>(
+		`SELECT halfvec_send(embedding) AS embedding
+		FROM ${quoteIdentifier(NOTE_EMBEDDINGS_TABLE_NAME)} WHERE file_path = $1`,
+		[filePath]
+	);
+	const row = result.rows[0];
+	return row ? decodeHalfvecBinary(row.embedding) : null;
+}
+
+async function getChunkSpansByFilePath(filePath: string): Promise<ChunkSpan[]> {
+	if (!pgliteInstance) {
+		throw new Error(
+			"PGlite instance not initialized for getChunkSpansByFilePath."
+		);
+	}
+	const result = await pgliteInstance.query<ChunkSpan>(
+		`SELECT id, chunk_offset_start, chunk_offset_end, heading_path
+		FROM ${quoteIdentifier(EMBEDDINGS_TABLE_NAME)}
+		WHERE file_path = $1
+		ORDER BY chunk_offset_start`,
+		[filePath]
+	);
+	return result.rows;
+}
+
+// 指定したチャンクのベクトルの平均を正規化して返す。該当するチャンクがなければ null
+async function getAverageVectorByIds(
+	ids: number[]
+): Promise<Float32Array | null> {
+	if (!pgliteInstance) {
+		throw new Error(
+			"PGlite instance not initialized for getAverageVectorByIds."
+		);
+	}
+	const result = await pgliteInstance.query<{ embedding: Uint8Array | null }>(
+		`SELECT halfvec_send(l2_normalize(avg(embedding))) AS embedding
+		FROM ${quoteIdentifier(EMBEDDINGS_TABLE_NAME)}
+		WHERE id = ANY($1::int[]) AND embedding IS NOT NULL`,
+		[ids]
+	);
+	const embedding = result.rows[0]?.embedding;
+	return embedding ? decodeHalfvecBinary(embedding) : null;
+}
+
+async function searchSimilarNoteVectors(
+	vector: ArrayLike<number>,
+	limit: number = 20,
+	excludeFilePaths: string[] = []
+): Promise<NoteVectorResultItem[]> {
+	if (!pgliteInstance) {
+		throw new Error("PGlite instance is not initialized.");
+	}
+	const efSearch = Math.min(
+		MAX_HNSW_EF_SEARCH,
+		Math.max(HNSW_EF_SEARCH, limit)
+	);
+	try {
+		const rows = await pgliteInstance.transaction(async (tx) => {
+			await tx.query(`SET LOCAL hnsw.ef_search = ${efSearch}`);
+			const result = await tx.query<NoteVectorResultItem>(
+				`SELECT file_path, chunk_count, embedding <=> $1 AS distance
+				FROM ${quoteIdentifier(NOTE_EMBEDDINGS_TABLE_NAME)}
+				WHERE NOT (file_path = ANY($2::text[]))
+				ORDER BY distance ASC
+				LIMIT $3`,
+				[formatVectorLiteral(vector), excludeFilePaths, limit]
+			);
+			return result.rows;
+		});
+		return rows ?? [];
+	} catch (error) {
+		postLogMessage(
+			"error",
+			`Error searching similar vectors in ${NOTE_EMBEDDINGS_TABLE_NAME}:`,
+			error
+		);
+		throw error;
+	}
+}
+
+// 各行から近い順に調べる件数。同じ組は両方向から見つかる
+const DUPLICATE_NEIGHBORS = 5;
+// 優先度の高いリクエストに割り込ませる間隔 (チャンクの ID の幅、またはノートの件数)
+const DUPLICATE_BATCH_SIZE = 500;
+
+interface DuplicateChunkRow {
+	a_id: number;
+	a_file_path: string;
+	a_chunk_hash: string | null;
+	a_offset_start: number | null;
+	a_offset_end: number | null;
+	a_chunk_text: string | null;
+	b_id: number;
+	b_file_path: string;
+	b_chunk_hash: string | null;
+	b_offset_start: number | null;
+	b_offset_end: number | null;
+	b_chunk_text: string | null;
+	distance: number;
+}
+
+function toDuplicateChunkSide(
+	row: DuplicateChunkRow,
+	side: "a" | "b"
+): DuplicateSide {
+	return {
+		filePath: row[`${side}_file_path`],
+		chunkId: row[`${side}_id`],
+		chunkHash: row[`${side}_chunk_hash`],
+		chunkOffsetStart: row[`${side}_offset_start`],
+		chunkOffsetEnd: row[`${side}_offset_end`],
+		chunkText: row[`${side}_chunk_text`],
+	};
+}
+
+function toDuplicateNoteSide(filePath: string): DuplicateSide {
+	return {
+		filePath,
+		chunkId: null,
+		chunkHash: null,
+		chunkOffsetStart: null,
+		chunkOffsetEnd: null,
+		chunkText: null,
+	};
+}
+
+// 同じファイルの行を除いても近傍が減らないよう、条件に合う行が見つかるまで HNSW を探し続けさせる。
+// 他の検索の順序に影響しないよう、トランザクション内だけで有効にする
+async function setDuplicateSearchParams(tx: Transaction): Promise<void> {
+	await tx.query(`SET LOCAL hnsw.ef_search = ${HNSW_EF_SEARCH}`);
+	await tx.query(`SET LOCAL hnsw.iterative_scan = relaxed_order`);
+}
+
+// 各行の近傍を HNSW で探すため、全組み合わせを比べずに済む。同じファイル内の組は除く
+async function findDuplicates(
+	kind: DuplicateKind,
+	threshold: number,
+	limit: number,
+	ignoredKeys: string[],
+	requestId: string,
+	priority: RequestPriority
+): Promise<DuplicatePair[]> {
+	if (!pgliteInstance) {
+		throw new Error("PGlite instance is not initialized.");
+	}
+	const db = pgliteInstance;
+	const maxDistance = 1 - threshold;
+	const candidates: DuplicateCandidate[] = [];
+
+	if (kind === "note") {
+		const table = quoteIdentifier(NOTE_EMBEDDINGS_TABLE_NAME);
+		// file_path の順に区切り、前のバッチの最後のパスより後ろから続ける
+		let lastFilePath = "";
+		let hasMore = true;
+		while (hasMore) {
+			throwIfCancelled(requestId, "findDuplicates");
+			await requestScheduler.yieldToHigherPriority(priority);
+			throwIfCancelled(requestId, "findDuplicates");
+
+			const batch = await db.query<{ file_path: string }>(
+				`SELECT file_path FROM ${table}
+				WHERE file_path > $1
+				ORDER BY file_path
+				LIMIT $2`,
+				[lastFilePath, DUPLICATE_BATCH_SIZE]
+			);
+			if (batch.rows.length === 0) break;
+			const firstFilePath = batch.rows[0].file_path;
+			lastFilePath = batch.rows[batch.rows.length - 1].file_path;
+
+			const rows = await db.transaction(async (tx) => {
+				await setDuplicateSearchParams(tx);
+				const result = await tx.query<{
+					a_file_path: string;
+					b_file_path: string;
+					distance: number;
+				}>(
+					`SELECT a.file_path AS a_file_path, n.file_path AS b_file_path, n.distance
+					FROM ${table} AS a
+					CROSS JOIN LATERAL (
+						SELECT b.file_path, b.embedding <=> a.embedding AS distance
+						FROM ${table} AS b
+						WHERE b.file_path <> a.file_path
+						ORDER BY b.embedding <=> a.embedding
+						LIMIT $3
+					) AS n
+					WHERE a.file_path >= $1 AND a.file_path <= $2
+						AND n.distance <= $4`,
+					[
+						firstFilePath,
+						lastFilePath,
+						DUPLICATE_NEIGHBORS,
+						maxDistance,
+					]
+				);
+				return result.rows;
+			});
+			for (const row of rows ?? []) {
+				candidates.push({
+					a: toDuplicateNoteSide(row.a_file_path),
+					b: toDuplicateNoteSide(row.b_file_path),
+					distance: row.distance,
+				});
+			}
+			hasMore = batch.rows.length === DUPLICATE_BATCH_SIZE;
+		}
+	} else {
+		const table = quoteIdentifier(EMBEDDINGS_TABLE_NAME);
+		const bounds = await db.query<{
+			min_id: number | null;
+			max_id: number | null;
+		}>(`SELECT min(id) AS min_id, max(id) AS max_id FROM ${table}`);
+		const { min_id: minId, max_id: maxId } = bounds.rows[0];
+		if (minId == null || maxId == null) return [];
+
+		for (
+			let startId = minId;
+			startId <= maxId;
+			startId += DUPLICATE_BATCH_SIZE
+		) {
+			throwIfCancelled(requestId, "findDuplicates");
+			await requestScheduler.yieldToHigherPriority(priority);
+			throwIfCancelled(requestId, "findDuplicates");
+
+			// ファイル名だけのチャンク (位置が -1) は本文の重複ではないため除く
+			const rows = await db.transaction(async (tx) => {
+				await setDuplicateSearchParams(tx);
+				const result = await tx.query<DuplicateChunkRow>(
+					`SELECT a.id AS a_id, a.file_path AS a_file_path, a.chunk_hash AS a_chunk_hash,
+						a.chunk_offset_start AS a_offset_start, a.chunk_offset_end AS a_offset_end,
+						a.chunk_text AS a_chunk_text,
+						n.id AS b_id, n.file_path AS b_file_path, n.chunk_hash AS b_chunk_hash,
+						n.chunk_offset_start AS b_offset_start, n.chunk_offset_end AS b_offset_end,
+						n.chunk_text AS b_chunk_text, n.distance
+					FROM ${table} AS a
+					CROSS JOIN LATERAL (
+						SELECT b.id, b.file_path, b.chunk_hash, b.chunk_offset_start,
+							b.chunk_offset_end, b.chunk_text,
+							b.embedding <=> a.embedding AS distance
+						FROM ${table} AS b
+						WHERE b.file_path <> a.file_path AND b.chunk_offset_start >= 0
+						ORDER BY b.embedding <=> a.embedding
+						LIMIT $3
+					) AS n
+					WHERE a.id >= $1 AND a.id < $2
+						AND a.chunk_offset_start >= 0
+						AND a.embedding IS NOT NULL
+						AND n.distance <= $4`,
+					[
+						startId,
+						startId + DUPLICATE_BATCH_SIZE,
+						DUPLICATE_NEIGHBORS,
+						maxDistance,
+					]
+				);
+				return result.rows;
+			});
+			for (const row of rows ?? []) {
+				candidates.push({
+					a: toDuplicateChunkSide(row, "a"),
+					b: toDuplicateChunkSide(row, "b"),
+					distance: row.distance,
+				});
+			}
+		}
+	}
+
+	return collectDuplicatePairs(kind, candidates, new Set(ignoredKeys), limit);
+}
+
+// 代表的な語を数えるために、一度に読むチャンクの ID の幅
+const CLUSTER_KEYWORD_BATCH_SIZE = 2000;
+
+// ノートのベクトルを k-means で分け、各クラスタのチャンクのテキストから代表的な語を選ぶ
+async function clusterNotes(
+	clusterCount: number,
+	excludeFilePaths: string[],
+	requestId: string,
+	priority: RequestPriority
+): Promise<NoteCluster[]> {
+	if (!pgliteInstance) {
+		throw new Error("PGlite instance is not initialized.");
+	}
+	const db = pgliteInstance;
+	const yieldToOtherRequests = async () => {
+		throwIfCancelled(requestId, "clusterNotes");
+		await requestScheduler.yieldToHigherPriority(priority);
+		throwIfCancelled(requestId, "clusterNotes");
+	};
+
+	// 再実行で同じクラスタになるよう、パスの順に読む
+	const notes = await db.query<{ file_path: string; embedding: Uint8Array }>(
+		`SELECT file_path, halfvec_send(embedding) AS embedding
+		FROM ${quoteIdentifier(NOTE_EMBEDDINGS_TABLE_NAME)}
+		WHERE NOT (file_path = ANY($1::text[]))
+		ORDER BY file_path`,
+		[excludeFilePaths]
+	);
+	if (notes.rows.length === 0) return [];
+	const filePaths = notes.rows.map((row) => row.file_path);
+	const { assignments, centroids } = await kMeans(
+		notes.rows.map((row) => decodeHalfvecBinary(row.embedding)),
+		resolveClusterCount(clusterCount, filePaths.length),
+		{ beforeIteration: yieldToOtherRequests }
+	);
+
+	const clusterByFilePath = new Map(
+		filePaths.map((filePath, i) => [filePath, assignments[i]])
+	);
+	const termCounts = centroids.map(() => new Map<string, number>());
+	const table = quoteIdentifier(EMBEDDINGS_TABLE_NAME);
+	const bounds = await db.query<{
+		min_id: number | null;
+		max_id: number | null;
+	}>(`SELECT min(id) AS min_id, max(id) AS max_id FROM ${table}`);
+	const { min_id: minId, max_id: maxId } = bounds.rows[0];
+	if (minId != null && maxId != null) {
+		for (
+			let startId = minId;
+			startId <= maxId;
+			startId += CLUSTER_KEYWORD_BATCH_SIZE
+		) {
+			await yieldToOtherRequests();
+			const chunks = await db.query<{
+				file_path: string;
+				chunk_text: string;
+			}>(
+				`SELECT file_path, chunk_text FROM ${table}
+				WHERE id >= $1 AND id < $2
+					AND chunk_offset_start >= 0
+					AND chunk_text IS NOT NULL`,
+				[startId, startId + CLUSTER_KEYWORD_BATCH_SIZE]
+			);
+			for (const row of chunks.rows) {
+				const cluster = clusterByFilePath.get(row.file_path);
+				if (cluster !== undefined) {
+					countTerms(row.chunk_text, termCounts[cluster]);
+				}
+			}
+		}
+	}
+
+	const keywords = selectClusterKeywords(termCounts);
+	return sortClusters(
+		centroids.map((_, cluster) => ({
+			filePaths: filePaths.filter((_, i) => assignments[i] === cluster),
+			keywords: keywords[cluster],
+		}))
+	);
+}
+
+worker.onmessage = (event: MessageEvent) => {
+	const request = event.data as WorkerRequest;
+	const { id, type, payload } = request;
+
+	if (type === "cancel") {
+		handleCancel(payload.requestId);
+		return;
 	}
-	const tableName = EMBEDDINGS_TABLE_NAME;
-	const indexName = `${tableName}_hnsw_idx`;
-	const quotedTableName = quoteIdentifier(tableName);
-	const quotedIndexName = quoteIdentifier(indexName);
+	if (type === "ping") {
+		postMessage({ id, type: "pong" } as WorkerResponse);
+		return;
+	}
+	activeRequestIds.add(id);
 
-	try {
-		postLogMessage(
-			"info",
-			`Creating HNSW index ${indexName} on ${tableName}... This may take a while.`
-		);
-		const createIndexSql = SQL_QUERIES.CREATE_HNSW_INDEX.replace(
-			"$1",
-			quotedIndexName
-		).replace("$2", quotedTableName);
-		await pgliteInstance.exec(createIndexSql);
-		postLogMessage("info", `Index ${indexName} created successfully.`);
-		return {
-			success: true,
-			message: `Index ${indexName} created successfully.`,
-		};
-	} catch (error: any) {
-		postLogMessage("error", `Failed to create index ${indexName}:`, error);
-		return {
-			success: false,
-			message: `Failed to create index ${indexName}: ${error.message}`,
-		};
+	// 初期化は他のリクエストより先に完了している必要があるため、キューを通さない
+	if (type === "initialize") {
+		void processRequest(request);
+		return;
 	}
-}
+	requestScheduler.enqueue(id, request.priority ?? "background", () =>
+		processRequest(request)
+	);
+};
 
-async function handleGetVectorsByFilePath(
-	filePath: string
-): Promise<number[][]> {
-	if (!pgliteInstance) {
-		throw new Error(
-			"PGlite instance not initialized for getVectorsByFilePath."
-		);
+function handleCancel(requestId: string): void {
+	// 実行待ちのリクエストはその場で取り除く
+	if (requestScheduler.remove(requestId)) {
+		activeRequestIds.delete(requestId);
+		postLogMessage("verbose", `Dropped queued request ${requestId}.`);
+		postMessage({
+			id: requestId,
+			type: "errorResponse",
+			payload: "Request was cancelled.",
+			code: REQUEST_CANCELLED_ERROR_CODE,
+		} as WorkerResponse);
+		return;
 	}
-	const quotedTableName = quoteIdentifier(EMBEDDINGS_TABLE_NAME);
-	try {
-		const result = await pgliteInstance.query<{ embedding: string }>(
-			`SELECT embedding FROM ${quotedTableName} WHERE file_path = $1`,
-			[filePath]
-		);
-		return result.rows.map((row) => JSON.parse(row.embedding));
-	} catch (error) {
-		postLogMessage(
-			"error",
-			`Error getting vectors for file ${filePath}:`,
-			error
-		);
-		throw error;
+	// 実行中のリクエストだけを対象にし、完了済みの ID は記録しない
+	if (activeRequestIds.has(requestId)) {
+		cancelledRequestIds.add(requestId);
+		postLogMessage("verbose", `Cancellation requested for ${requestId}.`);
 	}
 }
 
-worker.onmessage = async (event: MessageEvent) => {
-	const request = event.data as WorkerRequest;
+async function processRequest(request: WorkerRequest): Promise<void> {
 	const { id, type, payload } = request;
 
 	try {
 		switch (type) {
 			case "initialize":
-				const initResult = await initialize();
+				const initResult = await initialize(payload?.settings);
 				postMessage({
 					id,
 					type: "initialized",
 					payload: initResult,
+					schemaResetReason: schemaResetReason ?? undefined,
 				} as WorkerResponse);
 				break;
 
@@ -1205,14 +2946,17 @@ worker.onmessage = async (event: MessageEvent) => {
 						"Invalid payload for vectorizeSentences command."
 					);
 				}
-				const vectors = await vectorizeSentences(
-					payload.sentences as string[]
+				const packedSentenceVectors = packVectors(
+					await vectorizeSentences(payload.sentences as string[])
+				);
+				worker.postMessage(
+					{
+						type: "vectorizeSentencesResult",
+						payload: packedSentenceVectors,
+						id,
+					} as WorkerResponse,
+					[packedSentenceVectors.data.buffer]
 				);
-				postMessage({
-					type: "vectorizeSentencesResult",
-					payload: vectors,
-					id,
-				});
 				break;
 			case "vectorizeAndStore":
 				if (!isInitialized || !isDbInitialized) {
@@ -1225,23 +2969,12 @@ worker.onmessage = async (event: MessageEvent) => {
 						"Invalid payload for vectorizeAndStore command."
 					);
 				}
-				const chunksToUpsert = payload.chunks as ChunkInfo[];
-				const sentencesToVecUpsert = chunksToUpsert.map((c) => c.text);
-				const upsertVectorsArr = await vectorizeSentences(
-					sentencesToVecUpsert
-				);
-				const vectorItemsForUpsert: VectorItem[] = chunksToUpsert.map(
-					(chunk, index) => ({
-						filePath: chunk.filePath,
-						chunkOffsetStart: chunk.chunkOffsetStart,
-						chunkOffsetEnd: chunk.chunkOffsetEnd,
-						vector: upsertVectorsArr[index],
-					})
+				const storeResult = await storeChunksIncrementally(
+					payload.chunks as ChunkInfo[]
 				);
-				await upsertVectors(vectorItemsForUpsert);
 				postMessage({
 					type: "vectorizeAndStoreResponse",
-					payload: { count: vectorItemsForUpsert.length },
+					payload: storeResult,
 					id,
 				});
 				break;
@@ -1253,7 +2986,11 @@ worker.onmessage = async (event: MessageEvent) => {
 					);
 				}
 				const bulkResult = await handleBulkVectorizeAndLoad(
-					payload.chunks as ChunkInfo[]
+					payload.chunks as ChunkInfo[],
+					id,
+					request.priority ?? "background",
+					payload.checkpoint,
+					payload.manifestEntries
 				);
 				postMessage({
 					type: "bulkVectorizeAndLoadResponse",
@@ -1277,66 +3014,21 @@ worker.onmessage = async (event: MessageEvent) => {
 						"Worker or DB not initialized. Call initialize first."
 					);
 				}
-				if (typeof payload.query !== "string") {
+				const searchQuery = payload.query as SearchQuery | undefined;
+				if (
+					!searchQuery ||
+					!Array.isArray(searchQuery.positive) ||
+					!Array.isArray(searchQuery.negative) ||
+					searchQuery.positive.length === 0
+				) {
 					throw new Error("Invalid query for search command.");
 				}
-				const positiveQuery = payload.query as string;
-				const negativeQuery = payload.negativeQuery as
-					| string
-					| undefined;
-
-				const positiveVectorArray = (
-					await vectorizeSentences([positiveQuery])
-				)[0];
-				let searchVectorArray = positiveVectorArray;
-
-				if (negativeQuery && negativeQuery.trim() !== "") {
-					const negativeVectorArray = (
-						await vectorizeSentences([negativeQuery])
-					)[0];
-
-					if (!Tensor) {
-						postLogMessage(
-							"error",
-							"Tensor library (transformers.Tensor) is not available for vector operations."
-						);
-						throw new Error("Tensor library not available.");
-					}
-
-					if (
-						positiveVectorArray.length !==
-						negativeVectorArray.length
-					) {
-						postLogMessage(
-							"warn",
-							`Cannot subtract vectors of different dimensions. Positive: ${positiveVectorArray.length}, Negative: ${negativeVectorArray.length}. Skipping subtraction.`
-						);
-					} else {
-						searchVectorArray = positiveVectorArray.map(
-							(val, index) => val - negativeVectorArray[index]
-						);
-
-						let magnitude = 0;
-						for (const val of searchVectorArray) {
-							magnitude += val * val;
-						}
-						magnitude = Math.sqrt(magnitude);
-
-						if (magnitude > 1e-6) {
-							searchVectorArray = searchVectorArray.map(
-								(val) => val / magnitude
-							);
-						} else {
-							postLogMessage(
-								"warn",
-								"Resulting search vector is zero or near-zero after subtraction. Search may yield no results or behave unexpectedly."
-							);
-						}
-					}
-				}
+				const searchVectorArray = await composeQueryVector(searchQuery);
 
-				const searchResults = await searchSimilar(
+				throwIfCancelled(id, type);
+				const searchResults = await searchByMode(
 					searchVectorArray,
+					searchQuery,
 					payload.limit,
 					payload.options
 				);
@@ -1347,6 +3039,102 @@ worker.onmessage = async (event: MessageEvent) => {
 				});
 				break;
 
+			case "getFileManifest":
+				if (!isDbInitialized) {
+					throw new Error("DB not initialized for getFileManifest.");
+				}
+				postMessage({
+					id,
+					type: "getFileManifestResult",
+					payload: await getFileManifest(),
+				} as WorkerResponse);
+				break;
+
+			case "upsertFileManifest":
+				if (!isDbInitialized) {
+					throw new Error(
+						"DB not initialized for upsertFileManifest."
+					);
+				}
+				if (!Array.isArray(payload.entries)) {
+					throw new Error(
+						"Invalid payload for upsertFileManifest command."
+					);
+				}
+				postMessage({
+					id,
+					type: "upsertFileManifestResponse",
+					payload: {
+						count: await upsertFileManifestEntries(
+							pgliteInstance!,
+							payload.entries
+						),
+					},
+				} as WorkerResponse);
+				break;
+
+			case "getEmbeddingCacheStats":
+				if (!isDbInitialized) {
+					throw new Error(
+						"DB not initialized for getEmbeddingCacheStats."
+					);
+				}
+				postMessage({
+					id,
+					type: "getEmbeddingCacheStatsResult",
+					payload: await getEmbeddingCacheStats(),
+				} as WorkerResponse);
+				break;
+
+			case "configureEmbeddingCache":
+				if (!isDbInitialized) {
+					throw new Error(
+						"DB not initialized for configureEmbeddingCache."
+					);
+				}
+				if (typeof payload.maxSizeBytes !== "number") {
+					throw new Error(
+						"Invalid payload for configureEmbeddingCache command."
+					);
+				}
+				postMessage({
+					id,
+					type: "configureEmbeddingCacheResponse",
+					payload: {
+						evicted: await configureEmbeddingCache(
+							payload.maxSizeBytes
+						),
+					},
+				} as WorkerResponse);
+				break;
+
+			case "getRebuildCheckpoint":
+				if (!isDbInitialized) {
+					throw new Error(
+						"DB not initialized for getRebuildCheckpoint."
+					);
+				}
+				postMessage({
+					id,
+					type: "getRebuildCheckpointResult",
+					payload: await getRebuildCheckpoint(),
+				} as WorkerResponse);
+				break;
+
+			case "clearRebuildCheckpoint":
+				if (!isDbInitialized) {
+					throw new Error(
+						"DB not initialized for clearRebuildCheckpoint."
+					);
+				}
+				await clearRebuildCheckpoint();
+				postMessage({
+					id,
+					type: "clearRebuildCheckpointResponse",
+					payload: true,
+				} as WorkerResponse);
+				break;
+
 			case "rebuildDb":
 				if (!isInitialized || !isDbInitialized) {
 					throw new Error(
@@ -1395,6 +3183,13 @@ worker.onmessage = async (event: MessageEvent) => {
 					)} WHERE file_path = $1`,
 					[deleteFilePath]
 				);
+				await pgliteInstance!.query(
+					`DELETE FROM ${quoteIdentifier(
+						FILE_MANIFEST_TABLE_NAME
+					)} WHERE file_path = $1`,
+					[deleteFilePath]
+				);
+				await refreshNoteEmbeddings(pgliteInstance!, [deleteFilePath]);
 				postMessage({
 					id,
 					type: "deleteVectorsByFilePathResponse",
@@ -1403,29 +3198,32 @@ worker.onmessage = async (event: MessageEvent) => {
 				break;
 
 			case "averageVectors":
-				if (!Array.isArray(payload.vectors)) {
+				if (!(payload.vectors?.data instanceof Float32Array)) {
 					throw new Error(
 						"Invalid payload for averageVectors command."
 					);
 				}
 				const averagedVector = await averageVectors(
-					payload.vectors as number[][]
+					unpackVectors(payload.vectors)
+				);
+				worker.postMessage(
+					{
+						type: "averageVectorsResult",
+						payload: averagedVector,
+						id,
+					} as WorkerResponse,
+					[averagedVector.buffer]
 				);
-				postMessage({
-					type: "averageVectorsResult",
-					payload: averagedVector,
-					id,
-				});
 				break;
 
 			case "searchSimilarByVector":
-				if (!Array.isArray(payload.vector)) {
+				if (!(payload.vector instanceof Float32Array)) {
 					throw new Error(
 						"Invalid payload for searchSimilarByVector command."
 					);
 				}
-				const searchByVectorResults = await searchSimilar(
-					payload.vector as number[],
+				const searchByVectorResults = await searchSimilarDiverse(
+					payload.vector,
 					payload.limit,
 					payload.options
 				);
@@ -1436,6 +3234,55 @@ worker.onmessage = async (event: MessageEvent) => {
 				});
 				break;
 
+			case "searchNotes":
+				if (!isInitialized || !isDbInitialized) {
+					throw new Error(
+						"Worker or DB not initialized. Call initialize first."
+					);
+				}
+				const noteQuery = payload.query as SearchQuery | undefined;
+				if (
+					!noteQuery ||
+					!Array.isArray(noteQuery.positive) ||
+					!Array.isArray(noteQuery.negative) ||
+					noteQuery.positive.length === 0
+				) {
+					throw new Error("Invalid query for searchNotes command.");
+				}
+				const noteQueryVector = await composeQueryVector(noteQuery);
+				throwIfCancelled(id, type);
+				postMessage({
+					type: "searchNotesResult",
+					payload: await searchNotes(
+						noteQueryVector,
+						noteQuery,
+						payload.limit,
+						payload.aggregation,
+						payload.options
+					),
+					id,
+				});
+				break;
+
+			case "searchNotesByVector":
+				if (!(payload.vector instanceof Float32Array)) {
+					throw new Error(
+						"Invalid payload for searchNotesByVector command."
+					);
+				}
+				postMessage({
+					type: "searchNotesByVectorResult",
+					payload: await searchNotes(
+						payload.vector,
+						null,
+						payload.limit,
+						payload.aggregation,
+						payload.options
+					),
+					id,
+				});
+				break;
+
 			case "getVectorsByFilePath":
 				if (!isDbInitialized) {
 					throw new Error(
@@ -1447,13 +3294,145 @@ worker.onmessage = async (event: MessageEvent) => {
 						"Invalid filePath for getVectorsByFilePath command."
 					);
 				}
-				const fileVectors = await handleGetVectorsByFilePath(
-					payload.filePath as string
+				const fileVectors = packVectors(
+					await handleGetVectorsByFilePath(payload.filePath as string)
+				);
+				worker.postMessage(
+					{
+						id,
+						type: "getVectorsByFilePathResult",
+						payload: fileVectors,
+					} as WorkerResponse,
+					[fileVectors.data.buffer]
+				);
+				break;
+
+			case "findDuplicates":
+				if (!isDbInitialized) {
+					throw new Error("DB not initialized for findDuplicates.");
+				}
+				if (
+					(payload.kind !== "chunk" && payload.kind !== "note") ||
+					typeof payload.threshold !== "number"
+				) {
+					throw new Error(
+						"Invalid payload for findDuplicates command."
+					);
+				}
+				postMessage({
+					id,
+					type: "findDuplicatesResult",
+					payload: await findDuplicates(
+						payload.kind,
+						payload.threshold,
+						payload.limit,
+						payload.ignoredKeys ?? [],
+						id,
+						request.priority ?? "background"
+					),
+				} as WorkerResponse);
+				break;
+
+			case "clusterNotes":
+				if (!isDbInitialized) {
+					throw new Error("DB not initialized for clusterNotes.");
+				}
+				if (typeof payload.clusterCount !== "number") {
+					throw new Error(
+						"Invalid payload for clusterNotes command."
+					);
+				}
+				postMessage({
+					id,
+					type: "clusterNotesResult",
+					payload: await clusterNotes(
+						payload.clusterCount,
+						payload.excludeFilePaths ?? [],
+						id,
+						request.priority ?? "background"
+					),
+				} as WorkerResponse);
+				break;
+
+			case "getNoteVector":
+				if (!isDbInitialized) {
+					throw new Error("DB not initialized for getNoteVector.");
+				}
+				if (typeof payload.filePath !== "string") {
+					throw new Error(
+						"Invalid filePath for getNoteVector command."
+					);
+				}
+				const noteVector = await getNoteVector(payload.filePath);
+				worker.postMessage(
+					{
+						id,
+						type: "getNoteVectorResult",
+						payload: noteVector,
+					} as WorkerResponse,
+					noteVector ? [noteVector.buffer] : []
+				);
+				break;
+
+			case "getChunkSpansByFilePath":
+				if (!isDbInitialized) {
+					throw new Error(
+						"DB not initialized for getChunkSpansByFilePath."
+					);
+				}
+				if (typeof payload.filePath !== "string") {
+					throw new Error(
+						"Invalid filePath for getChunkSpansByFilePath command."
+					);
+				}
+				postMessage({
+					id,
+					type: "getChunkSpansByFilePathResult",
+					payload: await getChunkSpansByFilePath(payload.filePath),
+				} as WorkerResponse);
+				break;
+
+			case "getAverageVectorByIds":
+				if (!isDbInitialized) {
+					throw new Error(
+						"DB not initialized for getAverageVectorByIds."
+					);
+				}
+				if (!Array.isArray(payload.ids)) {
+					throw new Error(
+						"Invalid payload for getAverageVectorByIds command."
+					);
+				}
+				const sectionVector = await getAverageVectorByIds(payload.ids);
+				worker.postMessage(
+					{
+						id,
+						type: "getAverageVectorByIdsResult",
+						payload: sectionVector,
+					} as WorkerResponse,
+					sectionVector ? [sectionVector.buffer] : []
 				);
+				break;
+
+			case "searchSimilarNoteVectors":
+				if (!isDbInitialized) {
+					throw new Error(
+						"DB not initialized for searchSimilarNoteVectors."
+					);
+				}
+				if (!(payload.vector instanceof Float32Array)) {
+					throw new Error(
+						"Invalid payload for searchSimilarNoteVectors command."
+					);
+				}
 				postMessage({
 					id,
-					type: "getVectorsByFilePathResult",
-					payload: fileVectors,
+					type: "searchSimilarNoteVectorsResult",
+					payload: await searchSimilarNoteVectors(
+						payload.vector,
+						payload.limit,
+						payload.excludeFilePaths
+					),
 				} as WorkerResponse);
 				break;
 
@@ -1463,7 +3442,8 @@ worker.onmessage = async (event: MessageEvent) => {
 				}
 				if (
 					typeof payload.oldPath !== "string" ||
-					typeof payload.newPath !== "string"
+					typeof payload.newPath !== "string" ||
+					payload.oldPath === payload.newPath
 				) {
 					throw new Error(
 						"Invalid oldPath or newPath for updateFilePath command."
@@ -1471,16 +3451,35 @@ worker.onmessage = async (event: MessageEvent) => {
 				}
 				const oldPath = payload.oldPath as string;
 				const newPath = payload.newPath as string;
-				const updateResult = await pgliteInstance!.query(
-					`UPDATE ${quoteIdentifier(
-						EMBEDDINGS_TABLE_NAME
-					)} SET file_path = $1 WHERE file_path = $2`,
-					[newPath, oldPath]
+				// 移動先に残っている行を消してから、すべてのテーブルを同時に書き換える
+				const updatedCount = await pgliteInstance!.transaction(
+					async (tx) => {
+						let count = 0;
+						for (const tableName of [
+							EMBEDDINGS_TABLE_NAME,
+							FILE_MANIFEST_TABLE_NAME,
+							NOTE_EMBEDDINGS_TABLE_NAME,
+						]) {
+							const quotedTable = quoteIdentifier(tableName);
+							await tx.query(
+								`DELETE FROM ${quotedTable} WHERE file_path = $1`,
+								[newPath]
+							);
+							const result = await tx.query(
+								`UPDATE ${quotedTable} SET file_path = $1 WHERE file_path = $2`,
+								[newPath, oldPath]
+							);
+							if (tableName === EMBEDDINGS_TABLE_NAME) {
+								count = result.affectedRows ?? 0;
+							}
+						}
+						return count;
+					}
 				);
 				postMessage({
 					id,
 					type: "updateFilePathResponse",
-					payload: { count: updateResult.affectedRows ?? 0 },
+					payload: { count: updatedCount ?? 0 },
 				} as WorkerResponse);
 				break;
 
@@ -1494,15 +3493,28 @@ worker.onmessage = async (event: MessageEvent) => {
 				break;
 		}
 	} catch (error: any) {
-		postLogMessage(
-			"error",
-			`Error processing message type ${type}:`,
-			error
-		);
+		if (error instanceof WorkerRequestCancelledError) {
+			postLogMessage("info", `Request ${type} (${id}) was cancelled.`);
+		} else {
+			postLogMessage(
+				"error",
+				`Error processing message type ${type}:`,
+				error
+			);
+		}
 		postMessage({
 			id,
 			type: "errorResponse",
 			payload: error.message || "An unknown error occurred.",
-		});
+			code:
+				error instanceof PGliteResourceError
+					? error.code
+					: error instanceof WorkerRequestCancelledError
+					? REQUEST_CANCELLED_ERROR_CODE
+					: undefined,
+		} as WorkerResponse);
+	} finally {
+		activeRequestIds.delete(id);
+		cancelledRequestIds.delete(id);
 	}
-};
+}
@@ -1,5 +1,7 @@
 import { LoggerService } from "../../shared/services/LoggerService";
 import {
+	type PackedVectors,
+	type WorkerInitializeSettings,
 	type WorkerRequest,
 	type WorkerResponse,
 	type VectorizeAndStoreResponse,
@@ -9,82 +11,439 @@ import {
 	type BulkVectorizeAndLoadResponse,
 	type EnsureIndexesResponse,
 	type GetVectorsByFilePathResponse,
+	type GetNoteVectorResponse,
+	type FindDuplicatesResponse,
+	type ClusterNotesResponse,
+	type GetChunkSpansByFilePathResponse,
+	type GetAverageVectorByIdsResponse,
 	type UpdateFilePathResponse,
+	type GetRebuildCheckpointResponse,
+	type ClearRebuildCheckpointResponse,
+	type BulkVectorizeAndLoadRequest,
+	type GetFileManifestResponse,
+	type UpsertFileManifestResponse,
+	type GetEmbeddingCacheStatsResponse,
+	type ConfigureEmbeddingCacheResponse,
 } from "../../shared/types/integrated-worker";
 import IntegratedWorkerCode from "./IntegratedWorker.worker?worker";
+import {
+	REQUEST_CANCELLED_ERROR_CODE,
+	WorkerInitializationError,
+	WorkerRequestCancelledError,
+	WorkerRequestTimeoutError,
+	WorkerRestartedError,
+} from "./workerErrors";
+import type { RequestPriority } from "./requestScheduler";
+import type { SchemaResetReason } from "../storage/pglite/migrations";
 import type {
 	ChunkInfo,
+	EmbeddingCacheStats,
+	FileManifestEntry,
+	RebuildCheckpoint,
 	SearchOptions,
+	SearchQuery,
 	SimilarityResultItem,
+	NoteSimilarityResult,
+	NoteVectorResultItem,
+	ChunkSpan,
 } from "../../core/storage/types";
+import type { NoteAggregationOptions } from "../search/noteAggregation";
+import type { DuplicateKind, DuplicatePair } from "../search/duplicates";
+import type { NoteCluster } from "../search/clustering";
+
+export interface WorkerRequestOptions {
+	signal?: AbortSignal;
+	// 省略時はリクエストの種類ごとの既定値を使う
+	timeoutMs?: number;
+	// 省略時はリクエストの種類ごとの既定値を使う
+	priority?: RequestPriority;
+}
+
+type WorkerRequestType = WorkerRequest["type"];
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+
+// 対話的な処理は短く、インデックス構築などの重い処理は長めに設定する
+const REQUEST_TIMEOUTS_MS: Partial<Record<WorkerRequestType, number>> = {
+	vectorizeSentences: 60 * 1000,
+	search: 30 * 1000,
+	searchSimilarByVector: 30 * 1000,
+	searchNotes: 30 * 1000,
+	searchNotesByVector: 30 * 1000,
+	averageVectors: 10 * 1000,
+	getVectorsByFilePath: 30 * 1000,
+	getNoteVector: 10 * 1000,
+	findDuplicates: 30 * 60 * 1000,
+	clusterNotes: 30 * 60 * 1000,
+	getChunkSpansByFilePath: 10 * 1000,
+	getAverageVectorByIds: 10 * 1000,
+	searchSimilarNoteVectors: 30 * 1000,
+	deleteVectorsByFilePath: 60 * 1000,
+	updateFilePath: 60 * 1000,
+	bulkVectorizeAndLoad: 30 * 60 * 1000,
+	rebuildDb: 10 * 60 * 1000,
+	ensureIndexes: 60 * 60 * 1000,
+};
+
+// ユーザーが結果を待っている読み取りを、インデックス構築より先に処理させる
+const REQUEST_PRIORITIES: Partial<Record<WorkerRequestType, RequestPriority>> =
+	{
+		vectorizeSentences: "interactive",
+		search: "interactive",
+		searchSimilarByVector: "interactive",
+		searchNotes: "interactive",
+		searchNotesByVector: "interactive",
+		averageVectors: "interactive",
+		getVectorsByFilePath: "interactive",
+		getNoteVector: "interactive",
+		getChunkSpansByFilePath: "interactive",
+		getAverageVectorByIds: "interactive",
+		searchSimilarNoteVectors: "interactive",
+		vectorizeAndStore: "background",
+		findDuplicates: "background",
+		clusterNotes: "background",
+		deleteVectorsByFilePath: "background",
+		updateFilePath: "background",
+		bulkVectorizeAndLoad: "background",
+		getRebuildCheckpoint: "background",
+		clearRebuildCheckpoint: "background",
+		getFileManifest: "background",
+		upsertFileManifest: "background",
+		getEmbeddingCacheStats: "background",
+		configureEmbeddingCache: "background",
+		rebuildDb: "maintenance",
+		ensureIndexes: "maintenance",
+		closeDb: "maintenance",
+		testSimilarity: "maintenance",
+	};
+
+// 再起動時に新しい Worker へ再送しても結果が変わらないリクエスト
+const REPLAYABLE_REQUEST_TYPES: ReadonlySet<WorkerRequestType> = new Set([
+	"vectorizeSentences",
+	"search",
+	"searchSimilarByVector",
+	"searchNotes",
+	"searchNotesByVector",
+	"getVectorsByFilePath",
+	"getNoteVector",
+	"getChunkSpansByFilePath",
+	"getAverageVectorByIds",
+	"searchSimilarNoteVectors",
+	"vectorizeAndStore",
+	"deleteVectorsByFilePath",
+	"getFileManifest",
+	"upsertFileManifest",
+]);
+
+// 同期的に長時間スレッドを占有し、その間は heartbeat に応答できないリクエスト
+const BLOCKING_REQUEST_TYPES: ReadonlySet<WorkerRequestType> = new Set([
+	"ensureIndexes",
+	"rebuildDb",
+	"bulkVectorizeAndLoad",
+	"findDuplicates",
+	"clusterNotes",
+]);
+
+const HEARTBEAT_INTERVAL_MS = 10 * 1000;
+const HEARTBEAT_TIMEOUT_MS = 45 * 1000;
+// この期間内に再起動が続く場合は、自動再起動を諦める
+const RESTART_WINDOW_MS = 5 * 60 * 1000;
+const MAX_RESTARTS_IN_WINDOW = 3;
+
+export interface WorkerHealth {
+	state: "starting" | "ready" | "restarting" | "failed";
+	restartCount: number;
+	lastError?: string;
+}
+
+interface PendingRequest {
+	type: WorkerRequestType;
+	request: WorkerRequest;
+	replayable: boolean;
+	resolve: (value: any) => void;
+	reject: (reason?: any) => void;
+}
 
 export class IntegratedWorkerProxy {
 	private worker: Worker;
-	private requestPromises: Map<
-		string,
-		{ resolve: (value: any) => void; reject: (reason?: any) => void }
-	> = new Map();
+	private requestPromises: Map<string, PendingRequest> = new Map();
 	private isWorkerInitialized: boolean = false;
+	private schemaResetReason: SchemaResetReason | null = null;
 	private initializationPromise: Promise<boolean>;
 	private logger: LoggerService | null;
+	private health: WorkerHealth = { state: "starting", restartCount: 0 };
+	private healthListeners: ((health: WorkerHealth) => void)[] = [];
+	private restartTimestamps: number[] = [];
+	private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+	private pendingPingSentAt: number | null = null;
+	private isTerminated = false;
+	// 新しい Worker を作る前の初期化設定の読み込み中か
+	private isRecreatingWorker = false;
+	private abortInitialization: ((error: Error) => void) | null = null;
 
-	constructor(logger: LoggerService | null) {
+	constructor(
+		logger: LoggerService | null,
+		initializeSettings?: WorkerInitializeSettings,
+		// 再起動時に初期化設定を作り直す (ArrayBuffer は初回の移譲で使えなくなるため)
+		private reloadInitializeSettings?: () => Promise<WorkerInitializeSettings>
+	) {
 		this.logger = logger;
+		this.worker = this.createWorker();
+		this.initializationPromise = this.initializeWorker(initializeSettings);
+		this.initializationPromise.catch(() => {
+			// 失敗は ensureInitialized の呼び出し元に伝わる
+		});
+	}
 
+	private createWorker(): Worker {
 		// 通常のWorkerを作成（esbuildのインラインWorkerプラグインでバンドルされている）
-		this.worker = new IntegratedWorkerCode();
+		const worker = new IntegratedWorkerCode();
+		this.worker = worker;
 		this.setupWorkerListeners();
+		return worker;
+	}
 
+	private initializeWorker(
+		initializeSettings?: WorkerInitializeSettings
+	): Promise<boolean> {
+		const worker = this.worker;
 		// Worker の初期化完了を待つ Promise を作成
-		this.initializationPromise = new Promise((resolve, reject) => {
+		return new Promise((resolve, reject) => {
 			const checkInitialization = (event: MessageEvent) => {
 				const data = event.data as WorkerResponse;
 				if (data.type === "initialized") {
-					this.worker.removeEventListener(
-						"message",
-						checkInitialization
-					);
+					worker.removeEventListener("message", checkInitialization);
+					this.abortInitialization = null;
 					this.isWorkerInitialized = data.payload;
+					this.schemaResetReason =
+						data.schemaResetReason ?? this.schemaResetReason;
 					if (this.isWorkerInitialized) {
 						this.logger?.verbose_log(
 							"IntegratedWorkerProxy: Worker initialization successful."
 						);
+						this.setHealth({ state: "ready" });
+						this.startHeartbeat();
 						resolve(true);
 					} else {
 						this.logger?.error(
 							"IntegratedWorkerProxy: Worker initialization failed."
 						);
-						reject(new Error("Worker initialization failed."));
+						this.setHealth({ state: "failed" });
+						reject(
+							new WorkerInitializationError(
+								"Worker initialization failed."
+							)
+						);
 					}
 				} else if (
 					data.type === "errorResponse" &&
 					!this.isWorkerInitialized
 				) {
 					// 初期化中のエラー
-					this.worker.removeEventListener(
-						"message",
-						checkInitialization
-					);
+					worker.removeEventListener("message", checkInitialization);
+					this.abortInitialization = null;
 					this.logger?.error(
 						"IntegratedWorkerProxy: Received error during initialization:",
 						data.payload
 					);
+					this.setHealth({ state: "failed" });
 					reject(
-						new Error(
-							`Worker initialization error: ${data.payload}`
+						new WorkerInitializationError(
+							`Worker initialization error: ${data.payload}`,
+							data.code
 						)
 					);
 				}
 			};
-			this.worker.addEventListener("message", checkInitialization);
+			worker.addEventListener("message", checkInitialization);
+			this.abortInitialization = (error) => {
+				worker.removeEventListener("message", checkInitialization);
+				this.abortInitialization = null;
+				reject(error);
+			};
 
+			// ローカルモデルと PGlite のファイルはコピーせずに Worker へ移譲する
+			const transfer = [
+				...Object.values(initializeSettings?.localModel?.files ?? {}),
+				...Object.values(initializeSettings?.pgliteResources ?? {}),
+			];
+			worker.postMessage(
+				{
+					id: crypto.randomUUID(),
+					type: "initialize",
+					payload: { settings: initializeSettings },
+				} as WorkerRequest,
+				transfer
+			);
+		});
+	}
+
+	// 初期化時に互換性のないベクトルが破棄されていれば、その理由を一度だけ返す
+	takeSchemaResetReason(): SchemaResetReason | null {
+		const reason = this.schemaResetReason;
+		this.schemaResetReason = null;
+		return reason;
+	}
+
+	getHealth(): WorkerHealth {
+		return { ...this.health };
+	}
+
+	onHealthChange(listener: (health: WorkerHealth) => void): void {
+		this.healthListeners.push(listener);
+	}
+
+	private setHealth(update: Partial<WorkerHealth>): void {
+		this.health = { ...this.health, ...update };
+		const snapshot = this.getHealth();
+		this.healthListeners.forEach((listener) => listener(snapshot));
+	}
+
+	private startHeartbeat(): void {
+		this.stopHeartbeat();
+		this.pendingPingSentAt = null;
+		this.heartbeatTimer = setInterval(
+			() => this.checkHeartbeat(),
+			HEARTBEAT_INTERVAL_MS
+		);
+	}
+
+	private stopHeartbeat(): void {
+		if (this.heartbeatTimer !== null) {
+			clearInterval(this.heartbeatTimer);
+			this.heartbeatTimer = null;
+		}
+		this.pendingPingSentAt = null;
+	}
+
+	private checkHeartbeat(): void {
+		if (this.pendingPingSentAt === null) {
+			this.pendingPingSentAt = Date.now();
 			this.worker.postMessage({
 				id: crypto.randomUUID(),
-				type: "initialize",
+				type: "ping",
 			} as WorkerRequest);
+			return;
+		}
+		if (Date.now() - this.pendingPingSentAt < HEARTBEAT_TIMEOUT_MS) {
+			return;
+		}
+		// インデックス作成などはスレッドを長時間占有するため、応答がなくても待つ
+		const hasBlockingRequest = Array.from(
+			this.requestPromises.values()
+		).some((pending) => BLOCKING_REQUEST_TYPES.has(pending.type));
+		if (hasBlockingRequest) {
+			return;
+		}
+		this.restartWorker(
+			`no heartbeat response for ${HEARTBEAT_TIMEOUT_MS} ms`
+		);
+	}
+
+	private restartWorker(reason: string): void {
+		if (this.isTerminated || this.isRecreatingWorker) return;
+
+		this.logger?.warn(
+			`IntegratedWorkerProxy: Restarting worker (${reason}).`
+		);
+		this.stopHeartbeat();
+		this.worker.terminate();
+		this.isWorkerInitialized = false;
+		this.abortInitialization?.(new WorkerRestartedError("initialize"));
+
+		const now = Date.now();
+		this.restartTimestamps = this.restartTimestamps.filter(
+			(timestamp) => now - timestamp < RESTART_WINDOW_MS
+		);
+		if (
+			this.restartTimestamps.length >= MAX_RESTARTS_IN_WINDOW ||
+			!this.reloadInitializeSettings
+		) {
+			this.logger?.error(
+				"IntegratedWorkerProxy: Worker keeps failing. Giving up automatic restarts."
+			);
+			this.setHealth({ state: "failed", lastError: reason });
+			this.rejectAllPending(
+				(pending) =>
+					new Error(
+						`Worker terminated unexpectedly. Request ${pending.request.id} failed.`
+					)
+			);
+			this.initializationPromise = Promise.reject(
+				new WorkerInitializationError(
+					`Worker stopped responding and could not be restarted: ${reason}`
+				)
+			);
+			this.initializationPromise.catch(() => {});
+			return;
+		}
+		this.restartTimestamps.push(now);
+
+		// 冪等なリクエストは新しい Worker で再送し、それ以外は失敗として返す
+		const replayIds: string[] = [];
+		this.requestPromises.forEach((pending, id) => {
+			if (pending.replayable) {
+				replayIds.push(id);
+			} else {
+				pending.reject(new WorkerRestartedError(pending.type));
+			}
+		});
+
+		this.setHealth({
+			state: "restarting",
+			restartCount: this.health.restartCount + 1,
+			lastError: reason,
+		});
+		const reloadInitializeSettings = this.reloadInitializeSettings;
+		this.isRecreatingWorker = true;
+		const restartPromise = (async () => {
+			let settings: WorkerInitializeSettings;
+			try {
+				settings = await reloadInitializeSettings();
+			} finally {
+				this.isRecreatingWorker = false;
+			}
+			if (this.isTerminated) {
+				throw new Error("Worker was terminated during restart.");
+			}
+			this.createWorker();
+			await this.initializeWorker(settings);
+			for (const id of replayIds) {
+				const pending = this.requestPromises.get(id);
+				if (pending) {
+					this.logger?.verbose_log(
+						`IntegratedWorkerProxy: Replaying request ${id} (${pending.type}).`
+					);
+					this.worker.postMessage(pending.request);
+				}
+			}
+			return true;
+		})();
+		this.initializationPromise = restartPromise;
+		restartPromise.catch((error) => {
+			// さらに再起動が始まった場合は、そちらに任せる
+			if (
+				this.isTerminated ||
+				restartPromise !== this.initializationPromise
+			) {
+				return;
+			}
+			this.logger?.error(
+				"IntegratedWorkerProxy: Failed to restart worker:",
+				error
+			);
+			this.setHealth({ state: "failed" });
+			this.rejectAllPending(() => error);
 		});
 	}
 
+	private rejectAllPending(createError: (pending: PendingRequest) => Error) {
+		this.requestPromises.forEach((pending) => {
+			pending.reject(createError(pending));
+		});
+		this.requestPromises.clear();
+	}
+
 	private setupWorkerListeners(): void {
 		this.worker.onmessage = (event: MessageEvent) => {
 			const data = event.data as WorkerResponse;
@@ -93,7 +452,14 @@ export class IntegratedWorkerProxy {
 			// 対応するプロミスを探して解決
 			const promise = this.requestPromises.get(id);
 			if (promise) {
-				if (type === "errorResponse") {
+				if (
+					type === "errorResponse" &&
+					data.code === REQUEST_CANCELLED_ERROR_CODE
+				) {
+					promise.reject(
+						new WorkerRequestCancelledError(promise.type)
+					);
+				} else if (type === "errorResponse") {
 					promise.reject(new Error(`Worker error: ${payload}`));
 				} else {
 					promise.resolve(payload);
@@ -128,6 +494,8 @@ export class IntegratedWorkerProxy {
 							break;
 					}
 				}
+			} else if (type === "pong") {
+				this.pendingPingSentAt = null;
 			} else if (type === "progress") {
 				this.logger?.verbose_log(
 					`[IntegratedWorker Progress] ${JSON.stringify(payload)}`
@@ -145,74 +513,123 @@ export class IntegratedWorkerProxy {
 				"IntegratedWorkerProxy: Uncaught error in worker:",
 				error
 			);
-			// 保留中のすべての Promise を reject する
-			this.requestPromises.forEach((promise, id) => {
-				promise.reject(
-					new Error(
-						`Worker terminated unexpectedly. Request ${id} failed.`
-					)
-				);
-			});
-			this.requestPromises.clear();
-			this.isWorkerInitialized = false;
+			this.restartWorker(`uncaught error: ${error.message}`);
 		};
 	}
 
 	async ensureInitialized(): Promise<void> {
-		if (!this.isWorkerInitialized) {
+		// 待っている間に再起動が始まった場合は、新しい初期化も待つ
+		while (!this.isWorkerInitialized) {
 			this.logger?.verbose_log(
 				"IntegratedWorkerProxy: Waiting for worker initialization..."
 			);
-			await this.initializationPromise;
+			const promise = this.initializationPromise;
+			try {
+				await promise;
+			} catch (error) {
+				if (promise === this.initializationPromise) throw error;
+				continue;
+			}
+			if (promise === this.initializationPromise) break;
 		}
 	}
 	private async sendRequest<T>(
-		request: Omit<WorkerRequest, "id">
+		request: Omit<WorkerRequest, "id">,
+		options: WorkerRequestOptions = {},
+		transfer: Transferable[] = []
 	): Promise<T> {
+		const type = request.type as WorkerRequestType;
+		const { signal } = options;
+		if (signal?.aborted) {
+			throw new WorkerRequestCancelledError(type);
+		}
+
 		await this.ensureInitialized();
 
 		return new Promise((resolve, reject) => {
+			if (signal?.aborted) {
+				reject(new WorkerRequestCancelledError(type));
+				return;
+			}
+
 			const id = crypto.randomUUID();
-			this.requestPromises.set(id, { resolve, reject });
+			const timeoutMs =
+				options.timeoutMs ??
+				REQUEST_TIMEOUTS_MS[type] ??
+				DEFAULT_TIMEOUT_MS;
+
+			const cleanup = () => {
+				clearTimeout(timeoutId);
+				signal?.removeEventListener("abort", onAbort);
+				this.requestPromises.delete(id);
+			};
+			const onAbort = () => {
+				if (!this.requestPromises.has(id)) return;
+				cleanup();
+				this.cancelRequest(id);
+				reject(new WorkerRequestCancelledError(type));
+			};
+			const timeoutId = setTimeout(() => {
+				if (!this.requestPromises.has(id)) return;
+				cleanup();
+				this.logger?.error(
+					`IntegratedWorkerProxy: Request ${id} (${type}) timed out after ${timeoutMs} ms.`
+				);
+				// Worker 側でも処理を打ち切らせる
+				this.cancelRequest(id);
+				reject(new WorkerRequestTimeoutError(type, timeoutMs));
+			}, timeoutMs);
 
 			const fullRequest = {
 				...request,
 				id,
+				priority:
+					options.priority ??
+					REQUEST_PRIORITIES[type] ??
+					"background",
 			} as WorkerRequest;
-			this.worker.postMessage(fullRequest);
-
-			// タイムアウト処理
-			const timeoutId = setTimeout(() => {
-				if (this.requestPromises.has(id)) {
-					this.requestPromises.delete(id);
-					this.logger?.error(
-						`IntegratedWorkerProxy: Request ${id} timed out.`
-					);
-					reject(new Error(`Request timed out after 60 seconds.`));
-				}
-			}, 60000 * 30);
 
-			// Promiseが解決または拒否されたときにタイムアウトをクリア
-			const promise = this.requestPromises.get(id);
-			if (promise) {
-				promise.resolve = (value) => {
-					clearTimeout(timeoutId);
+			this.requestPromises.set(id, {
+				type,
+				request: fullRequest,
+				// 移譲したバッファは再送できない
+				replayable:
+					REPLAYABLE_REQUEST_TYPES.has(type) && transfer.length === 0,
+				resolve: (value) => {
+					cleanup();
 					resolve(value);
-				};
-				promise.reject = (reason) => {
-					clearTimeout(timeoutId);
+				},
+				reject: (reason) => {
+					cleanup();
 					reject(reason);
-				};
-			}
+				},
+			});
+			signal?.addEventListener("abort", onAbort);
+
+			this.worker.postMessage(fullRequest, transfer);
 		});
 	}
 
+	private cancelRequest(requestId: string): void {
+		this.worker.postMessage({
+			id: crypto.randomUUID(),
+			type: "cancel",
+			payload: { requestId },
+		} as WorkerRequest);
+	}
+
 	// 公開メソッド（現在はスケルトンのみ）
-	async vectorizeSentences(sentences: string[]): Promise<number[][]> {
-		return this.sendRequest({
-			type: "vectorizeSentences",
-			payload: { sentences },
-		});
+	async vectorizeSentences(
+		sentences: string[],
+		options?: WorkerRequestOptions
+	): Promise<PackedVectors> {
+		return this.sendRequest(
+			{
+				type: "vectorizeSentences",
+				payload: { sentences },
+			},
+			options
+		);
 	}
 
 	async vectorizeAndStoreChunks(
@@ -225,15 +642,18 @@ export class IntegratedWorkerProxy {
 	}
 
 	async searchSimilar(
-		query: string,
-		negativeQuery?: string,
+		query: SearchQuery,
 		limit?: number,
-		options?: SearchOptions
+		options?: SearchOptions,
+		requestOptions?: WorkerRequestOptions
 	): Promise<SearchResult["payload"]> {
-		return this.sendRequest({
-			type: "search",
-			payload: { query, negativeQuery, limit, options },
-		});
+		return this.sendRequest(
+			{
+				type: "search",
+				payload: { query, limit, options },
+			},
+			requestOptions
+		);
 	}
 
 	async rebuildDatabase(): Promise<RebuildDbResponse["payload"]> {
@@ -248,10 +668,13 @@ export class IntegratedWorkerProxy {
 		});
 	}
 
-	async closeDatabase(): Promise<boolean> {
-		return this.sendRequest({
-			type: "closeDb",
-		});
+	async closeDatabase(options?: WorkerRequestOptions): Promise<boolean> {
+		return this.sendRequest(
+			{
+				type: "closeDb",
+			},
+			options
+		);
 	}
 
 	async deleteVectorsByFilePath(filePath: string): Promise<number> {
@@ -265,45 +688,200 @@ export class IntegratedWorkerProxy {
 	}
 
 	async bulkVectorizeAndLoad(
-		chunks: ChunkInfo[]
+		chunks: ChunkInfo[],
+		records: Omit<BulkVectorizeAndLoadRequest["payload"], "chunks"> = {},
+		options?: WorkerRequestOptions
 	): Promise<BulkVectorizeAndLoadResponse["payload"]> {
+		return this.sendRequest(
+			{
+				type: "bulkVectorizeAndLoad",
+				payload: { chunks, ...records },
+			},
+			options
+		);
+	}
+
+	async getFileManifest(): Promise<GetFileManifestResponse["payload"]> {
 		return this.sendRequest({
-			type: "bulkVectorizeAndLoad",
-			payload: { chunks },
+			type: "getFileManifest",
 		});
 	}
 
-	async ensureIndexes(): Promise<EnsureIndexesResponse["payload"]> {
+	async upsertFileManifest(entries: FileManifestEntry[]): Promise<number> {
+		const response = await this.sendRequest<
+			UpsertFileManifestResponse["payload"]
+		>({
+			type: "upsertFileManifest",
+			payload: { entries },
+		});
+		return response.count;
+	}
+
+	async getRebuildCheckpoint(): Promise<RebuildCheckpoint | null> {
+		return this.sendRequest<GetRebuildCheckpointResponse["payload"]>({
+			type: "getRebuildCheckpoint",
+		});
+	}
+
+	async clearRebuildCheckpoint(): Promise<boolean> {
+		return this.sendRequest<ClearRebuildCheckpointResponse["payload"]>({
+			type: "clearRebuildCheckpoint",
+		});
+	}
+
+	async getEmbeddingCacheStats(): Promise<EmbeddingCacheStats> {
+		return this.sendRequest<GetEmbeddingCacheStatsResponse["payload"]>({
+			type: "getEmbeddingCacheStats",
+		});
+	}
+
+	async configureEmbeddingCache(
+		maxSizeBytes: number
+	): Promise<ConfigureEmbeddingCacheResponse["payload"]> {
 		return this.sendRequest({
-			type: "ensureIndexes",
+			type: "configureEmbeddingCache",
+			payload: { maxSizeBytes },
 		});
 	}
 
-	async averageVectors(vectors: number[][]): Promise<number[]> {
+	async ensureIndexes(): Promise<EnsureIndexesResponse["payload"]> {
 		return this.sendRequest({
-			type: "averageVectors",
-			payload: { vectors },
+			type: "ensureIndexes",
 		});
 	}
 
+	// vectors.data は Worker へ移譲されるため、呼び出し後は使用できない
+	async averageVectors(vectors: PackedVectors): Promise<Float32Array> {
+		return this.sendRequest(
+			{
+				type: "averageVectors",
+				payload: { vectors },
+			},
+			{},
+			[vectors.data.buffer]
+		);
+	}
+
 	async searchSimilarByVector(
-		vector: number[],
+		vector: Float32Array,
 		limit?: number,
-		options?: SearchOptions
+		options?: SearchOptions,
+		requestOptions?: WorkerRequestOptions
 	): Promise<SimilarityResultItem[]> {
-		return this.sendRequest({
-			type: "searchSimilarByVector",
-			payload: { vector, limit, options },
-		});
+		return this.sendRequest(
+			{
+				type: "searchSimilarByVector",
+				payload: { vector, limit, options },
+			},
+			requestOptions
+		);
+	}
+
+	async searchNotes(
+		query: SearchQuery,
+		limit: number | undefined,
+		aggregation: NoteAggregationOptions,
+		options?: SearchOptions,
+		requestOptions?: WorkerRequestOptions
+	): Promise<NoteSimilarityResult[]> {
+		return this.sendRequest(
+			{
+				type: "searchNotes",
+				payload: { query, limit, aggregation, options },
+			},
+			requestOptions
+		);
 	}
 
-	async getVectorsByFilePath(filePath: string): Promise<number[][]> {
+	async searchNotesByVector(
+		vector: Float32Array,
+		limit: number | undefined,
+		aggregation: NoteAggregationOptions,
+		options?: SearchOptions,
+		requestOptions?: WorkerRequestOptions
+	): Promise<NoteSimilarityResult[]> {
+		return this.sendRequest(
+			{
+				type: "searchNotesByVector",
+				payload: { vector, limit, aggregation, options },
+			},
+			requestOptions
+		);
+	}
+
+	async getVectorsByFilePath(filePath: string): Promise<PackedVectors> {
 		return this.sendRequest<GetVectorsByFilePathResponse["payload"]>({
 			type: "getVectorsByFilePath",
 			payload: { filePath },
 		});
 	}
 
+	async getNoteVector(filePath: string): Promise<Float32Array | null> {
+		return this.sendRequest<GetNoteVectorResponse["payload"]>({
+			type: "getNoteVector",
+			payload: { filePath },
+		});
+	}
+
+	async findDuplicates(
+		kind: DuplicateKind,
+		threshold: number,
+		limit: number,
+		ignoredKeys: string[],
+		requestOptions?: WorkerRequestOptions
+	): Promise<DuplicatePair[]> {
+		return this.sendRequest<FindDuplicatesResponse["payload"]>(
+			{
+				type: "findDuplicates",
+				payload: { kind, threshold, limit, ignoredKeys },
+			},
+			requestOptions
+		);
+	}
+
+	async clusterNotes(
+		clusterCount: number,
+		excludeFilePaths: string[],
+		requestOptions?: WorkerRequestOptions
+	): Promise<NoteCluster[]> {
+		return this.sendRequest<ClusterNotesResponse["payload"]>(
+			{
+				type: "clusterNotes",
+				payload: { clusterCount, excludeFilePaths },
+			},
+			requestOptions
+		);
+	}
+
+	async getChunkSpansByFilePath(filePath: string): Promise<ChunkSpan[]> {
+		return this.sendRequest<GetChunkSpansByFilePathResponse["payload"]>({
+			type: "getChunkSpansByFilePath",
+			payload: { filePath },
+		});
+	}
+
+	async getAverageVectorByIds(ids: number[]): Promise<Float32Array | null> {
+		return this.sendRequest<GetAverageVectorByIdsResponse["payload"]>({
+			type: "getAverageVectorByIds",
+			payload: { ids },
+		});
+	}
+
+	async searchSimilarNoteVectors(
+		vector: Float32Array,
+		limit?: number,
+		excludeFilePaths?: string[],
+		requestOptions?: WorkerRequestOptions
+	): Promise<NoteVectorResultItem[]> {
+		return this.sendRequest(
+			{
+				type: "searchSimilarNoteVectors",
+				payload: { vector, limit, excludeFilePaths },
+			},
+			requestOptions
+		);
+	}
+
 	async updateFilePathInDB(
 		oldPath: string,
 		newPath: string
@@ -322,14 +900,17 @@ export class IntegratedWorkerProxy {
 		this.logger?.verbose_log(
 			"IntegratedWorkerProxy: Terminating worker..."
 		);
+		this.isTerminated = true;
+		this.stopHeartbeat();
 		this.worker.terminate();
 		this.isWorkerInitialized = false;
+		this.healthListeners = [];
 		// 保留中の Promise を reject
-		this.requestPromises.forEach((promise, id) => {
-			promise.reject(
-				new Error(`Worker terminated. Request ${id} cancelled.`)
-			);
-		});
-		this.requestPromises.clear();
+		this.rejectAllPending(
+			(pending) =>
+				new Error(
+					`Worker terminated. Request ${pending.request.id} cancelled.`
+				)
+		);
 	}
 }
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { RequestScheduler, type RequestPriority } from "./requestScheduler";
+
+function deferred() {
+	let resolve!: () => void;
+	const promise = new Promise<void>((r) => (resolve = r));
+	return { promise, resolve };
+}
+
+describe("RequestScheduler", () => {
+	it("優先度順、同じ優先度では到着順に実行する", async () => {
+		const scheduler = new RequestScheduler();
+		const order: string[] = [];
+		const gate = deferred();
+		const done = deferred();
+
+		scheduler.enqueue("first", "maintenance", async () => {
+			await gate.promise;
+			order.push("first");
+		});
+		const tasks: [string, RequestPriority][] = [
+			["bg-1", "background"],
+			["maint", "maintenance"],
+			["ui-1", "interactive"],
+			["bg-2", "background"],
+			["ui-2", "interactive"],
+		];
+		for (const [id, priority] of tasks) {
+			scheduler.enqueue(id, priority, async () => {
+				order.push(id);
+				if (id === "maint") done.resolve();
+			});
+		}
+
+		gate.resolve();
+		await done.promise;
+		expect(order).toEqual([
+			"first",
+			"ui-1",
+			"ui-2",
+			"bg-1",
+			"bg-2",
+			"maint",
+		]);
+	});
+
+	it("バッチの区切りで優先度の高いタスクに割り込ませる", async () => {
+		const scheduler = new RequestScheduler();
+		const order: string[] = [];
+		const batchGate = deferred();
+		const done = deferred();
+
+		scheduler.enqueue("bulk", "background", async () => {
+			order.push("bulk-batch-1");
+			await batchGate.promise;
+			await scheduler.yieldToHigherPriority("background");
+			order.push("bulk-batch-2");
+		});
+		scheduler.enqueue("other-bulk", "background", async () => {
+			order.push("other-bulk");
+			done.resolve();
+		});
+		scheduler.enqueue("search", "interactive", async () => {
+			order.push("search");
+		});
+
+		batchGate.resolve();
+		await done.promise;
+		expect(order).toEqual([
+			"bulk-batch-1",
+			"search",
+			"bulk-batch-2",
+			"other-bulk",
+		]);
+	});
+
+	it("実行待ちのタスクを取り除き、失敗したタスクの後も処理を続ける", async () => {
+		const scheduler = new RequestScheduler();
+		const order: string[] = [];
+		const done = deferred();
+
+		scheduler.enqueue("failing", "background", async () => {
+			throw new Error("failed");
+		});
+		scheduler.enqueue("removed", "background", async () => {
+			order.push("removed");
+		});
+		scheduler.enqueue("last", "background", async () => {
+			order.push("last");
+			done.resolve();
+		});
+
+		expect(scheduler.remove("removed")).toBe(true);
+		expect(scheduler.remove("unknown")).toBe(false);
+		await done.promise;
+		expect(order).toEqual(["last"]);
+	});
+});
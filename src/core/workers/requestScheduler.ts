@@ -0,0 +1,82 @@
+// interactive: ユーザー操作を待たせる読み取り, background: 通常の更新, maintenance: 再構築やインデックス作成
+export type RequestPriority = "interactive" | "background" | "maintenance";
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+	interactive: 0,
+	background: 1,
+	maintenance: 2,
+};
+
+interface ScheduledTask {
+	id: string;
+	priority: RequestPriority;
+	sequence: number;
+	run: () => Promise<void>;
+}
+
+// タスクを 1 つずつ、優先度順 (同じ優先度なら到着順) に実行する
+export class RequestScheduler {
+	private queue: ScheduledTask[] = [];
+	private isRunning = false;
+	private sequence = 0;
+
+	get pendingCount(): number {
+		return this.queue.length;
+	}
+
+	enqueue(
+		id: string,
+		priority: RequestPriority,
+		run: () => Promise<void>
+	): void {
+		const task = { id, priority, sequence: this.sequence++, run };
+		const index = this.queue.findIndex(
+			(queued) => PRIORITY_RANK[queued.priority] > PRIORITY_RANK[priority]
+		);
+		if (index === -1) {
+			this.queue.push(task);
+		} else {
+			this.queue.splice(index, 0, task);
+		}
+		void this.pump();
+	}
+
+	// 実行待ちのタスクを取り除く。取り除けた場合は true を返す
+	remove(id: string): boolean {
+		const index = this.queue.findIndex((task) => task.id === id);
+		if (index === -1) return false;
+		this.queue.splice(index, 1);
+		return true;
+	}
+
+	// 長い処理がバッチの区切りで呼び出し、より優先度の高いタスクを先に実行させる
+	async yieldToHigherPriority(priority: RequestPriority): Promise<void> {
+		while (
+			this.queue.length > 0 &&
+			PRIORITY_RANK[this.queue[0].priority] < PRIORITY_RANK[priority]
+		) {
+			const task = this.queue.shift()!;
+			await this.runTask(task);
+		}
+	}
+
+	private async pump(): Promise<void> {
+		if (this.isRunning) return;
+		this.isRunning = true;
+		try {
+			while (this.queue.length > 0) {
+				await this.runTask(this.queue.shift()!);
+			}
+		} finally {
+			this.isRunning = false;
+		}
+	}
+
+	private async runTask(task: ScheduledTask): Promise<void> {
+		try {
+			await task.run();
+		} catch {
+			// エラーの通知は各タスクの責務とし、キューの処理は止めない
+		}
+	}
+}
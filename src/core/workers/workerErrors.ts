@@ -0,0 +1,37 @@
+export class WorkerInitializationError extends Error {
+	constructor(message: string, public readonly code?: string) {
+		super(message);
+		this.name = "WorkerInitializationError";
+	}
+}
+
+// Worker から返されるエラーレスポンスの code
+export const REQUEST_CANCELLED_ERROR_CODE = "request-cancelled";
+
+export class WorkerRequestTimeoutError extends Error {
+	constructor(
+		public readonly requestType: string,
+		public readonly timeoutMs: number
+	) {
+		super(
+			`Worker request "${requestType}" timed out after ${timeoutMs} ms.`
+		);
+		this.name = "WorkerRequestTimeoutError";
+	}
+}
+
+export class WorkerRestartedError extends Error {
+	constructor(public readonly requestType: string) {
+		super(
+			`Worker request "${requestType}" was interrupted because the worker restarted.`
+		);
+		this.name = "WorkerRestartedError";
+	}
+}
+
+export class WorkerRequestCancelledError extends Error {
+	constructor(public readonly requestType: string) {
+		super(`Worker request "${requestType}" was cancelled.`);
+		this.name = "WorkerRequestCancelledError";
+	}
+}
@@ -6,6 +6,7 @@ import {
 	type CachedMetadata,
 	debounce,
 	Editor,
+	MarkdownView,
 	Menu,
 } from "obsidian";
 import { LoggerService } from "./shared/services/LoggerService";
@@ -22,10 +23,21 @@ import { ResourceInitializer } from "./core/handlers/ResourceInitializer";
 import { ViewManager } from "./core/handlers/ViewManager";
 import { CommandRegistrar } from "./core/handlers/CommandRegistrar";
 import { InitialRebuildModal } from "./ui/modals/InitialRebuildModal";
+import { WorkerStatusIndicator } from "./ui/statusBar/WorkerStatusIndicator";
+import { WorkerRequestCancelledError } from "./core/workers/workerErrors";
+import { megabytesToBytes } from "./core/storage/embeddingCache";
+import type { EmbeddingCacheStats } from "./core/storage/types";
+import type { RelatedChunksScope } from "./core/search/cursorSection";
+import type { DuplicateKind, DuplicatePair } from "./core/search/duplicates";
+import {
+	DuplicatesView,
+	VIEW_TYPE_DUPLICATES,
+} from "./ui/duplicates/DuplicatesView";
 
 export default class LocalFastVectorizePlugin extends Plugin {
 	settings: PluginSettings = DEFAULT_SETTINGS;
 	logger: LoggerService | null = null;
+	workerStatusIndicator!: WorkerStatusIndicator;
 
 	// Handler instances
 	private resourceInitializer!: ResourceInitializer;
@@ -33,6 +45,7 @@ export default class LocalFastVectorizePlugin extends Plugin {
 	public viewManager!: ViewManager;
 	public commandRegistrar!: CommandRegistrar;
 	private debouncedHandleActiveLeafChange!: () => void;
+	private debouncedHandleCursorActivity!: () => void;
 
 	async onload() {
 		this.settings = Object.assign(
@@ -43,6 +56,9 @@ export default class LocalFastVectorizePlugin extends Plugin {
 		this.logger = new LoggerService();
 		this.logger.updateSettings(this.settings);
 		this.addSettingTab(new VectorizerSettingTab(this.app, this));
+		this.workerStatusIndicator = new WorkerStatusIndicator(
+			this.addStatusBarItem()
+		);
 
 		// Initialize handlers
 		this.resourceInitializer = new ResourceInitializer(
@@ -86,6 +102,12 @@ export default class LocalFastVectorizePlugin extends Plugin {
 			100,
 			true
 		);
+		// 入力中やカーソルの移動中に何度も検索しないよう、止まってから反映する
+		this.debouncedHandleCursorActivity = debounce(
+			this.viewManager.handleCursorActivity.bind(this.viewManager),
+			500,
+			true
+		);
 
 		this.app.workspace.onLayoutReady(async () => {
 			this.logger?.verbose_log(
@@ -134,6 +156,13 @@ export default class LocalFastVectorizePlugin extends Plugin {
 					// Normal background initialization when not rebuilding
 					try {
 						await this.resourceInitializer.initializeResources();
+						const hasInterruptedRebuild =
+							await this.commandRegistrar.offerToResumeInterruptedRebuild(
+								() => this.reconcileVaultInBackground()
+							);
+						if (!hasInterruptedRebuild) {
+							void this.reconcileVaultInBackground();
+						}
 					} catch (error) {
 						console.error(
 							"Background resource initialization failed:",
@@ -161,6 +190,19 @@ export default class LocalFastVectorizePlugin extends Plugin {
 					this.debouncedHandleActiveLeafChange
 				)
 			);
+			this.registerEvent(
+				this.app.workspace.on(
+					"editor-change",
+					this.debouncedHandleCursorActivity
+				)
+			);
+			// Obsidian にはカーソル移動のイベントがないため、エディタ内の選択範囲の変化で代用する。
+			// 設定画面やモーダルなど、アクティブなエディタ以外での選択は無視する
+			this.registerDomEvent(document, "selectionchange", () => {
+				if (this.isSelectionInActiveEditor()) {
+					this.debouncedHandleCursorActivity();
+				}
+			});
 			this.viewManager.handleActiveLeafChange();
 		});
 
@@ -240,6 +282,10 @@ export default class LocalFastVectorizePlugin extends Plugin {
 			VIEW_TYPE_RELATED_CHUNKS,
 			(leaf) => new RelatedChunksView(leaf, this)
 		);
+		this.registerView(
+			VIEW_TYPE_DUPLICATES,
+			(leaf) => new DuplicatesView(leaf, this)
+		);
 
 		this.commandRegistrar.registerAllCommands();
 	}
@@ -247,6 +293,7 @@ export default class LocalFastVectorizePlugin extends Plugin {
 	async onunload() {
 		this.logger?.verbose_log("Unloading vector plugin...");
 		this.app.workspace.detachLeavesOfType(VIEW_TYPE_RELATED_CHUNKS);
+		this.app.workspace.detachLeavesOfType(VIEW_TYPE_DUPLICATES);
 
 		this.fileEventHandler.clearAllTimers();
 		this.resourceInitializer.terminate();
@@ -262,6 +309,48 @@ export default class LocalFastVectorizePlugin extends Plugin {
 		}
 	}
 
+	// 統計を表示するためだけにリソースを初期化しないよう、未初期化なら null を返す
+	async getEmbeddingCacheStats(): Promise<EmbeddingCacheStats | null> {
+		const storage = this.resourceInitializer.storageManagementService;
+		return storage ? storage.getEmbeddingCacheStats() : null;
+	}
+
+	async setRelatedChunksScope(scope: RelatedChunksScope): Promise<void> {
+		this.settings.relatedChunksScope = scope;
+		await this.saveSettings();
+		this.viewManager.resetLastProcessedFile();
+		await this.viewManager.handleActiveLeafChange();
+	}
+
+	async findDuplicates(kind: DuplicateKind): Promise<DuplicatePair[]> {
+		await this.resourceInitializer.ensureResourcesInitialized();
+		const searchService = this.resourceInitializer.searchService;
+		if (!searchService) {
+			throw new Error("Search service not ready.");
+		}
+		return searchService.findDuplicates(
+			kind,
+			this.settings.duplicateSimilarityThreshold,
+			this.settings.ignoredDuplicatePairs
+		);
+	}
+
+	async ignoreDuplicatePair(key: string): Promise<void> {
+		if (this.settings.ignoredDuplicatePairs.includes(key)) return;
+		this.settings.ignoredDuplicatePairs = [
+			...this.settings.ignoredDuplicatePairs,
+			key,
+		];
+		await this.saveSettings();
+	}
+
+	// 未初期化の場合は次回の初期化時に設定値が使われる
+	async applyEmbeddingCacheLimit(): Promise<void> {
+		await this.resourceInitializer.storageManagementService?.setEmbeddingCacheLimit(
+			megabytesToBytes(this.settings.embeddingCacheMaxSizeMB)
+		);
+	}
+
 	async rebuildAllIndexes(): Promise<void> {
 		await this.resourceInitializer.ensureResourcesInitialized();
 		if (this.resourceInitializer.commandHandler) {
@@ -331,6 +420,35 @@ export default class LocalFastVectorizePlugin extends Plugin {
 		new Notice(message);
 	}
 
+	// プラグインが動いていない間の変更を、起動後にバックグラウンドで反映する
+	private isSelectionInActiveEditor(): boolean {
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		const anchorNode = document.getSelection()?.anchorNode;
+		if (!view || !anchorNode) return false;
+		// プロパティやインラインタイトルは本文のエディタ (.cm-content) の外にある
+		const editorEl = view.contentEl.querySelector(".cm-content");
+		return editorEl?.contains(anchorNode) ?? false;
+	}
+
+	private async reconcileVaultInBackground(): Promise<void> {
+		const reconciliationService =
+			this.resourceInitializer.reconciliationService;
+		if (!reconciliationService) return;
+		try {
+			const result = await reconciliationService.reconcile();
+			this.logger?.log(
+				`Vault reconciliation finished. Vectorized: ${result.vectorized}, removed: ${result.deleted}, adopted: ${result.adopted}, unchanged: ${result.unchanged}, failed: ${result.failed}.`
+			);
+			if (result.vectorized > 0 || result.deleted > 0) {
+				this.viewManager.resetLastProcessedFile();
+				await this.viewManager.handleActiveLeafChange();
+			}
+		} catch (error) {
+			if (error instanceof WorkerRequestCancelledError) return;
+			this.logger?.error("Vault reconciliation failed:", error);
+		}
+	}
+
 	private async checkDbExists(): Promise<boolean> {
 		try {
 			if (!("indexedDB" in window)) {
@@ -1,23 +1,105 @@
+import {
+	DEFAULT_EMBEDDING_MODEL_ID,
+	type EmbeddingInferenceEngine,
+	type EmbeddingModelDtype,
+	type EmbeddingPoolingStrategy,
+} from "./core/embedding/modelRegistry";
+import type { PGliteResourceSource } from "./core/storage/pglite/pgliteResources";
+import type { SearchFilters } from "./core/storage/types";
+import type {
+	NoteScoreAggregation,
+	ResultLevel,
+} from "./core/search/noteAggregation";
+import {
+	DEFAULT_RANK_FUSION_OPTIONS,
+	type RankFusionMethod,
+	type SearchMode,
+} from "./core/search/hybridSearch";
+import type { RelatedChunksScope } from "./core/search/cursorSection";
+import { DEFAULT_DUPLICATE_SIMILARITY_THRESHOLD } from "./core/search/duplicates";
+
 export interface PluginSettings {
 	provider: string;
+	embeddingModelId: string;
+	inferenceEngine: EmbeddingInferenceEngine;
+	localModelFolderPath: string;
+	localModelDtype: EmbeddingModelDtype;
+	localModelDimensions: number;
+	localModelPooling: EmbeddingPoolingStrategy;
+	pgliteResourceSource: PGliteResourceSource;
+	pgliteResourceFolderPath: string;
+	// 0 の場合は埋め込みをキャッシュしない
+	embeddingCacheMaxSizeMB: number;
 	verboseLoggingEnabled: boolean;
 	searchResultLimit: number;
+	// 検索モーダルを開いたときの検索モード
+	searchMode: SearchMode;
+	searchFusionMethod: RankFusionMethod;
+	// hybrid でベクトル検索の順位に掛ける重み (0〜1)
+	searchSemanticWeight: number;
+	// 検索モーダルを開いたときに、チャンクとノートのどちらで結果を並べるか
+	searchResultLevel: ResultLevel;
+	// ノート単位で並べる場合に、チャンクのスコアを集約する方法
+	noteScoreAggregation: NoteScoreAggregation;
 	relatedChunksResultLimit: number;
+	// 関連チャンクを、ノート全体とカーソル位置のセクションのどちらから探すか
+	relatedChunksScope: RelatedChunksScope;
+	// 関連チャンクの検索対象を絞り込む (フォルダとタグ)
+	relatedChunksFilters: SearchFilters;
+	// 0 の場合は 1 ファイルあたりの件数を制限しない
+	relatedChunksMaxChunksPerFile: number;
+	relatedChunksResultLevel: ResultLevel;
+	// MMR の λ。1 の場合は関連度の順のまま並べ替えない
+	resultDiversityLambda: number;
 	autoShowRelatedChunksSidebar: boolean;
+	// 関連チャンクのビューに、近いノートのタグから提案するタグを表示する
+	showTagSuggestions: boolean;
 	expandRelatedChunksFileGroups: boolean;
 	excludeHeadersInVectorization: boolean;
 	excludeOutgoingLinksFromRelatedChunks: boolean;
 	excludeBacklinksFromRelatedChunks: boolean;
+	// 重複とみなすコサイン類似度の下限
+	duplicateSimilarityThreshold: number;
+	// 重複のレポートで無視した組のキー
+	ignoredDuplicatePairs: string[];
+	// クラスタの一覧を書き出すノート
+	mapOfContentNotePath: string;
+	// 0 の場合はノート数から決める
+	mapOfContentClusterCount: number;
 }
 
 export const DEFAULT_SETTINGS: PluginSettings = {
 	provider: "transformers.js",
+	embeddingModelId: DEFAULT_EMBEDDING_MODEL_ID,
+	inferenceEngine: "onnx",
+	localModelFolderPath: "",
+	localModelDtype: "q8",
+	localModelDimensions: 256,
+	localModelPooling: "sentence_embedding",
+	pgliteResourceSource: "plugin",
+	pgliteResourceFolderPath: "",
+	embeddingCacheMaxSizeMB: 100,
 	verboseLoggingEnabled: false,
 	searchResultLimit: 100,
+	searchMode: "hybrid",
+	searchFusionMethod: DEFAULT_RANK_FUSION_OPTIONS.method,
+	searchSemanticWeight: DEFAULT_RANK_FUSION_OPTIONS.semanticWeight,
+	searchResultLevel: "chunk",
+	noteScoreAggregation: "mean-top-k",
 	relatedChunksResultLimit: 30,
+	relatedChunksScope: "note",
+	relatedChunksFilters: {},
+	relatedChunksMaxChunksPerFile: 0,
+	relatedChunksResultLevel: "chunk",
+	resultDiversityLambda: 1,
 	autoShowRelatedChunksSidebar: true,
+	showTagSuggestions: true,
 	expandRelatedChunksFileGroups: true,
 	excludeHeadersInVectorization: true,
 	excludeOutgoingLinksFromRelatedChunks: true,
 	excludeBacklinksFromRelatedChunks: true,
+	duplicateSimilarityThreshold: DEFAULT_DUPLICATE_SIMILARITY_THRESHOLD,
+	ignoredDuplicatePairs: [],
+	mapOfContentNotePath: "Map of Content.md",
+	mapOfContentClusterCount: 0,
 };
@@ -1,6 +1,16 @@
 export const DB_NAME = "local-fast-vector-search"; // Idbの名前
 export const EMBEDDINGS_TABLE_NAME = "embeddings";
-export const EMBEDDINGS_DIMENSIONS = 256;
+export const SCHEMA_META_TABLE_NAME = "schema_meta"; // スキーマのバージョンと DB を作成したモデル (1 行のみ)
+export const EMBEDDINGS_STAGING_TABLE_NAME = "embeddings_staging"; // UPSERT 用の一時テーブル
+export const REBUILD_STATE_TABLE_NAME = "rebuild_state"; // 再構築の進捗 (1 行のみ)
+export const REBUILD_COMPLETED_FILES_TABLE_NAME = "rebuild_completed_files";
+export const FILE_MANIFEST_TABLE_NAME = "file_manifest"; // ファイルごとのインデックス状態
+export const EMBEDDING_CACHE_TABLE_NAME = "embedding_cache"; // 再構築をまたいで残す埋め込みのキャッシュ
+export const NOTE_EMBEDDINGS_TABLE_NAME = "note_embeddings"; // ノートごとのチャンクの重心ベクトル
+// チャンク分割や保存する列の仕様を変えた場合に上げ、起動時の照合で再ベクトル化させる
+// (2: チャンクのテキストと見出し・タグを保存。内容の変わらないチャンクは再ベクトル化されない)
+// (3: フロントマターのプロパティを保存)
+export const INDEX_CHUNKER_VERSION = 3;
 export const MIN_CHUNK_SIZE = 150;
 export const MAX_CHUNK_SIZE = 1000;
 export const MAX_SENTENCE_CHARS = 100;
@@ -10,3 +20,4 @@ export const MIN_SENTENCE_CHARS = 5;
 export const HNSW_M = 8;
 export const HNSW_EF_CONSTRUCTION = 64;
 export const HNSW_EF_SEARCH = 220;
+export const MAX_HNSW_EF_SEARCH = 1000; // pgvector で設定できる ef_search の上限
@@ -1,7 +1,11 @@
+import type { RequestPriority } from "../../core/workers/requestScheduler";
+
 // ===== Base Types =====
 export interface BaseRequest {
 	id: string;
 	type: string;
+	// 省略時は background として扱う
+	priority?: RequestPriority;
 }
 
 export interface BaseResponse {
@@ -10,11 +14,48 @@ export interface BaseResponse {
 	payload?: any;
 }
 
+import type {
+	EmbeddingInferenceEngine,
+	EmbeddingModelDefinition,
+} from "../../core/embedding/modelRegistry";
+import type { PGliteResourceName } from "../../core/storage/pglite/pgliteResources";
+import type { SchemaResetReason } from "../../core/storage/pglite/migrations";
+
+// count x dimensions のベクトルを行優先で詰めたもの (data.buffer は移譲される)
+export interface PackedVectors {
+	data: Float32Array;
+	dimensions: number;
+}
+
 // ===== Request Types =====
+export interface LocalModelPayload {
+	definition: EmbeddingModelDefinition;
+	// モデルフォルダからの相対パス -> ファイル内容
+	files: Record<string, ArrayBuffer>;
+}
+
+export interface WorkerInitializeSettings {
+	embeddingModelId?: string;
+	inferenceEngine?: EmbeddingInferenceEngine;
+	localModel?: LocalModelPayload;
+	// 指定された場合は CDN からダウンロードせずにこれらのファイルを使用する
+	pgliteResources?: Partial<Record<PGliteResourceName, ArrayBuffer>>;
+	// 同じテキストでも埋め込みが変わるモデル設定ごとに異なる値。
+	// DB を作成したモデルの確認と埋め込みキャッシュのキーに使う
+	modelVersion?: string;
+	// 省略時は埋め込みキャッシュを使用しない
+	embeddingCache?: EmbeddingCacheSettings;
+}
+
+export interface EmbeddingCacheSettings {
+	// 0 の場合はキャッシュしない
+	maxSizeBytes: number;
+}
+
 export interface InitializeRequest extends BaseRequest {
 	type: "initialize";
 	payload?: {
-		settings?: any;
+		settings?: WorkerInitializeSettings;
 	};
 }
 
@@ -27,9 +68,23 @@ export interface VectorizeSentencesRequest extends BaseRequest {
 
 import type {
 	ChunkInfo,
+	EmbeddingCacheStats,
+	FileManifestEntry,
+	RebuildBatchCheckpoint,
+	RebuildCheckpoint,
 	SearchOptions,
+	SearchQuery,
 	SimilarityResultItem,
+	NoteSimilarityResult,
+	NoteVectorResultItem,
+	ChunkSpan,
 } from "../../core/storage/types";
+import type { NoteAggregationOptions } from "../../core/search/noteAggregation";
+import type {
+	DuplicateKind,
+	DuplicatePair,
+} from "../../core/search/duplicates";
+import type { NoteCluster } from "../../core/search/clustering";
 
 export interface VectorizeAndStoreRequest extends BaseRequest {
 	type: "vectorizeAndStore";
@@ -42,14 +97,16 @@ export interface BulkVectorizeAndLoadRequest extends BaseRequest {
 	type: "bulkVectorizeAndLoad";
 	payload: {
 		chunks: ChunkInfo[];
+		// 指定した場合は同じトランザクションで再構築の進捗を記録する
+		checkpoint?: RebuildBatchCheckpoint;
+		manifestEntries?: FileManifestEntry[];
 	};
 }
 
 export interface SearchRequest extends BaseRequest {
 	type: "search";
 	payload: {
-		query: string;
-		negativeQuery?: string;
+		query: SearchQuery;
 		limit?: number;
 		options?: SearchOptions;
 	};
@@ -87,19 +144,39 @@ export interface DeleteVectorsByFilePathRequest extends BaseRequest {
 export interface AverageVectorsRequest extends BaseRequest {
 	type: "averageVectors";
 	payload: {
-		vectors: number[][];
+		vectors: PackedVectors;
 	};
 }
 
 export interface SearchSimilarByVectorRequest extends BaseRequest {
 	type: "searchSimilarByVector";
 	payload: {
-		vector: number[];
+		vector: Float32Array;
 		limit?: number;
 		options?: SearchOptions;
 	};
 }
 
+export interface SearchNotesRequest extends BaseRequest {
+	type: "searchNotes";
+	payload: {
+		query: SearchQuery;
+		limit?: number;
+		aggregation: NoteAggregationOptions;
+		options?: SearchOptions;
+	};
+}
+
+export interface SearchNotesByVectorRequest extends BaseRequest {
+	type: "searchNotesByVector";
+	payload: {
+		vector: Float32Array;
+		limit?: number;
+		aggregation: NoteAggregationOptions;
+		options?: SearchOptions;
+	};
+}
+
 export interface GetVectorsByFilePathRequest extends BaseRequest {
 	type: "getVectorsByFilePath";
 	payload: {
@@ -107,6 +184,56 @@ export interface GetVectorsByFilePathRequest extends BaseRequest {
 	};
 }
 
+export interface GetNoteVectorRequest extends BaseRequest {
+	type: "getNoteVector";
+	payload: {
+		filePath: string;
+	};
+}
+
+export interface FindDuplicatesRequest extends BaseRequest {
+	type: "findDuplicates";
+	payload: {
+		kind: DuplicateKind;
+		// コサイン類似度 (0〜1) の下限
+		threshold: number;
+		limit: number;
+		ignoredKeys?: string[];
+	};
+}
+
+export interface ClusterNotesRequest extends BaseRequest {
+	type: "clusterNotes";
+	payload: {
+		// 0 の場合はノート数から決める
+		clusterCount: number;
+		excludeFilePaths?: string[];
+	};
+}
+
+export interface GetChunkSpansByFilePathRequest extends BaseRequest {
+	type: "getChunkSpansByFilePath";
+	payload: {
+		filePath: string;
+	};
+}
+
+export interface GetAverageVectorByIdsRequest extends BaseRequest {
+	type: "getAverageVectorByIds";
+	payload: {
+		ids: number[];
+	};
+}
+
+export interface SearchSimilarNoteVectorsRequest extends BaseRequest {
+	type: "searchSimilarNoteVectors";
+	payload: {
+		vector: Float32Array;
+		limit?: number;
+		excludeFilePaths?: string[];
+	};
+}
+
 export interface UpdateFilePathRequest extends BaseRequest {
 	type: "updateFilePath";
 	payload: {
@@ -115,6 +242,55 @@ export interface UpdateFilePathRequest extends BaseRequest {
 	};
 }
 
+// 実行中のリクエストを中断する (応答は返さない)
+export interface CancelRequest extends BaseRequest {
+	type: "cancel";
+	payload: {
+		requestId: string;
+	};
+}
+
+export interface GetRebuildCheckpointRequest extends BaseRequest {
+	type: "getRebuildCheckpoint";
+	payload?: {};
+}
+
+export interface ClearRebuildCheckpointRequest extends BaseRequest {
+	type: "clearRebuildCheckpoint";
+	payload?: {};
+}
+
+export interface GetFileManifestRequest extends BaseRequest {
+	type: "getFileManifest";
+	payload?: {};
+}
+
+export interface UpsertFileManifestRequest extends BaseRequest {
+	type: "upsertFileManifest";
+	payload: {
+		entries: FileManifestEntry[];
+	};
+}
+
+export interface GetEmbeddingCacheStatsRequest extends BaseRequest {
+	type: "getEmbeddingCacheStats";
+	payload?: {};
+}
+
+// 上限を変更し、超えている分をすぐに削除する
+export interface ConfigureEmbeddingCacheRequest extends BaseRequest {
+	type: "configureEmbeddingCache";
+	payload: {
+		maxSizeBytes: number;
+	};
+}
+
+// 死活監視。キューを通さずに即座に pong を返す
+export interface PingRequest extends BaseRequest {
+	type: "ping";
+	payload?: {};
+}
+
 export type WorkerRequest =
 	| InitializeRequest
 	| VectorizeSentencesRequest
@@ -128,13 +304,29 @@ export type WorkerRequest =
 	| DeleteVectorsByFilePathRequest
 	| AverageVectorsRequest
 	| SearchSimilarByVectorRequest
+	| SearchNotesRequest
+	| SearchNotesByVectorRequest
 	| GetVectorsByFilePathRequest
-	| UpdateFilePathRequest;
+	| GetNoteVectorRequest
+	| FindDuplicatesRequest
+	| ClusterNotesRequest
+	| GetChunkSpansByFilePathRequest
+	| GetAverageVectorByIdsRequest
+	| SearchSimilarNoteVectorsRequest
+	| UpdateFilePathRequest
+	| GetRebuildCheckpointRequest
+	| ClearRebuildCheckpointRequest
+	| GetFileManifestRequest
+	| UpsertFileManifestRequest
+	| GetEmbeddingCacheStatsRequest
+	| ConfigureEmbeddingCacheRequest
+	| CancelRequest
+	| PingRequest;
 
 // ===== Response Types =====
 export interface AverageVectorsResponse extends BaseResponse {
 	type: "averageVectorsResult";
-	payload: number[];
+	payload: Float32Array;
 }
 
 export interface SearchSimilarByVectorResponse extends BaseResponse {
@@ -142,20 +334,37 @@ export interface SearchSimilarByVectorResponse extends BaseResponse {
 	payload: SimilarityResultItem[];
 }
 
+export interface SearchNotesResponse extends BaseResponse {
+	type: "searchNotesResult";
+	payload: NoteSimilarityResult[];
+}
+
+export interface SearchNotesByVectorResponse extends BaseResponse {
+	type: "searchNotesByVectorResult";
+	payload: NoteSimilarityResult[];
+}
+
 export interface InitializedResponse extends BaseResponse {
 	type: "initialized";
 	payload: boolean;
+	// 互換性のないベクトルを破棄した場合の理由
+	schemaResetReason?: SchemaResetReason;
 }
 
 export interface VectorizeSentencesResponse extends BaseResponse {
 	type: "vectorizeSentencesResult";
-	payload: number[][];
+	payload: PackedVectors;
 }
 
 export interface VectorizeAndStoreResponse extends BaseResponse {
 	type: "vectorizeAndStoreResponse";
 	payload: {
 		count: number;
+		// 新たにベクトル化したチャンク数
+		embedded: number;
+		// 位置だけを更新したチャンク数
+		moved: number;
+		deleted: number;
 	};
 }
 
@@ -203,7 +412,39 @@ export interface DeleteVectorsByFilePathResponse extends BaseResponse {
 
 export interface GetVectorsByFilePathResponse extends BaseResponse {
 	type: "getVectorsByFilePathResult";
-	payload: number[][];
+	payload: PackedVectors;
+}
+
+// ノートのチャンクがまだ保存されていない場合は null
+export interface GetNoteVectorResponse extends BaseResponse {
+	type: "getNoteVectorResult";
+	payload: Float32Array | null;
+}
+
+export interface FindDuplicatesResponse extends BaseResponse {
+	type: "findDuplicatesResult";
+	payload: DuplicatePair[];
+}
+
+export interface ClusterNotesResponse extends BaseResponse {
+	type: "clusterNotesResult";
+	payload: NoteCluster[];
+}
+
+export interface GetChunkSpansByFilePathResponse extends BaseResponse {
+	type: "getChunkSpansByFilePathResult";
+	payload: ChunkSpan[];
+}
+
+// 該当するチャンクがない場合は null
+export interface GetAverageVectorByIdsResponse extends BaseResponse {
+	type: "getAverageVectorByIdsResult";
+	payload: Float32Array | null;
+}
+
+export interface SearchSimilarNoteVectorsResponse extends BaseResponse {
+	type: "searchSimilarNoteVectorsResult";
+	payload: NoteVectorResultItem[];
 }
 
 export interface UpdateFilePathResponse extends BaseResponse {
@@ -216,6 +457,8 @@ export interface UpdateFilePathResponse extends BaseResponse {
 export interface ErrorResponse extends BaseResponse {
 	type: "errorResponse";
 	payload: string;
+	// 呼び出し側で原因ごとに対処を分けるためのエラーコード
+	code?: string;
 }
 
 export interface StatusResponse extends BaseResponse {
@@ -232,6 +475,49 @@ export interface ProgressResponse extends BaseResponse {
 	payload: any;
 }
 
+export interface GetRebuildCheckpointResponse extends BaseResponse {
+	type: "getRebuildCheckpointResult";
+	// 中断された再構築がなければ null
+	payload: RebuildCheckpoint | null;
+}
+
+export interface ClearRebuildCheckpointResponse extends BaseResponse {
+	type: "clearRebuildCheckpointResponse";
+	payload: boolean;
+}
+
+export interface GetFileManifestResponse extends BaseResponse {
+	type: "getFileManifestResult";
+	payload: {
+		entries: FileManifestEntry[];
+		// ベクトルが保存されているファイル (マニフェストにないものも含む)
+		indexedFilePaths: string[];
+	};
+}
+
+export interface UpsertFileManifestResponse extends BaseResponse {
+	type: "upsertFileManifestResponse";
+	payload: {
+		count: number;
+	};
+}
+
+export interface GetEmbeddingCacheStatsResponse extends BaseResponse {
+	type: "getEmbeddingCacheStatsResult";
+	payload: EmbeddingCacheStats;
+}
+
+export interface ConfigureEmbeddingCacheResponse extends BaseResponse {
+	type: "configureEmbeddingCacheResponse";
+	payload: {
+		evicted: number;
+	};
+}
+
+export interface PongResponse extends BaseResponse {
+	type: "pong";
+}
+
 export type WorkerResponse =
 	| InitializedResponse
 	| VectorizeSentencesResponse
@@ -245,8 +531,23 @@ export type WorkerResponse =
 	| DeleteVectorsByFilePathResponse
 	| AverageVectorsResponse
 	| SearchSimilarByVectorResponse
+	| SearchNotesResponse
+	| SearchNotesByVectorResponse
 	| GetVectorsByFilePathResponse
+	| GetNoteVectorResponse
+	| FindDuplicatesResponse
+	| ClusterNotesResponse
+	| GetChunkSpansByFilePathResponse
+	| GetAverageVectorByIdsResponse
+	| SearchSimilarNoteVectorsResponse
 	| UpdateFilePathResponse
 	| ErrorResponse
 	| StatusResponse
-	| ProgressResponse;
+	| ProgressResponse
+	| GetRebuildCheckpointResponse
+	| ClearRebuildCheckpointResponse
+	| GetFileManifestResponse
+	| UpsertFileManifestResponse
+	| GetEmbeddingCacheStatsResponse
+	| ConfigureEmbeddingCacheResponse
+	| PongResponse;
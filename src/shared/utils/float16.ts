@@ -0,0 +1,51 @@
+const float32Scratch = new Float32Array(1);
+const uint32Scratch = new Uint32Array(float32Scratch.buffer);
+
+// IEEE 754 binary16 への変換 (最近接偶数丸め)
+export function float32ToFloat16Bits(value: number): number {
+	float32Scratch[0] = value;
+	const bits = uint32Scratch[0];
+	const sign = (bits >>> 16) & 0x8000;
+	const exponent = (bits >>> 23) & 0xff;
+	const mantissa = bits & 0x7fffff;
+
+	if (exponent === 0xff) {
+		// Infinity / NaN
+		return sign | 0x7c00 | (mantissa ? 0x200 : 0);
+	}
+
+	const halfExponent = exponent - 127 + 15;
+	if (halfExponent >= 0x1f) {
+		return sign | 0x7c00;
+	}
+	if (halfExponent <= 0) {
+		// 非正規化数 (小さすぎる値は 0 になる)
+		if (halfExponent < -10) return sign;
+		const fullMantissa = mantissa | 0x800000;
+		const shift = 14 - halfExponent;
+		let half = fullMantissa >>> shift;
+		const remainder = fullMantissa & ((1 << shift) - 1);
+		const halfway = 1 << (shift - 1);
+		if (remainder > halfway || (remainder === halfway && half & 1)) {
+			half++;
+		}
+		return sign | half;
+	}
+
+	let half = (halfExponent << 10) | (mantissa >>> 13);
+	const remainder = mantissa & 0x1fff;
+	if (remainder > 0x1000 || (remainder === 0x1000 && half & 1)) {
+		// 繰り上がりで指数部があふれた場合も Infinity として正しく表現される
+		half++;
+	}
+	return sign | half;
+}
+
+export function float16BitsToFloat32(bits: number): number {
+	const sign = bits & 0x8000 ? -1 : 1;
+	const exponent = (bits >> 10) & 0x1f;
+	const fraction = bits & 0x3ff;
+	if (exponent === 0) return sign * Math.pow(2, -14) * (fraction / 1024);
+	if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+	return sign * Math.pow(2, exponent - 15) * (1 + fraction / 1024);
+}
@@ -0,0 +1,12 @@
+export async function computeSha256(
+	data: ArrayBuffer | Uint8Array
+): Promise<string> {
+	const hashBuffer = await crypto.subtle.digest("SHA-256", data);
+	return Array.from(new Uint8Array(hashBuffer))
+		.map((b) => b.toString(16).padStart(2, "0"))
+		.join("");
+}
+
+export function computeTextSha256(text: string): Promise<string> {
+	return computeSha256(new TextEncoder().encode(text));
+}
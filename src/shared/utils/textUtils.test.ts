@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import {
+	extractHeadings,
+	getHeadingPath,
+	reanchorChunkOffsets,
+} from "./textUtils";
+
+describe("getHeadingPath", () => {
+	const content = [
+		"# Title",
+		"intro",
+		"## Section A",
+		"```",
+		"# not a heading",
+		"```",
+		"### Detail",
+		"body",
+		"## Section B",
+		"closing",
+	].join("\n");
+	const headings = extractHeadings(content);
+
+	it("コードブロック内の行は見出しとして扱わない", () => {
+		expect(headings.map((heading) => heading.text)).toEqual([
+			"Title",
+			"Section A",
+			"Detail",
+			"Section B",
+		]);
+	});
+
+	it("位置を含むセクションの見出しを上位から返す", () => {
+		expect(getHeadingPath(headings, content.indexOf("body"))).toEqual([
+			"Title",
+			"Section A",
+			"Detail",
+		]);
+		expect(getHeadingPath(headings, content.indexOf("closing"))).toEqual([
+			"Title",
+			"Section B",
+		]);
+	});
+
+	it("最初の見出しより前は空になる", () => {
+		expect(getHeadingPath(extractHeadings("text\n# H"), 0)).toEqual([]);
+	});
+});
+
+describe("reanchorChunkOffsets", () => {
+	it("位置がずれていなければそのまま返す", () => {
+		expect(reanchorChunkOffsets("abc def", "def", 4, 7)).toEqual({
+			start: 4,
+			end: 7,
+		});
+	});
+
+	it("前に追記された場合は新しい位置を返す", () => {
+		expect(reanchorChunkOffsets("new text\nabc def", "def", 4, 7)).toEqual({
+			start: 13,
+			end: 16,
+		});
+	});
+
+	it("同じテキストが複数ある場合は元の位置に近いものを選ぶ", () => {
+		expect(reanchorChunkOffsets("xx ab ab ab", "ab", 7, 9)).toEqual({
+			start: 6,
+			end: 8,
+		});
+	});
+
+	it("テキストが削除されていれば null を返す", () => {
+		expect(reanchorChunkOffsets("abc", "def", 0, 3)).toBeNull();
+	});
+});
@@ -32,3 +32,85 @@ export function extractChunkPreview(
 
 	return "No position info for preview.";
 }
+
+// 空白の違いや全角・半角の違いだけの変更を同じチャンクとして扱うための正規化
+export function normalizeChunkText(text: string): string {
+	return text.normalize("NFKC").replace(/\s+/g, " ").trim();
+}
+
+export interface HeadingOutlineItem {
+	offset: number;
+	level: number;
+	text: string;
+}
+
+// コードブロック内の行を除いた ATX 見出しを出現順に返す
+export function extractHeadings(content: string): HeadingOutlineItem[] {
+	const headings: HeadingOutlineItem[] = [];
+	let inCodeBlock = false;
+	let offset = 0;
+	for (const line of content.split("\n")) {
+		if (/^\s*(```|~~~)/.test(line)) {
+			inCodeBlock = !inCodeBlock;
+		} else if (!inCodeBlock) {
+			const match = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+			if (match) {
+				headings.push({
+					offset,
+					level: match[1].length,
+					text: match[2],
+				});
+			}
+		}
+		offset += line.length + 1;
+	}
+	return headings;
+}
+
+// offset の位置を含むセクションの見出しを、上位から順に返す
+export function getHeadingPath(
+	headings: readonly HeadingOutlineItem[],
+	offset: number
+): string[] {
+	const path: HeadingOutlineItem[] = [];
+	for (const heading of headings) {
+		if (heading.offset > offset) break;
+		while (
+			path.length > 0 &&
+			path[path.length - 1].level >= heading.level
+		) {
+			path.pop();
+		}
+		path.push(heading);
+	}
+	return path.map((heading) => heading.text);
+}
+
+// インデックス作成後にファイルが編集されていても、保存したテキストから現在の位置を探し直す。
+// 見つからない場合は null
+export function reanchorChunkOffsets(
+	content: string,
+	chunkText: string,
+	startOffset: number,
+	endOffset: number
+): { start: number; end: number } | null {
+	if (!chunkText) return null;
+	if (content.substring(startOffset, endOffset) === chunkText) {
+		return { start: startOffset, end: endOffset };
+	}
+	// 同じテキストが複数ある場合は、元の位置に最も近いものを選ぶ
+	let best = -1;
+	for (
+		let index = content.indexOf(chunkText);
+		index !== -1;
+		index = content.indexOf(chunkText, index + 1)
+	) {
+		if (
+			best === -1 ||
+			Math.abs(index - startOffset) < Math.abs(best - startOffset)
+		) {
+			best = index;
+		}
+	}
+	return best === -1 ? null : { start: best, end: best + chunkText.length };
+}
@@ -0,0 +1,29 @@
+import type { PackedVectors } from "../types/integrated-worker";
+
+// 複数のベクトルを 1 つの Float32Array に詰め、postMessage で移譲できるようにする
+export function packVectors(
+	vectors: readonly ArrayLike<number>[],
+	dimensions = vectors[0]?.length ?? 0
+): PackedVectors {
+	const data = new Float32Array(vectors.length * dimensions);
+	vectors.forEach((vector, index) => {
+		data.set(
+			vector.length > dimensions
+				? Array.prototype.slice.call(vector, 0, dimensions)
+				: vector,
+			index * dimensions
+		);
+	});
+	return { data, dimensions };
+}
+
+// コピーせずに各行のビューを返す
+export function unpackVectors(packed: PackedVectors): Float32Array[] {
+	const { data, dimensions } = packed;
+	if (dimensions === 0) return [];
+	const vectors: Float32Array[] = [];
+	for (let offset = 0; offset < data.length; offset += dimensions) {
+		vectors.push(data.subarray(offset, offset + dimensions));
+	}
+	return vectors;
+}
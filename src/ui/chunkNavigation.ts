@@ -0,0 +1,47 @@
+import { App, MarkdownView, TFile, WorkspaceLeaf } from "obsidian";
+import {
+	offsetToPosition,
+	reanchorChunkOffsets,
+} from "../shared/utils/textUtils";
+
+export interface ChunkLocation {
+	// インデックス作成時のテキスト。編集で位置がずれた場合の再特定に使う
+	chunk: string | null;
+	offsetStart: number | null;
+	offsetEnd: number | null;
+}
+
+// ファイルを開いてチャンクの位置へスクロールする。ファイル名だけのチャンクは先頭を表示する
+export async function openChunkInLeaf(
+	app: App,
+	leaf: WorkspaceLeaf,
+	file: TFile,
+	location: ChunkLocation
+): Promise<void> {
+	await leaf.openFile(file);
+
+	if (!(leaf.view instanceof MarkdownView)) {
+		return;
+	}
+
+	let position = { line: 0, ch: 0 };
+
+	if (location.offsetStart != null && location.offsetStart !== -1) {
+		const content = await app.vault.cachedRead(file);
+		const anchored = location.chunk
+			? reanchorChunkOffsets(
+					content,
+					location.chunk,
+					location.offsetStart,
+					location.offsetEnd ?? location.offsetStart
+			  )
+			: null;
+		position = offsetToPosition(
+			content,
+			anchored?.start ?? location.offsetStart
+		);
+	}
+
+	leaf.view.editor.setCursor(position);
+	leaf.view.editor.scrollIntoView({ from: position, to: position }, true);
+}
@@ -0,0 +1,214 @@
+import { ItemView, Notice, TFile, WorkspaceLeaf } from "obsidian";
+import { mount, unmount } from "svelte";
+import DuplicatesComponent from "./DuplicatesComponent.svelte";
+import LocalFastVectorizePlugin from "../../main";
+import type {
+	DuplicatePair,
+	DuplicateSide,
+} from "../../core/search/duplicates";
+import { extractChunkPreview } from "../../shared/utils/textUtils";
+import { WorkerRequestCancelledError } from "../../core/workers/workerErrors";
+import { openChunkInLeaf } from "../chunkNavigation";
+
+export const VIEW_TYPE_DUPLICATES = "duplicates-report";
+
+// ノートの組で表示する先頭部分の長さ
+const NOTE_PREVIEW_LENGTH = 600;
+
+export class DuplicatesView extends ItemView {
+	plugin: LocalFastVectorizePlugin;
+	component?: DuplicatesComponent;
+	target: HTMLElement | null = null;
+	notePairs: DuplicatePair[] = [];
+	chunkPairs: DuplicatePair[] = [];
+	isLoading = false;
+	errorMessage: string | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: LocalFastVectorizePlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_DUPLICATES;
+	}
+
+	getDisplayText(): string {
+		return "Duplicates";
+	}
+
+	getIcon(): string {
+		return "copy";
+	}
+
+	async onOpen() {
+		this.contentEl.empty();
+		this.target = document.createElement("div");
+		this.contentEl.appendChild(this.target);
+
+		this.renderComponent();
+		await this.refresh();
+	}
+
+	private renderComponent() {
+		if (this.component) {
+			const oldComponent = this.component;
+			this.component = undefined;
+			try {
+				unmount(oldComponent);
+			} catch (e) {
+				this.plugin.logger?.warn(
+					"Error unmounting Svelte component:",
+					e
+				);
+			}
+		}
+
+		if (!this.target) return;
+
+		this.component = mount(DuplicatesComponent, {
+			target: this.target,
+			props: {
+				notePairs: this.notePairs,
+				chunkPairs: this.chunkPairs,
+				isLoading: this.isLoading,
+				errorMessage: this.errorMessage,
+				threshold: this.plugin.settings.duplicateSimilarityThreshold,
+				getPreview: this.getPreview.bind(this),
+				onRefresh: this.refresh.bind(this),
+				onOpenBoth: this.handleOpenBoth.bind(this),
+				onLink: this.handleLink.bind(this),
+				onIgnore: this.handleIgnore.bind(this),
+			},
+		}) as DuplicatesComponent;
+	}
+
+	async onClose() {
+		if (this.component) {
+			const oldComponent = this.component;
+			this.component = undefined;
+			try {
+				unmount(oldComponent);
+			} catch (e) {
+				this.plugin.logger?.warn(
+					"Error unmounting Svelte component on close:",
+					e
+				);
+			}
+		}
+
+		if (this.target) {
+			this.target.remove();
+			this.target = null;
+		}
+	}
+
+	async refresh() {
+		if (this.isLoading) return;
+		this.isLoading = true;
+		this.errorMessage = null;
+		this.renderComponent();
+		try {
+			// ノートの組は件数が少なく速いため先に表示する
+			this.notePairs = await this.plugin.findDuplicates("note");
+			this.renderComponent();
+			this.chunkPairs = await this.plugin.findDuplicates("chunk");
+		} catch (error) {
+			if (!(error instanceof WorkerRequestCancelledError)) {
+				this.plugin.logger?.error("Failed to find duplicates:", error);
+				this.errorMessage =
+					"Failed to find duplicates. Check the console for details.";
+			}
+		} finally {
+			this.isLoading = false;
+			this.renderComponent();
+		}
+	}
+
+	private async getPreview(side: DuplicateSide): Promise<string> {
+		if (side.chunkText != null) {
+			return side.chunkText;
+		}
+		const file = this.app.vault.getAbstractFileByPath(side.filePath);
+		if (!(file instanceof TFile)) {
+			return "File not found for preview.";
+		}
+		try {
+			const content = await this.app.vault.cachedRead(file);
+			if (side.chunkId == null) {
+				return content.length > NOTE_PREVIEW_LENGTH
+					? `${content.slice(0, NOTE_PREVIEW_LENGTH)}…`
+					: content;
+			}
+			return extractChunkPreview(
+				content,
+				side.chunkOffsetStart ?? -1,
+				side.chunkOffsetEnd ?? -1
+			);
+		} catch (e) {
+			this.plugin.logger?.error("Error loading duplicate preview:", e);
+			return "Error loading preview.";
+		}
+	}
+
+	private getFiles(pair: DuplicatePair): [TFile, TFile] | null {
+		const a = this.app.vault.getAbstractFileByPath(pair.a.filePath);
+		const b = this.app.vault.getAbstractFileByPath(pair.b.filePath);
+		if (!(a instanceof TFile) || !(b instanceof TFile)) {
+			new Notice("One of the notes no longer exists.");
+			return null;
+		}
+		return [a, b];
+	}
+
+	// 新しいタブを左右に分割し、それぞれのチャンクの位置を表示する
+	private async handleOpenBoth(pair: DuplicatePair) {
+		const files = this.getFiles(pair);
+		if (!files) return;
+
+		const { workspace } = this.app;
+		const leftLeaf = workspace.getLeaf("tab");
+		await openChunkInLeaf(this.app, leftLeaf, files[0], {
+			chunk: pair.a.chunkText,
+			offsetStart: pair.a.chunkOffsetStart,
+			offsetEnd: pair.a.chunkOffsetEnd,
+		});
+		const rightLeaf = workspace.createLeafBySplit(leftLeaf, "vertical");
+		await openChunkInLeaf(this.app, rightLeaf, files[1], {
+			chunk: pair.b.chunkText,
+			offsetStart: pair.b.chunkOffsetStart,
+			offsetEnd: pair.b.chunkOffsetEnd,
+		});
+	}
+
+	// A の末尾に B へのリンクを追加する
+	private async handleLink(pair: DuplicatePair) {
+		const files = this.getFiles(pair);
+		if (!files) return;
+		const [source, target] = files;
+
+		if (this.app.metadataCache.resolvedLinks[source.path]?.[target.path]) {
+			new Notice(
+				`${source.basename} already links to ${target.basename}.`
+			);
+			return;
+		}
+		const link = this.app.fileManager.generateMarkdownLink(
+			target,
+			source.path
+		);
+		await this.app.vault.process(source, (content) => {
+			const separator =
+				content.length === 0 || content.endsWith("\n") ? "" : "\n";
+			return `${content}${separator}${link}\n`;
+		});
+		new Notice(`Linked ${source.basename} to ${target.basename}.`);
+	}
+
+	private async handleIgnore(pair: DuplicatePair) {
+		await this.plugin.ignoreDuplicatePair(pair.key);
+		this.notePairs = this.notePairs.filter((p) => p.key !== pair.key);
+		this.chunkPairs = this.chunkPairs.filter((p) => p.key !== pair.key);
+		this.renderComponent();
+	}
+}
@@ -0,0 +1,78 @@
+import { App, Modal, Setting, Notice } from "obsidian";
+
+export class PGliteResourceErrorModal extends Modal {
+	constructor(
+		app: App,
+		private errorMessage: string,
+		private onDownload: () => Promise<void>,
+		// ダウンロードに成功してモーダルを閉じた後に呼ぶ
+		private onDownloaded: () => void,
+		private onOpenSettings: () => void,
+		private onClosed: () => void
+	) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: "PGlite Runtime Files Unavailable" });
+		contentEl.createEl("p", {
+			text: "The database runtime (postgres.data, postgres.wasm, vector.tar.gz, pg_trgm.tar.gz) could not be loaded, so the index cannot be opened.",
+		});
+		contentEl.createEl("pre", { text: this.errorMessage });
+		contentEl.createEl("p", {
+			text: "Download the files once into the plugin folder (checksums are verified before they are saved), or point the plugin to a folder that already contains them.",
+		});
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button
+					.setButtonText("Download to plugin folder")
+					.setCta()
+					.onClick(async () => {
+						button.setDisabled(true);
+						const notice = new Notice(
+							"Downloading PGlite runtime files...",
+							0
+						);
+						try {
+							await this.onDownload();
+							notice.setMessage(
+								"PGlite runtime files downloaded and verified."
+							);
+							setTimeout(() => notice.hide(), 3000);
+						} catch (error: any) {
+							console.error(
+								"Failed to download PGlite runtime files:",
+								error
+							);
+							notice.setMessage(
+								`Failed to download PGlite runtime files: ${error.message}`
+							);
+							setTimeout(() => notice.hide(), 7000);
+							button.setDisabled(false);
+							return;
+						}
+						this.close();
+						this.onDownloaded();
+					})
+			)
+			.addButton((button) =>
+				button.setButtonText("Open settings").onClick(() => {
+					this.close();
+					this.onOpenSettings();
+				})
+			)
+			.addButton((button) =>
+				button.setButtonText("Cancel").onClick(() => {
+					this.close();
+				})
+			);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.onClosed();
+	}
+}
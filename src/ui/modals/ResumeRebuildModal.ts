@@ -0,0 +1,77 @@
+import { App, Modal, Setting } from "obsidian";
+import type { RebuildCheckpoint } from "../../core/storage/types";
+
+export class ResumeRebuildModal extends Modal {
+	private choiceMade = false;
+
+	constructor(
+		app: App,
+		private checkpoint: RebuildCheckpoint,
+		// 再構築を始めた時とモデルが異なる場合は再開できない
+		private canResume: boolean,
+		private onResume: () => Promise<void> | void,
+		private onRestart: () => Promise<void> | void,
+		// どちらも選ばずに閉じた場合 (Skip や Esc) に呼ぶ
+		private onDismiss: () => void
+	) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: "Resume index rebuild?" });
+
+		const startedAt = new Date(this.checkpoint.startedAt).toLocaleString();
+		const progress =
+			this.checkpoint.totalBatches > 0
+				? ` (batch ${this.checkpoint.nextBatch}/${this.checkpoint.totalBatches})`
+				: "";
+		contentEl.createEl("p", {
+			text: `An index rebuild started at ${startedAt} was interrupted after ${this.checkpoint.completedFilePaths.length} notes${progress}. Search results are incomplete until the rebuild finishes.`,
+		});
+		if (!this.canResume) {
+			contentEl.createEl("p", {
+				text: "The embedding model has changed since the rebuild started, so it has to start over.",
+			});
+		}
+		contentEl.createEl("p", {
+			text: "If you skip, the notes indexed so far are kept and the remaining notes are indexed in the background.",
+		});
+
+		const setting = new Setting(contentEl);
+		if (this.canResume) {
+			setting.addButton((button) =>
+				button
+					.setButtonText("Resume")
+					.setCta()
+					.onClick(async () => {
+						this.choiceMade = true;
+						this.close();
+						await this.onResume();
+					})
+			);
+		}
+		setting
+			.addButton((button) => {
+				button.setButtonText("Start Over").onClick(async () => {
+					this.choiceMade = true;
+					this.close();
+					await this.onRestart();
+				});
+				if (!this.canResume) button.setCta();
+			})
+			.addButton((button) =>
+				button.setButtonText("Skip").onClick(() => {
+					this.close();
+				})
+			);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		if (!this.choiceMade) {
+			this.onDismiss();
+		}
+	}
+}
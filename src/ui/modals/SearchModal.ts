@@ -1,32 +1,49 @@
-import { App, SuggestModal, TFile } from "obsidian";
+import { App, DropdownComponent, SuggestModal, TFile } from "obsidian";
 import { CommandHandler } from "../../commands";
-import type { SimilarityResultItem } from "../../core/storage/types";
+import type {
+	NoteSimilarityResult,
+	SearchOptions,
+	SearchQuery,
+	SimilarityResultItem,
+} from "../../core/storage/types";
 import { NotificationService } from "../../shared/services/NotificationService";
 import { type PluginSettings } from "../../pluginSettings";
+import { WorkerRequestCancelledError } from "../../core/workers/workerErrors";
+import {
+	SEARCH_MODE_LABELS,
+	type SearchMode,
+} from "../../core/search/hybridSearch";
+import {
+	parseSearchQuery,
+	QuerySyntaxError,
+	type ParsedSearchQuery,
+} from "../../core/search/queryParser";
+import type { ResultLevel } from "../../core/search/noteAggregation";
 
-function parseQueryString(queryString: string): {
-	positiveQuery: string;
-	negativeQuery?: string;
-} {
-	const parts = queryString.split(/-(.+)/s, 2);
-	const positiveQuery = parts[0].trim();
-	let negativeQuery: string | undefined = undefined;
-
-	if (parts.length > 1 && parts[1]) {
-		negativeQuery = parts[1].trim();
-		if (negativeQuery === "") {
-			negativeQuery = undefined;
-		}
-	}
-	return { positiveQuery, negativeQuery };
+const DEFAULT_EMPTY_STATE_TEXT = "No results found.";
+
+const RESULT_LEVEL_LABELS: Record<ResultLevel, string> = {
+	chunk: "Chunks",
+	note: "Notes",
+};
+
+// ノート単位の結果では、最も関連度の高いチャンクを代表として表示する
+interface SearchModalItem {
+	result: SimilarityResultItem;
+	note: NoteSimilarityResult | null;
 }
 
-export class SearchModal extends SuggestModal<SimilarityResultItem> {
+export class SearchModal extends SuggestModal<SearchModalItem> {
 	private commandHandler: CommandHandler;
 	private notificationService: NotificationService;
 	private pluginSettings: PluginSettings;
 	private debounceTimer: NodeJS.Timeout | null = null;
 	private debounceDelay: number = 500; // ms
+	// 前回の入力による検索がまだ実行中なら中断する
+	private searchAbortController: AbortController | null = null;
+	// モーダルを開いている間だけ有効で、設定の既定値は変更しない
+	private searchMode: SearchMode;
+	private resultLevel: ResultLevel;
 
 	constructor(
 		app: App,
@@ -38,20 +55,96 @@ export class SearchModal extends SuggestModal<SimilarityResultItem> {
 		this.commandHandler = commandHandler;
 		this.notificationService = notificationService;
 		this.pluginSettings = pluginSettings;
+		this.searchMode = pluginSettings.searchMode;
+		this.resultLevel = pluginSettings.searchResultLevel;
 
 		this.containerEl.addClass("vector-search-modal");
 		this.setPlaceholder(
-			"Enter query (e.g., 'positive terms -negative terms')"
+			"Enter query (e.g., 'meeting notes -draft +rust^2 \"exact phrase\" path:Projects tag:work after:2024-01-01')"
+		);
+		this.emptyStateText = DEFAULT_EMPTY_STATE_TEXT;
+		this.createSearchModeSelector();
+	}
+
+	private createSearchModeSelector(): void {
+		const selectorEl = createDiv({ cls: "vector-search-mode" });
+		this.inputEl.parentElement?.insertAdjacentElement(
+			"afterend",
+			selectorEl
+		);
+		this.addSelector(
+			selectorEl,
+			"Mode",
+			SEARCH_MODE_LABELS,
+			this.searchMode,
+			(value) => (this.searchMode = value)
+		);
+		this.addSelector(
+			selectorEl,
+			"Results",
+			RESULT_LEVEL_LABELS,
+			this.resultLevel,
+			(value) => (this.resultLevel = value)
+		);
+	}
+
+	private addSelector<T extends string>(
+		containerEl: HTMLElement,
+		name: string,
+		labels: Record<T, string>,
+		value: T,
+		onChange: (value: T) => void
+	): void {
+		containerEl.createSpan({ text: name });
+		const dropdown = new DropdownComponent(containerEl);
+		for (const [option, label] of Object.entries<string>(labels)) {
+			dropdown.addOption(option, label);
+		}
+		dropdown.setValue(value).onChange((selected) => {
+			onChange(selected as T);
+			// 入力中のクエリを新しい条件で検索し直す
+			this.inputEl.dispatchEvent(new Event("input"));
+			this.inputEl.focus();
+		});
+	}
+
+	private async search(
+		query: SearchQuery,
+		options: SearchOptions,
+		signal: AbortSignal
+	): Promise<SearchModalItem[]> {
+		const limit = this.pluginSettings.searchResultLimit;
+		if (this.resultLevel === "note") {
+			const notes = await this.commandHandler.searchRelatedNotes(
+				query,
+				limit,
+				{ method: this.pluginSettings.noteScoreAggregation },
+				options,
+				signal
+			);
+			return notes
+				.filter((note) => note.chunks.length > 0)
+				.map((note) => ({ result: note.chunks[0], note }));
+		}
+		const results = await this.commandHandler.searchSimilarNotes(
+			query,
+			limit,
+			options,
+			signal
 		);
+		return results.map((result) => ({ result, note: null }));
 	}
 
-	async getSuggestions(query: string): Promise<SimilarityResultItem[]> {
+	async getSuggestions(query: string): Promise<SearchModalItem[]> {
 		if (this.debounceTimer) {
 			clearTimeout(this.debounceTimer);
 		}
+		this.searchAbortController?.abort();
+		this.searchAbortController = null;
 
 		// 空のクエリの場合は即座に返す
 		if (!query.trim()) {
+			this.emptyStateText = DEFAULT_EMPTY_STATE_TEXT;
 			return [];
 		}
 
@@ -65,25 +158,61 @@ export class SearchModal extends SuggestModal<SimilarityResultItem> {
 					return;
 				}
 
-				const { positiveQuery, negativeQuery } =
-					parseQueryString(query);
+				let parsedQuery: ParsedSearchQuery;
+				try {
+					parsedQuery = parseSearchQuery(query);
+				} catch (error) {
+					// 構文エラーは結果の代わりにモーダル内に表示する
+					if (error instanceof QuerySyntaxError) {
+						this.emptyStateText = `Query error at column ${
+							error.position + 1
+						}: ${error.message}`;
+					} else {
+						console.error("Error parsing search query:", error);
+					}
+					resolve([]);
+					return;
+				}
+				this.emptyStateText = DEFAULT_EMPTY_STATE_TEXT;
 
-				if (!positiveQuery) {
+				if (parsedQuery.positive.length === 0) {
 					resolve([]);
 					return;
 				}
 
+				const abortController = new AbortController();
+				this.searchAbortController = abortController;
 				try {
-					const results =
-						await this.commandHandler.searchSimilarNotes(
-							positiveQuery,
-							negativeQuery,
-							this.pluginSettings.searchResultLimit
-						);
+					const results = await this.search(
+						{
+							positive: parsedQuery.positive,
+							negative: parsedQuery.negative,
+						},
+						{
+							mode: this.searchMode,
+							filters: parsedQuery.filters,
+							diversity: {
+								mmrLambda:
+									this.pluginSettings.resultDiversityLambda,
+							},
+							fusion: {
+								method: this.pluginSettings.searchFusionMethod,
+								semanticWeight:
+									this.pluginSettings.searchSemanticWeight,
+							},
+						},
+						abortController.signal
+					);
 					resolve(results);
 				} catch (error: any) {
-					console.error("Error during search:", error);
+					if (!(error instanceof WorkerRequestCancelledError)) {
+						console.error("Error during search:", error);
+					}
 					resolve([]);
+				} finally {
+					if (this.searchAbortController === abortController) {
+						this.searchAbortController = null;
+					}
 				}
 			}, this.debounceDelay);
 		});
@@ -118,8 +247,9 @@ export class SearchModal extends SuggestModal<SimilarityResultItem> {
 		}
 	}
 
-	async renderSuggestion(result: SimilarityResultItem, el: HTMLElement) {
+	async renderSuggestion(item: SearchModalItem, el: HTMLElement) {
 		el.addClass("vector-search-result-item");
+		const { result, note } = item;
 
 		const file = this.app.vault.getAbstractFileByPath(result.file_path);
 		let fileName = result.file_path;
@@ -127,17 +257,24 @@ export class SearchModal extends SuggestModal<SimilarityResultItem> {
 			fileName = file.basename;
 		}
 
+		const heading = result.heading_path ? ` › ${result.heading_path}` : "";
+		const score = note
+			? `Score: ${note.score.toFixed(4)}, ${note.matchedChunks} chunks`
+			: `Distance: ${result.distance.toFixed(4)}`;
 		el.createEl("div", {
-			text: `${fileName} (Distance: ${result.distance.toFixed(4)})`,
+			text: `${fileName}${heading} (${score})`,
 			cls: "vector-search-result-link",
 		});
 
-		// 位置情報からテキストを抽出して表示
-		const extractedText = await this.extractTextFromPosition(
-			result.file_path,
-			result.chunk_offset_start || 0,
-			result.chunk_offset_end || 0
-		);
+		// 保存されたテキストがなければ、位置情報からテキストを抽出して表示
+		const extractedText =
+			result.chunk != null
+				? result.chunk.replace(/\n/g, " ")
+				: await this.extractTextFromPosition(
+						result.file_path,
+						result.chunk_offset_start || 0,
+						result.chunk_offset_end || 0
+				  );
 
 		el.createEl("div", {
 			text: extractedText,
@@ -145,11 +282,9 @@ export class SearchModal extends SuggestModal<SimilarityResultItem> {
 		});
 	}
 
-	onChooseSuggestion(
-		item: SimilarityResultItem,
-		evt: MouseEvent | KeyboardEvent
-	) {
-		this.app.workspace.openLinkText(item.file_path, item.file_path, false);
+	onChooseSuggestion(item: SearchModalItem, evt: MouseEvent | KeyboardEvent) {
+		const filePath = item.result.file_path;
+		this.app.workspace.openLinkText(filePath, filePath, false);
 	}
 
 	onClose() {
@@ -157,5 +292,7 @@ export class SearchModal extends SuggestModal<SimilarityResultItem> {
 		if (this.debounceTimer) {
 			clearTimeout(this.debounceTimer);
 		}
+		this.searchAbortController?.abort();
+		this.searchAbortController = null;
 	}
 }
@@ -0,0 +1,37 @@
+import { App, SuggestModal } from "obsidian";
+import type { TagSuggestion } from "../../core/search/tagSuggestions";
+
+export class TagSuggestionModal extends SuggestModal<TagSuggestion> {
+	constructor(
+		app: App,
+		private suggestions: TagSuggestion[],
+		private onAccept: (tag: string) => Promise<void>
+	) {
+		super(app);
+		this.setPlaceholder("Choose a tag to add to the note's frontmatter");
+		this.emptyStateText = "No tag suggestions.";
+	}
+
+	getSuggestions(query: string): TagSuggestion[] {
+		const normalized = query.trim().replace(/^#/, "").toLowerCase();
+		return this.suggestions.filter((suggestion) =>
+			suggestion.tag.toLowerCase().includes(normalized)
+		);
+	}
+
+	renderSuggestion(suggestion: TagSuggestion, el: HTMLElement) {
+		el.createEl("div", { text: `#${suggestion.tag}` });
+		el.createEl("small", {
+			text: `${Math.round(
+				suggestion.score * 100
+			)}% · ${suggestion.sourcePaths
+				.map((filePath) => filePath.replace(/\.md$/, ""))
+				.join(", ")}`,
+			cls: "mod-muted",
+		});
+	}
+
+	async onChooseSuggestion(suggestion: TagSuggestion) {
+		await this.onAccept(suggestion.tag);
+	}
+}
@@ -0,0 +1,104 @@
+import { App, Modal, Notice, TFile, getAllTags } from "obsidian";
+import type { NoteVectorService } from "../../core/services/NoteVectorService";
+import { addFrontmatterTag } from "../../core/search/tagSuggestions";
+
+// 一度に提案を計算するノートの上限
+const MAX_REVIEWED_NOTES = 50;
+
+// タグのないノートに、近いノートのタグから提案したタグを一覧で付ける
+export class UntaggedNotesModal extends Modal {
+	private isOpen = false;
+
+	constructor(app: App, private noteVectorService: NoteVectorService) {
+		super(app);
+	}
+
+	async onOpen() {
+		this.isOpen = true;
+		const { contentEl } = this;
+		contentEl.createEl("h2", {
+			text: "Tag suggestions for untagged notes",
+		});
+
+		const untagged = this.app.vault
+			.getMarkdownFiles()
+			.filter((file) => {
+				const cache = this.app.metadataCache.getFileCache(file);
+				return !cache || (getAllTags(cache) ?? []).length === 0;
+			})
+			.sort((a, b) => b.stat.mtime - a.stat.mtime);
+		const files = untagged.slice(0, MAX_REVIEWED_NOTES);
+		const status = contentEl.createEl("p", {
+			text:
+				untagged.length > files.length
+					? `Reviewing the ${files.length} most recently modified of ${untagged.length} untagged notes...`
+					: `Reviewing ${files.length} untagged notes...`,
+		});
+		const list = contentEl.createDiv();
+
+		let suggestedCount = 0;
+		for (const file of files) {
+			if (!this.isOpen) return;
+			try {
+				const suggestions = await this.noteVectorService.suggestTags(
+					file
+				);
+				if (!this.isOpen) return;
+				if (suggestions.length === 0) continue;
+				suggestedCount++;
+				this.renderRow(
+					list,
+					file,
+					suggestions.map(({ tag }) => tag)
+				);
+			} catch (error) {
+				console.error(
+					`Failed to suggest tags for ${file.path}:`,
+					error
+				);
+			}
+		}
+		status.setText(
+			suggestedCount > 0
+				? `Found tag suggestions for ${suggestedCount} of ${files.length} untagged notes. Click a tag to add it.`
+				: `No tag suggestions for ${files.length} untagged notes.`
+		);
+	}
+
+	private renderRow(container: HTMLElement, file: TFile, tags: string[]) {
+		const row = container.createDiv({ cls: "setting-item" });
+		const info = row.createDiv({ cls: "setting-item-info" });
+		const link = info.createEl("a", { text: file.basename });
+		link.addEventListener("click", async () => {
+			this.close();
+			await this.app.workspace.getLeaf(false).openFile(file);
+		});
+		info.createDiv({ cls: "setting-item-description", text: file.path });
+
+		const control = row.createDiv({ cls: "setting-item-control" });
+		for (const tag of tags) {
+			const button = control.createEl("button", { text: `#${tag}` });
+			button.addEventListener("click", async () => {
+				button.disabled = true;
+				try {
+					await this.app.fileManager.processFrontMatter(
+						file,
+						(frontmatter: Record<string, unknown>) =>
+							addFrontmatterTag(frontmatter, tag)
+					);
+					button.addClass("mod-cta");
+				} catch (error) {
+					console.error(`Failed to add tag to ${file.path}:`, error);
+					new Notice("Failed to add the tag. Check console.");
+					button.disabled = false;
+				}
+			});
+		}
+	}
+
+	onClose() {
+		this.isOpen = false;
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
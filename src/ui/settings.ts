@@ -1,9 +1,39 @@
 import { Plugin, Notice, App, PluginSettingTab, Setting } from "obsidian";
 import LocalFastVectorizePlugin from "../main";
+import { DEFAULT_SETTINGS } from "../pluginSettings";
 import { DiscardDBModal } from "./modals/DiscardDBModal";
 import { DeleteResourcesModal } from "./modals/DeleteResourcesModal";
 import { RebuildIndexModal } from "./modals/RebuildIndexModal";
 import { RebuildAllIndexesModal } from "./modals/RebuildAllIndexesModal";
+import {
+	createLocalModelDefinition,
+	EMBEDDING_MODEL_DTYPES,
+	EMBEDDING_MODELS,
+	EMBEDDING_POOLING_STRATEGIES,
+	getEmbeddingModel,
+	LOCAL_EMBEDDING_MODEL_ID,
+	supportsStaticInference,
+	type EmbeddingInferenceEngine,
+	type EmbeddingModelDtype,
+	type EmbeddingPoolingStrategy,
+} from "../core/embedding/modelRegistry";
+import { PGliteResourceLoader } from "../core/storage/pglite/PGliteResourceLoader";
+import type { PGliteResourceSource } from "../core/storage/pglite/pgliteResources";
+import type { EmbeddingCacheStats } from "../core/storage/types";
+import {
+	NOTE_SCORE_AGGREGATION_LABELS,
+	type NoteScoreAggregation,
+	type ResultLevel,
+} from "../core/search/noteAggregation";
+import {
+	SEARCH_MODE_LABELS,
+	type RankFusionMethod,
+	type SearchMode,
+} from "../core/search/hybridSearch";
+import {
+	RELATED_CHUNKS_SCOPE_LABELS,
+	type RelatedChunksScope,
+} from "../core/search/cursorSection";
 
 export class VectorizerSettingTab extends PluginSettingTab {
 	plugin: LocalFastVectorizePlugin;
@@ -67,6 +97,8 @@ export class VectorizerSettingTab extends PluginSettingTab {
 					})
 			);
 
+		this.displayPGliteResourceSettings(containerEl);
+
 		containerEl.createEl("h2", { text: "Search modal" });
 
 		new Setting(containerEl)
@@ -89,6 +121,111 @@ export class VectorizerSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Default Search Mode")
+			.setDesc(
+				"Semantic matches by meaning, Keyword matches the exact terms in stored chunk text, and Hybrid combines both rankings. The mode can also be switched inside the search modal."
+			)
+			.addDropdown((dropdown) => {
+				for (const [mode, label] of Object.entries(
+					SEARCH_MODE_LABELS
+				)) {
+					dropdown.addOption(mode, label);
+				}
+				dropdown
+					.setValue(this.plugin.settings.searchMode)
+					.onChange(async (value) => {
+						this.plugin.settings.searchMode = value as SearchMode;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Hybrid Fusion Method")
+			.setDesc(
+				"How Hybrid mode merges the two rankings. Reciprocal rank fusion uses only the rank in each list; weighted score normalizes and adds the scores."
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("rrf", "Reciprocal rank fusion")
+					.addOption("weighted", "Weighted score")
+					.setValue(this.plugin.settings.searchFusionMethod)
+					.onChange(async (value) => {
+						this.plugin.settings.searchFusionMethod =
+							value as RankFusionMethod;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Hybrid Semantic Weight")
+			.setDesc(
+				"Weight of the semantic ranking in Hybrid mode. 0 uses only keywords, 1 uses only semantic similarity."
+			)
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 1, 0.1)
+					.setValue(this.plugin.settings.searchSemanticWeight)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.searchSemanticWeight = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Default Result Granularity")
+			.setDesc(
+				"Whether the search modal lists individual chunks or whole notes ranked by their matching chunks. Can also be switched inside the modal."
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("chunk", "Chunks")
+					.addOption("note", "Notes")
+					.setValue(this.plugin.settings.searchResultLevel)
+					.onChange(async (value) => {
+						this.plugin.settings.searchResultLevel =
+							value as ResultLevel;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Note Score Aggregation")
+			.setDesc(
+				"How chunk scores are combined into a note score when results are listed by note. Best chunk favors a single strong match, mean of top chunks favors consistently relevant notes, and soft count favors notes with many strong matches."
+			)
+			.addDropdown((dropdown) => {
+				for (const [method, label] of Object.entries(
+					NOTE_SCORE_AGGREGATION_LABELS
+				)) {
+					dropdown.addOption(method, label);
+				}
+				dropdown
+					.setValue(this.plugin.settings.noteScoreAggregation)
+					.onChange(async (value) => {
+						this.plugin.settings.noteScoreAggregation =
+							value as NoteScoreAggregation;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Result Diversity")
+			.setDesc(
+				"Balance between relevance and diversity (maximal marginal relevance) for the search modal and the related chunks view. 1 keeps the pure similarity order; lower values skip chunks that are near-identical to ones already shown."
+			)
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 1, 0.1)
+					.setValue(this.plugin.settings.resultDiversityLambda)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.resultDiversityLambda = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		containerEl.createEl("h2", { text: "Related chunks view" });
 
 		new Setting(containerEl)
@@ -116,6 +253,87 @@ export class VectorizerSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Related Chunks Scope")
+			.setDesc(
+				"Whole note finds chunks related to the entire active note. Current section follows the editor cursor and finds chunks related to the heading section under it, which works better for long meeting notes and journals. Can also be toggled from the sidebar header."
+			)
+			.addDropdown((dropdown) => {
+				for (const [scope, label] of Object.entries(
+					RELATED_CHUNKS_SCOPE_LABELS
+				)) {
+					dropdown.addOption(scope, label);
+				}
+				dropdown
+					.setValue(this.plugin.settings.relatedChunksScope)
+					.onChange(async (value) => {
+						await this.plugin.setRelatedChunksScope(
+							value as RelatedChunksScope
+						);
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Related Result Granularity")
+			.setDesc(
+				"Chunks ranks individual chunks. Notes ranks whole notes by their matching chunks (using the note score aggregation above) and shows each note's best chunks; the result limit then counts notes."
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("chunk", "Chunks")
+					.addOption("note", "Notes")
+					.setValue(this.plugin.settings.relatedChunksResultLevel)
+					.onChange(async (value) => {
+						this.plugin.settings.relatedChunksResultLevel =
+							value as ResultLevel;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Max Chunks Per Note")
+			.setDesc(
+				"Maximum number of related chunks shown from a single note, so one note can't fill the sidebar. 0 means no limit."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("e.g., 3")
+					.setValue(
+						this.plugin.settings.relatedChunksMaxChunksPerFile.toString()
+					)
+					.onChange(async (value) => {
+						const limit = parseInt(value);
+						if (!isNaN(limit) && limit >= 0) {
+							this.plugin.settings.relatedChunksMaxChunksPerFile =
+								limit;
+							await this.plugin.saveSettings();
+						} else {
+							new Notice(
+								"Please enter 0 or a positive number for max chunks per note."
+							);
+						}
+					})
+			);
+
+		this.addRelatedChunksFilterSetting(
+			containerEl,
+			"Related Chunks Folders",
+			"Only show chunks from notes in these folders (including subfolders). Comma-separated, e.g. Projects, Areas/Work. Leave empty for the whole vault.",
+			"includeFolders"
+		);
+		this.addRelatedChunksFilterSetting(
+			containerEl,
+			"Related Chunks Excluded Folders",
+			"Never show chunks from notes in these folders. Comma-separated.",
+			"excludeFolders"
+		);
+		this.addRelatedChunksFilterSetting(
+			containerEl,
+			"Related Chunks Tags",
+			"Only show chunks from notes with any of these tags (nested tags included). Comma-separated, e.g. #project, meeting.",
+			"includeTags"
+		);
+
 		new Setting(containerEl)
 			.setName("Auto Show Related Chunks Sidebar")
 			.setDesc(
@@ -131,6 +349,22 @@ export class VectorizerSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Show Tag Suggestions")
+			.setDesc(
+				"Suggest tags for the active note from the tags of similar notes. Click a suggested tag to add it to the note's frontmatter."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.showTagSuggestions)
+					.onChange(async (value) => {
+						this.plugin.settings.showTagSuggestions = value;
+						await this.plugin.saveSettings();
+						this.plugin.viewManager.resetLastProcessedFile();
+						await this.plugin.viewManager.handleActiveLeafChange();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Expand Related Chunks File Groups")
 			.setDesc(
@@ -183,8 +417,160 @@ export class VectorizerSettingTab extends PluginSettingTab {
 					})
 			);
 
+		containerEl.createEl("h2", { text: "Duplicates" });
+
+		new Setting(containerEl)
+			.setName("Duplicate Similarity Threshold")
+			.setDesc(
+				"Minimum cosine similarity for two chunks or notes to be reported as near-duplicates."
+			)
+			.addSlider((slider) =>
+				slider
+					.setLimits(0.8, 0.99, 0.01)
+					.setValue(this.plugin.settings.duplicateSimilarityThreshold)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.duplicateSimilarityThreshold =
+							value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Ignored Duplicate Pairs")
+			.setDesc(
+				`${this.plugin.settings.ignoredDuplicatePairs.length} pairs are hidden from the duplicates report.`
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Clear")
+					.setDisabled(
+						this.plugin.settings.ignoredDuplicatePairs.length === 0
+					)
+					.onClick(async () => {
+						this.plugin.settings.ignoredDuplicatePairs = [];
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		containerEl.createEl("h2", { text: "Map of Content" });
+
+		new Setting(containerEl)
+			.setName("Map of Content Note")
+			.setDesc(
+				"Vault-relative path of the note that lists the note clusters. Only the generated section of the note is replaced when it is regenerated."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("Map of Content.md")
+					.setValue(this.plugin.settings.mapOfContentNotePath)
+					.onChange(async (value) => {
+						this.plugin.settings.mapOfContentNotePath =
+							value.trim() ||
+							DEFAULT_SETTINGS.mapOfContentNotePath;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Number of Clusters")
+			.setDesc(
+				"Number of clusters to divide the notes into. 0 chooses it from the number of notes."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("0")
+					.setValue(
+						this.plugin.settings.mapOfContentClusterCount.toString()
+					)
+					.onChange(async (value) => {
+						const count = parseInt(value);
+						if (!isNaN(count) && count >= 0) {
+							this.plugin.settings.mapOfContentClusterCount =
+								count;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
 		containerEl.createEl("h2", { text: "Vectorization" });
 
+		const isLocalModelSelected =
+			this.plugin.settings.embeddingModelId === LOCAL_EMBEDDING_MODEL_ID;
+		const selectedModel = isLocalModelSelected
+			? createLocalModelDefinition({
+					folderPath: this.plugin.settings.localModelFolderPath,
+					dtype: this.plugin.settings.localModelDtype,
+					dimensions: this.plugin.settings.localModelDimensions,
+					pooling: this.plugin.settings.localModelPooling,
+			  })
+			: getEmbeddingModel(this.plugin.settings.embeddingModelId);
+		new Setting(containerEl)
+			.setName("Embedding Model")
+			.setDesc(
+				`${selectedModel.description} (${selectedModel.dimensions} dimensions). Changing this requires a full index rebuild.`
+			)
+			.addDropdown((dropdown) => {
+				for (const model of EMBEDDING_MODELS) {
+					dropdown.addOption(model.id, model.name);
+				}
+				dropdown.addOption(
+					LOCAL_EMBEDDING_MODEL_ID,
+					"Local folder (offline)"
+				);
+				dropdown.setValue(selectedModel.id).onChange(async (value) => {
+					const oldValue = selectedModel.id;
+					if (value === oldValue) {
+						return;
+					}
+					if (
+						value === LOCAL_EMBEDDING_MODEL_ID &&
+						!this.plugin.settings.localModelFolderPath.trim()
+					) {
+						new Notice(
+							"Set the local model folder in the 'Local embedding model' section first."
+						);
+						dropdown.setValue(oldValue);
+						return;
+					}
+					this.confirmRebuildForSettingChange(
+						() => {
+							this.plugin.settings.embeddingModelId = value;
+						},
+						() => dropdown.setValue(oldValue)
+					);
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("Inference Engine")
+			.setDesc(
+				supportsStaticInference(selectedModel)
+					? "Static reads the token embedding matrix directly and averages it per sentence without the ONNX runtime. It is much faster and lighter on mobile devices. Its vectors can differ slightly from the ONNX engine, so changing this requires a full index rebuild."
+					: "The selected model is not a StaticEmbedding model, so the ONNX engine is always used."
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("onnx", "ONNX (transformers.js)")
+					.addOption("static", "Static (StaticEmbedding only)")
+					.setValue(this.plugin.settings.inferenceEngine)
+					.setDisabled(!supportsStaticInference(selectedModel))
+					.onChange(async (value) => {
+						const oldValue = this.plugin.settings.inferenceEngine;
+						if (value === oldValue) {
+							return;
+						}
+						this.confirmRebuildForSettingChange(
+							() => {
+								this.plugin.settings.inferenceEngine =
+									value as EmbeddingInferenceEngine;
+							},
+							() => dropdown.setValue(oldValue)
+						);
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Exclude Headers from Vectorization")
 			.setDesc(
@@ -202,50 +588,19 @@ export class VectorizerSettingTab extends PluginSettingTab {
 							return;
 						}
 
-						const onConfirm = async () => {
-							this.plugin.settings.excludeHeadersInVectorization =
-								value;
-							await this.plugin.saveSettings();
-
-							try {
-								sessionStorage.setItem(
-									"my-vector-plugin-rebuild-flag",
-									"true"
-								);
-								new Notice(
-									"Setting updated. Reloading the app to start index rebuild..."
-								);
-								setTimeout(() => {
-									this.app.commands.executeCommandById(
-										"app:reload"
-									);
-								}, 1500);
-							} catch (error) {
-								console.error(
-									"Failed to set rebuild flag and reload:",
-									error
-								);
-								new Notice(
-									"Could not initiate rebuild process. Check console."
-								);
-								sessionStorage.removeItem(
-									"my-vector-plugin-rebuild-flag"
-								);
-								toggle.setValue(oldValue); // Revert UI
-							}
-						};
-						const onCancel = () => {
-							new Notice("Change cancelled.");
-							toggle.setValue(oldValue);
-						};
-						new RebuildIndexModal(
-							this.app,
-							onConfirm,
-							onCancel
-						).open();
+						this.confirmRebuildForSettingChange(
+							() => {
+								this.plugin.settings.excludeHeadersInVectorization =
+									value;
+							},
+							() => toggle.setValue(oldValue)
+						);
 					})
 			);
 
+		this.displayLocalModelSettings(containerEl, isLocalModelSelected);
+		this.displayEmbeddingCacheSettings(containerEl);
+
 		containerEl.createEl("h2", { text: "General" });
 
 		// new Setting(containerEl)
@@ -285,4 +640,297 @@ export class VectorizerSettingTab extends PluginSettingTab {
 					})
 			);
 	}
+
+	private displayEmbeddingCacheSettings(containerEl: HTMLElement): void {
+		containerEl.createEl("h2", { text: "Embedding cache" });
+
+		new Setting(containerEl)
+			.setName("Maximum Cache Size")
+			.setDesc(
+				"Embeddings of chunk texts are kept in the database so that rebuilds and moved or restored text are not vectorized again. The least recently used entries are removed when the cache exceeds this size."
+			)
+			.addDropdown((dropdown) => {
+				for (const size of EMBEDDING_CACHE_SIZE_OPTIONS_MB) {
+					dropdown.addOption(
+						size.toString(),
+						size === 0 ? "Disabled" : `${size} MB`
+					);
+				}
+				dropdown
+					.setValue(
+						this.plugin.settings.embeddingCacheMaxSizeMB.toString()
+					)
+					.onChange(async (value) => {
+						this.plugin.settings.embeddingCacheMaxSizeMB =
+							parseInt(value);
+						await this.plugin.saveSettings();
+						try {
+							await this.plugin.applyEmbeddingCacheLimit();
+						} catch (error) {
+							this.plugin.logger?.error(
+								"Failed to apply the embedding cache limit:",
+								error
+							);
+						}
+						await refreshStats();
+					});
+			});
+
+		const statsSetting = new Setting(containerEl)
+			.setName("Cache Statistics")
+			.addButton((button) =>
+				button.setButtonText("Refresh").onClick(() => refreshStats())
+			);
+		const refreshStats = async () => {
+			try {
+				const stats = await this.plugin.getEmbeddingCacheStats();
+				statsSetting.setDesc(
+					stats
+						? formatEmbeddingCacheStats(stats)
+						: "Available after the search engine has been initialized."
+				);
+			} catch (error) {
+				statsSetting.setDesc("Failed to load cache statistics.");
+			}
+		};
+		void refreshStats();
+	}
+
+	private displayPGliteResourceSettings(containerEl: HTMLElement): void {
+		containerEl.createEl("h2", { text: "Database runtime (PGlite)" });
+
+		new Setting(containerEl)
+			.setName("Runtime Files Source")
+			.setDesc(
+				"Where postgres.data, postgres.wasm, vector.tar.gz and pg_trgm.tar.gz are loaded from. If the plugin folder does not contain them, they are downloaded from unpkg.com. Checksums are verified before use. Changes take effect after reloading Obsidian."
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("plugin", "Plugin folder (bundled)")
+					.addOption("folder", "Custom folder")
+					.addOption("cdn", "Download from unpkg.com")
+					.setValue(this.plugin.settings.pgliteResourceSource)
+					.onChange(async (value) => {
+						this.plugin.settings.pgliteResourceSource =
+							value as PGliteResourceSource;
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		if (this.plugin.settings.pgliteResourceSource === "folder") {
+			new Setting(containerEl)
+				.setName("Runtime Files Folder")
+				.setDesc(
+					"Vault-relative folder containing the PGlite runtime files."
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("e.g., resources/pglite")
+						.setValue(this.plugin.settings.pgliteResourceFolderPath)
+						.onChange(async (value) => {
+							this.plugin.settings.pgliteResourceFolderPath =
+								value.trim();
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+
+		const loader = new PGliteResourceLoader(
+			this.app,
+			this.plugin.logger,
+			this.plugin.manifest
+		);
+		new Setting(containerEl)
+			.setName("Download Runtime Files")
+			.setDesc(
+				`Download the runtime files once into ${loader.getPluginResourceDir()} and verify their checksums. Use this if the plugin was installed without them.`
+			)
+			.addButton((button) =>
+				button.setButtonText("Download").onClick(async () => {
+					button.setDisabled(true);
+					const notice = new Notice(
+						"Downloading PGlite runtime files...",
+						0
+					);
+					try {
+						await loader.downloadToPluginFolder();
+						notice.setMessage(
+							"PGlite runtime files downloaded and verified."
+						);
+					} catch (error: any) {
+						console.error(
+							"Failed to download PGlite runtime files:",
+							error
+						);
+						notice.setMessage(
+							`Failed to download PGlite runtime files: ${error.message}`
+						);
+					} finally {
+						setTimeout(() => notice.hide(), 5000);
+						button.setDisabled(false);
+					}
+				})
+			);
+	}
+
+	private displayLocalModelSettings(
+		containerEl: HTMLElement,
+		isLocalModelSelected: boolean
+	): void {
+		containerEl.createEl("h2", { text: "Local embedding model (offline)" });
+
+		new Setting(containerEl)
+			.setName("Model Folder")
+			.setDesc(
+				"Vault-relative folder containing tokenizer.json, the ONNX model under onnx/ and the onnxruntime-web runtime files (ort-wasm-simd-threaded.jsep.mjs / .wasm). The folder may be inside the plugin directory (e.g. .obsidian/plugins/local-fast-vector-search-plugin/models/my-model). Nothing is downloaded when this model is used."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("e.g., models/static-embedding")
+					.setValue(this.plugin.settings.localModelFolderPath)
+					.onChange(async (value) => {
+						this.plugin.settings.localModelFolderPath =
+							value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Model Precision")
+			.setDesc(
+				"Which ONNX file to load (fp32: model.onnx, q8: model_quantized.onnx, ...)."
+			)
+			.addDropdown((dropdown) => {
+				for (const dtype of EMBEDDING_MODEL_DTYPES) {
+					dropdown.addOption(dtype, dtype);
+				}
+				dropdown
+					.setValue(this.plugin.settings.localModelDtype)
+					.onChange(async (value) => {
+						this.plugin.settings.localModelDtype =
+							value as EmbeddingModelDtype;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Output Dimensions")
+			.setDesc(
+				"Number of dimensions stored per vector. Longer model outputs are truncated."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("e.g., 256")
+					.setValue(
+						this.plugin.settings.localModelDimensions.toString()
+					)
+					.onChange(async (value) => {
+						const dimensions = parseInt(value);
+						if (!isNaN(dimensions) && dimensions > 0) {
+							this.plugin.settings.localModelDimensions =
+								dimensions;
+							await this.plugin.saveSettings();
+						} else {
+							new Notice(
+								"Please enter a valid positive number for output dimensions."
+							);
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Pooling")
+			.setDesc(
+				"How token embeddings are combined into a sentence vector. StaticEmbedding models output sentence_embedding directly."
+			)
+			.addDropdown((dropdown) => {
+				for (const pooling of EMBEDDING_POOLING_STRATEGIES) {
+					dropdown.addOption(pooling, pooling);
+				}
+				dropdown
+					.setValue(this.plugin.settings.localModelPooling)
+					.onChange(async (value) => {
+						this.plugin.settings.localModelPooling =
+							value as EmbeddingPoolingStrategy;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		if (isLocalModelSelected) {
+			new Setting(containerEl)
+				.setName("Apply Local Model Changes")
+				.setDesc(
+					"The local model is in use. Changes above take effect after the index is rebuilt."
+				)
+				.addButton((button) =>
+					button.setButtonText("Apply and Rebuild").onClick(() => {
+						this.confirmRebuildForSettingChange(
+							() => {},
+							() => {}
+						);
+					})
+				);
+		}
+	}
+
+	private addRelatedChunksFilterSetting(
+		containerEl: HTMLElement,
+		name: string,
+		desc: string,
+		key: "includeFolders" | "excludeFolders" | "includeTags"
+	): void {
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText((text) =>
+				text
+					.setValue(
+						(
+							this.plugin.settings.relatedChunksFilters[key] ?? []
+						).join(", ")
+					)
+					.onChange(async (value) => {
+						this.plugin.settings.relatedChunksFilters = {
+							...this.plugin.settings.relatedChunksFilters,
+							[key]: parseCommaSeparatedList(value),
+						};
+						await this.plugin.saveSettings();
+					})
+			);
+	}
+
+	private confirmRebuildForSettingChange(
+		applyChange: () => void,
+		revertUi: () => void
+	): void {
+		const onConfirm = async () => {
+			applyChange();
+			await this.plugin.saveSettings();
+			new Notice("Setting updated. Starting index rebuild...");
+			await this.plugin.commandRegistrar.rebuildAllIndexes();
+		};
+		const onCancel = () => {
+			new Notice("Change cancelled.");
+			revertUi();
+		};
+		new RebuildIndexModal(this.app, onConfirm, onCancel).open();
+	}
+}
+
+function parseCommaSeparatedList(value: string): string[] {
+	return value
+		.split(",")
+		.map((item) => item.trim())
+		.filter((item) => item !== "");
+}
+
+const EMBEDDING_CACHE_SIZE_OPTIONS_MB = [0, 25, 50, 100, 250, 500, 1000];
+
+function formatEmbeddingCacheStats(stats: EmbeddingCacheStats): string {
+	const lookups = stats.hits + stats.misses;
+	const hitRate =
+		lookups > 0 ? `${Math.round((stats.hits / lookups) * 100)}%` : "-";
+	const sizeMB = (stats.sizeBytes / (1024 * 1024)).toFixed(1);
+	return `${stats.entries} entries (about ${sizeMB} MB). Hit rate since startup: ${hitRate} (${stats.hits} hits, ${stats.misses} misses).`;
 }
@@ -1,12 +1,14 @@
-import { ItemView, WorkspaceLeaf, MarkdownView, TFile } from "obsidian";
+import { ItemView, Notice, WorkspaceLeaf, TFile } from "obsidian";
 import { mount, unmount } from "svelte";
 import RelatedChunksComponent from "./RelatedChunksComponent.svelte";
 import LocalFastVectorizePlugin from "../../main";
 import type { SimilarityResultItem } from "../../core/storage/types";
 import {
-	offsetToPosition,
-	extractChunkPreview,
-} from "../../shared/utils/textUtils";
+	addFrontmatterTag,
+	type TagSuggestion,
+} from "../../core/search/tagSuggestions";
+import { extractChunkPreview } from "../../shared/utils/textUtils";
+import { openChunkInLeaf } from "../chunkNavigation";
 
 export const VIEW_TYPE_RELATED_CHUNKS = "related-chunks-sidebar";
 
@@ -14,7 +16,12 @@ export class RelatedChunksView extends ItemView {
 	plugin: LocalFastVectorizePlugin;
 	component?: RelatedChunksComponent;
 	currentNoteName: string | null = null;
+	// 現在のセクションのモードで検索したセクションの見出し
+	currentSectionName: string | null = null;
 	currentResults: SimilarityResultItem[] = [];
+	// 提案したタグと、提案の対象のノート
+	tagSuggestionFilePath: string | null = null;
+	tagSuggestions: TagSuggestion[] = [];
 	target: HTMLElement | null = null;
 	isSearchResultsMode = false;
 	searchQuery: string | null = null;
@@ -62,7 +69,12 @@ export class RelatedChunksView extends ItemView {
 			props: {
 				plugin: this.plugin,
 				activeNoteName: this.currentNoteName,
+				activeSectionName: this.currentSectionName,
+				scope: this.plugin.settings.relatedChunksScope,
+				onScopeToggle: this.handleScopeToggle.bind(this),
 				relatedChunks: this.currentResults,
+				tagSuggestions: this.tagSuggestions,
+				onTagAccept: this.handleTagAccept.bind(this),
 				onChunkClick: this.handleChunkClick.bind(this),
 				getChunkPreview: this.getChunkPreview.bind(this),
 				isSearchResultsMode: this.isSearchResultsMode,
@@ -90,16 +102,68 @@ export class RelatedChunksView extends ItemView {
 			this.target = null;
 		}
 	}
-	async updateView(noteName: string | null, results: SimilarityResultItem[]) {
+	async updateView(
+		noteName: string | null,
+		results: SimilarityResultItem[],
+		sectionName: string | null = null
+	) {
 		if (this.isSearchResultsMode) {
 			return;
 		}
 		this.currentNoteName = noteName;
+		this.currentSectionName = sectionName;
 		this.currentResults = results;
 		this.renderComponent();
 	}
 
+	updateTagSuggestions(
+		filePath: string | null,
+		suggestions: TagSuggestion[]
+	) {
+		this.tagSuggestionFilePath = filePath;
+		this.tagSuggestions = suggestions;
+		this.renderComponent();
+	}
+
+	private async handleTagAccept(tag: string) {
+		const file = this.tagSuggestionFilePath
+			? this.app.vault.getAbstractFileByPath(this.tagSuggestionFilePath)
+			: null;
+		if (!(file instanceof TFile)) {
+			return;
+		}
+		try {
+			await this.app.fileManager.processFrontMatter(
+				file,
+				(frontmatter: Record<string, unknown>) =>
+					addFrontmatterTag(frontmatter, tag)
+			);
+		} catch (e) {
+			this.plugin.logger?.error(`Failed to add tag to ${file.path}:`, e);
+			new Notice("Failed to add the tag. Check console.");
+			return;
+		}
+		this.updateTagSuggestions(
+			file.path,
+			this.tagSuggestions.filter((suggestion) => suggestion.tag !== tag)
+		);
+	}
+
+	private async handleScopeToggle() {
+		await this.plugin.setRelatedChunksScope(
+			this.plugin.settings.relatedChunksScope === "note"
+				? "section"
+				: "note"
+		);
+		// 結果が変わらず更新されなかった場合も、切り替えボタンの表示を変える
+		this.renderComponent();
+	}
+
 	private async getChunkPreview(item: SimilarityResultItem): Promise<string> {
+		// 保存されたテキストがあれば、ファイルが編集されていてもインデックス作成時の内容を表示する
+		if (item.chunk != null) {
+			return item.chunk;
+		}
 		try {
 			const file = this.plugin.app.vault.getAbstractFileByPath(
 				item.file_path
@@ -123,6 +187,8 @@ export class RelatedChunksView extends ItemView {
 	}
 
 	clearView() {
+		this.tagSuggestionFilePath = null;
+		this.tagSuggestions = [];
 		this.updateView(null, []);
 	}
 
@@ -160,21 +226,15 @@ export class RelatedChunksView extends ItemView {
 			return;
 		}
 
-		const leaf = this.app.workspace.getLeaf(false);
-		await leaf.openFile(file);
-
-		if (!(leaf.view instanceof MarkdownView)) {
-			return;
-		}
-
-		let position = { line: 0, ch: 0 };
-
-		if (item.chunk_offset_start != null && item.chunk_offset_start !== -1) {
-			const content = await this.app.vault.cachedRead(file);
-			position = offsetToPosition(content, item.chunk_offset_start);
-		}
-
-		leaf.view.editor.setCursor(position);
-		leaf.view.editor.scrollIntoView({ from: position, to: position }, true);
+		await openChunkInLeaf(
+			this.app,
+			this.app.workspace.getLeaf(false),
+			file,
+			{
+				chunk: item.chunk ?? null,
+				offsetStart: item.chunk_offset_start ?? null,
+				offsetEnd: item.chunk_offset_end ?? null,
+			}
+		);
 	}
 }
@@ -0,0 +1,41 @@
+import { setTooltip } from "obsidian";
+import type { WorkerHealth } from "../../core/workers/IntegratedWorkerProxy";
+
+// Worker が再起動した、または停止したときだけステータスバーに表示する
+export class WorkerStatusIndicator {
+	constructor(private statusBarEl: HTMLElement) {
+		this.statusBarEl.hide();
+	}
+
+	update(health: WorkerHealth): void {
+		if (health.state !== "failed" && health.restartCount === 0) {
+			this.statusBarEl.hide();
+			return;
+		}
+
+		let text: string;
+		switch (health.state) {
+			case "restarting":
+				text = `Vector worker: restarting (${health.restartCount})`;
+				break;
+			case "failed":
+				text = "Vector worker: stopped";
+				break;
+			default:
+				text = `Vector worker: restarted ${health.restartCount}x`;
+				break;
+		}
+		this.statusBarEl.setText(text);
+		setTooltip(
+			this.statusBarEl,
+			health.lastError
+				? `Last failure: ${health.lastError}`
+				: "The vector worker is running."
+		);
+		this.statusBarEl.show();
+	}
+
+	reset(): void {
+		this.statusBarEl.hide();
+	}
+}